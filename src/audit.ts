@@ -0,0 +1,154 @@
+/**
+ * Audit log of tool calls.
+ *
+ * Every tool call is written as one JSON line: the tool, its arguments with
+ * secrets redacted, the repository it targeted, the outcome, the GitHub
+ * request IDs and how long it took. Lines go to stderr or to a file that is
+ * rotated by size, keeping a fixed number of older files (audit.log.1 being
+ * the newest of those).
+ */
+
+import { appendFileSync, mkdirSync, renameSync, rmSync, statSync } from "node:fs";
+import { dirname } from "node:path";
+
+/** Default size at which the log file is rotated. */
+export const DEFAULT_AUDIT_LOG_MAX_BYTES = 10 * 1024 * 1024;
+
+/** Default number of rotated files kept. */
+export const DEFAULT_AUDIT_LOG_MAX_FILES = 5;
+
+/** Destination that writes the log to stderr instead of a file. */
+export const AUDIT_LOG_STDERR = "stderr";
+
+const REDACTED = "[REDACTED]";
+
+// Argument names whose values are never logged
+const SECRET_KEY = /token|secret|password|passphrase|authorization|credential|private_?key/i;
+
+// Secrets recognizable by their shape: GitHub tokens and PEM private keys
+const SECRET_VALUE = new RegExp(
+  [
+    String.raw`\bgh[pousr]_[A-Za-z0-9]{20,}\b`,
+    String.raw`\bgithub_pat_[A-Za-z0-9_]{20,}\b`,
+    String.raw`-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----`,
+  ].join("|"),
+  "g"
+);
+
+export interface AuditRecord {
+  /** When the call started, as an ISO 8601 timestamp. */
+  timestamp: string;
+  tool: string;
+  /** Arguments as passed, after redactSecrets. */
+  arguments: unknown;
+  /** "owner/repo" from the owner and repo arguments, if the tool takes them. */
+  repository: string | null;
+  /** Whether the call only reported what it would change. */
+  dry_run: boolean;
+  outcome: "success" | "error";
+  /** The error reported to the client, for failed calls. */
+  error?: string;
+  /** IDs of the GitHub requests made, in the order responses arrived. */
+  github_request_ids: string[];
+  duration_ms: number;
+  /** Fingerprint of the GitHub credentials the call used. */
+  credentials: string;
+  /** The MCP client, as "name/version" from its initialize request. */
+  client: string | null;
+  /** HTTP session ID; null over stdio. */
+  session_id: string | null;
+}
+
+export interface AuditLogOptions {
+  /** File to append to; AUDIT_LOG_STDERR writes to stderr. */
+  destination: string;
+  /** Rotate the file before it would grow past this size. */
+  maxBytes?: number;
+  /** Rotated files to keep; 0 discards the log on rotation. */
+  maxFiles?: number;
+}
+
+/**
+ * Copy of `value` with secrets replaced by "[REDACTED]": values of keys that
+ * name a secret, and strings shaped like tokens or private keys.
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.replace(SECRET_VALUE, REDACTED);
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, SECRET_KEY.test(key) ? REDACTED : redactSecrets(item)])
+    );
+  }
+  return value;
+}
+
+export class AuditLog {
+  private readonly file: string | undefined;
+  private readonly maxBytes: number;
+  private readonly maxFiles: number;
+  /** Current size of the file, to know when to rotate it. */
+  private size = 0;
+
+  constructor(options: AuditLogOptions) {
+    this.file = options.destination === AUDIT_LOG_STDERR ? undefined : options.destination;
+    this.maxBytes = options.maxBytes ?? DEFAULT_AUDIT_LOG_MAX_BYTES;
+    this.maxFiles = options.maxFiles ?? DEFAULT_AUDIT_LOG_MAX_FILES;
+
+    if (this.file) {
+      mkdirSync(dirname(this.file), { recursive: true });
+      try {
+        this.size = statSync(this.file).size;
+      } catch {
+        // Not created yet
+      }
+    }
+  }
+
+  /**
+   * Write a record. Failing to write never fails the tool call; the failure
+   * and the record go to stderr instead, so the call is not lost.
+   */
+  write(record: AuditRecord): void {
+    const line = `${JSON.stringify(record)}\n`;
+    if (!this.file) {
+      process.stderr.write(line);
+      return;
+    }
+
+    try {
+      const bytes = Buffer.byteLength(line);
+      if (this.size > 0 && this.size + bytes > this.maxBytes) {
+        this.rotate(this.file);
+      }
+      appendFileSync(this.file, line);
+      this.size += bytes;
+    } catch (error) {
+      process.stderr.write(
+        `Cannot write audit log "${this.file}": ${error instanceof Error ? error.message : error}\n${line}`
+      );
+    }
+  }
+
+  /** Shift file.1 … file.(maxFiles - 1) up by one and move the file to file.1. */
+  private rotate(file: string): void {
+    if (this.maxFiles === 0) {
+      rmSync(file, { force: true });
+    } else {
+      rmSync(`${file}.${this.maxFiles}`, { force: true });
+      for (let i = this.maxFiles - 1; i >= 1; i--) {
+        try {
+          renameSync(`${file}.${i}`, `${file}.${i + 1}`);
+        } catch {
+          // Fewer rotated files than kept so far
+        }
+      }
+      renameSync(file, `${file}.1`);
+    }
+    this.size = 0;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Completion of owner, repository and issue number arguments.
+ *
+ * Owners and repositories come from the repositories the credentials can
+ * access (or, for an owner outside them, the owner's public repositories);
+ * issue numbers from GitHub's issue search. Each server has its own
+ * completer, so results are cached per session, for a few minutes so that
+ * new repositories and issues show up.
+ */
+
+import type { GitHubClient } from "./github/client.js";
+import type { RepositoryReference } from "./github/types.js";
+
+/** How long fetched completions are reused. */
+export const COMPLETION_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/** Most values a completion response may hold. */
+const MAX_COMPLETIONS = 100;
+
+function startsWith(value: string, prefix: string): boolean {
+  return value.toLowerCase().startsWith(prefix.toLowerCase());
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)].slice(0, MAX_COMPLETIONS);
+}
+
+export class ArgumentCompleter {
+  private readonly client: GitHubClient;
+  private readonly cache = new Map<string, { expiresAt: number; value: Promise<unknown> }>();
+
+  constructor(client: GitHubClient) {
+    this.client = client;
+  }
+
+  /** Owners of accessible repositories starting with `prefix`. */
+  async owners(prefix: string): Promise<string[]> {
+    const repositories = await this.accessibleRepositories();
+    return unique(repositories.map((repository) => repository.owner).filter((owner) => startsWith(owner, prefix)));
+  }
+
+  /**
+   * Repository names starting with `prefix`, of `owner` if given.
+   */
+  async repositories(owner: string | undefined, prefix: string): Promise<string[]> {
+    let repositories = await this.accessibleRepositories();
+    if (owner) {
+      repositories = repositories.filter((repository) => repository.owner.toLowerCase() === owner.toLowerCase());
+      if (repositories.length === 0) {
+        repositories = await this.cached(`owner:${owner.toLowerCase()}`, () => this.client.listOwnerRepositories(owner));
+      }
+    }
+    return unique(repositories.map((repository) => repository.name).filter((name) => startsWith(name, prefix)));
+  }
+
+  /**
+   * Issue numbers in owner/repo, most recently updated first: those starting
+   * with `prefix` when it is a number, otherwise those whose title contains it.
+   */
+  async issueNumbers(owner: string | undefined, repo: string | undefined, prefix: string): Promise<string[]> {
+    if (!owner || !repo) {
+      return [];
+    }
+    const text = /^\d*$/.test(prefix) ? "" : prefix.trim();
+    const issues = await this.cached(
+      `issues:${owner}/${repo}:${text}`.toLowerCase(),
+      () => this.client.searchIssues(owner, repo, text)
+    );
+    const numbers = issues.map((issue) => String(issue.number));
+    return unique(text ? numbers : numbers.filter((number) => number.startsWith(prefix)));
+  }
+
+  private accessibleRepositories(): Promise<RepositoryReference[]> {
+    return this.cached("repositories", () => this.client.listRepositories());
+  }
+
+  /**
+   * The cached result of `load`, loading it when missing or expired. Failures
+   * are not cached, and complete to nothing.
+   */
+  private cached<T>(key: string, load: () => Promise<T[]>): Promise<T[]> {
+    const entry = this.cache.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.value as Promise<T[]>;
+    }
+
+    const value = load().catch(() => {
+      this.cache.delete(key);
+      return [];
+    });
+    this.cache.set(key, { expiresAt: Date.now() + COMPLETION_CACHE_TTL_MS, value });
+    return value;
+  }
+}
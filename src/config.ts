@@ -2,30 +2,344 @@
  * Configuration management for the MCP server.
  */
 
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import type { GitHubAppCredentials } from "./github/app-auth.js";
+import { validateRepositoryPatterns } from "./github/policy.js";
+
 export interface Config {
-  githubToken: string;
+  /**
+   * Either a token or GitHub App credentials is required, except in HTTP
+   * mode, where sessions may send their own token.
+   */
+  githubToken?: string;
+  githubApp?: GitHubAppCredentials;
   githubApiBaseUrl?: string;
+  maxListItems?: number;
+  batchConcurrency?: number;
+  maxRetries?: number;
+  maxConcurrentRequests?: number;
+  cacheTtlSeconds?: number;
+  cacheMaxEntries?: number;
+  cacheDir?: string;
+  /** Keep the change journal in this file instead of only in memory. */
+  journalFile?: string;
+  journalMaxEntries?: number;
+  /** Register only tools that do not modify GitHub. */
+  readOnly?: boolean;
+  /** Report what mutating tools would change instead of changing it. */
+  dryRun?: boolean;
+  /** Register only these tools. */
+  allowedTools?: string[];
+  /** Never register these tools. */
+  deniedTools?: string[];
+  /** Repository patterns tools may read from (see src/github/policy.ts). */
+  readRepositories?: string[];
+  /** Repository patterns tools may write to; defaults to readRepositories. */
+  writeRepositories?: string[];
+  /** Log every tool call to this file, or to stderr if "stderr". */
+  auditLog?: string;
+  auditLogMaxBytes?: number;
+  auditLogMaxFiles?: number;
+  /** Seconds between polls of subscribed resources. */
+  subscriptionPollSeconds?: number;
+}
+
+/**
+ * Settings that can be kept in the JSON file named by MCP_CONFIG_FILE.
+ * Environment variables take precedence over the file.
+ */
+const ConfigFileSchema = z.object({
+  readOnly: z.boolean().optional(),
+  dryRun: z.boolean().optional(),
+  tools: z.object({
+    allow: z.array(z.string()).optional(),
+    deny: z.array(z.string()).optional(),
+  }).strict().optional(),
+  repositories: z.object({
+    read: z.array(z.string()).optional(),
+    write: z.array(z.string()).optional(),
+  }).strict().optional(),
+}).strict();
+
+type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+export type TransportMode = "stdio" | "http";
+
+export interface TransportConfig {
+  transport: TransportMode;
+  host: string;
+  port: number;
+  /** Seconds an HTTP session may stay idle before it is closed. */
+  sessionIdleTimeoutSeconds: number;
+  /**
+   * Host header values accepted besides the bind address (and the loopback
+   * names when bound to loopback), e.g. the name of a reverse proxy.
+   */
+  allowedHosts?: string[];
+}
+
+/** Defaults for HTTP mode; binding to loopback keeps the server private unless asked. */
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+export const DEFAULT_HTTP_PORT = 3000;
+export const DEFAULT_SESSION_IDLE_TIMEOUT_SECONDS = 30 * 60;
+
+/**
+ * Parse an optional positive integer environment variable.
+ */
+function parsePositiveInt(name: string, raw = process.env[name]): number | undefined {
+  if (raw === undefined || raw === "") {
+    return undefined;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`${name} must be a positive integer, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Parse an optional non-negative integer environment variable.
+ */
+function parseNonNegativeInt(name: string, raw = process.env[name]): number | undefined {
+  if (raw === undefined || raw === "") {
+    return undefined;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${raw}"`);
+  }
+  return value;
+}
+
+export interface LoadConfigOptions {
+  /** Throw when neither GITHUB_TOKEN nor a GitHub App is configured (default true). */
+  requireCredentials?: boolean;
+}
+
+/**
+ * Parse an optional boolean environment variable ("true"/"false", "1"/"0").
+ */
+function parseBoolean(name: string): boolean | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") {
+    return undefined;
+  }
+
+  const value = raw.toLowerCase();
+  if (value === "true" || value === "1") {
+    return true;
+  }
+  if (value === "false" || value === "0") {
+    return false;
+  }
+  throw new Error(`${name} must be "true" or "false", got "${raw}"`);
+}
+
+/**
+ * Parse an optional comma-separated list environment variable.
+ */
+function parseList(name: string): string[] | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") {
+    return undefined;
+  }
+  return raw.split(",").map((item) => item.trim()).filter((item) => item !== "");
+}
+
+/**
+ * Load the JSON file named by MCP_CONFIG_FILE, if any.
+ */
+function loadConfigFile(): ConfigFile {
+  const path = process.env.MCP_CONFIG_FILE;
+  if (!path) {
+    return {};
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(`Cannot read MCP_CONFIG_FILE "${path}": ${error instanceof Error ? error.message : error}`);
+  }
+
+  const result = ConfigFileSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`Invalid MCP_CONFIG_FILE "${path}":\n${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Load GitHub App credentials from GITHUB_APP_ID, GITHUB_APP_PRIVATE_KEY_FILE
+ * and the optional GITHUB_APP_INSTALLATION_ID.
+ */
+function loadGitHubApp(): GitHubAppCredentials | undefined {
+  const appId = process.env.GITHUB_APP_ID || undefined;
+  const privateKeyFile = process.env.GITHUB_APP_PRIVATE_KEY_FILE || undefined;
+  const installationId = parsePositiveInt("GITHUB_APP_INSTALLATION_ID");
+
+  if (!appId && !privateKeyFile && installationId === undefined) {
+    return undefined;
+  }
+  if (!appId || !privateKeyFile) {
+    throw new Error("GitHub App authentication requires both GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY_FILE");
+  }
+
+  let privateKey: string;
+  try {
+    privateKey = readFileSync(privateKeyFile, "utf8");
+  } catch (error) {
+    throw new Error(
+      `Cannot read GITHUB_APP_PRIVATE_KEY_FILE "${privateKeyFile}": ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  return { appId, privateKey, installationId };
 }
 
 /**
  * Load configuration from environment variables.
- * The GITHUB_TOKEN is expected to be set by the caller (e.g., Claude Desktop config).
+ * The GITHUB_TOKEN (or GitHub App credentials) is expected to be set by the
+ * caller (e.g., Claude Desktop config).
  */
-export function loadConfig(): Config {
-  const githubToken = process.env.GITHUB_TOKEN;
+export function loadConfig(options: LoadConfigOptions = {}): Config {
+  const githubToken = process.env.GITHUB_TOKEN || undefined;
+  const githubApp = loadGitHubApp();
 
-  if (!githubToken) {
+  if (githubToken && githubApp) {
+    throw new Error("Set either GITHUB_TOKEN or GitHub App credentials (GITHUB_APP_ID), not both");
+  }
+  if (!githubToken && !githubApp && options.requireCredentials !== false) {
     throw new Error(
       "GITHUB_TOKEN environment variable is required. " +
-        "Set it directly or use: gh auth token"
+        "Set it directly or use: gh auth token. " +
+        "Alternatively, authenticate as a GitHub App with GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY_FILE"
     );
   }
 
   // Optional: custom GitHub API base URL for testing
   const githubApiBaseUrl = process.env.GITHUB_API_BASE_URL;
 
+  // Optional: cap on items fetched when following paginated list endpoints
+  const maxListItems = parsePositiveInt("GITHUB_MAX_LIST_ITEMS");
+
+  // Optional: number of requests a batch tool runs at once
+  const batchConcurrency = parsePositiveInt("GITHUB_BATCH_CONCURRENCY");
+
+  // Optional: retries for rate-limited or failed requests (0 disables retrying)
+  const maxRetries = parseNonNegativeInt("GITHUB_MAX_RETRIES");
+
+  // Optional: limit on GitHub requests in flight across all tool calls
+  const maxConcurrentRequests = parsePositiveInt("GITHUB_MAX_CONCURRENT_REQUESTS");
+
+  // Optional: conditional-request cache settings (GITHUB_CACHE_MAX_ENTRIES=0 disables it)
+  const cacheTtlSeconds = parseNonNegativeInt("GITHUB_CACHE_TTL_SECONDS");
+  const cacheMaxEntries = parseNonNegativeInt("GITHUB_CACHE_MAX_ENTRIES");
+  const cacheDir = process.env.GITHUB_CACHE_DIR || undefined;
+
+  // Optional: persist the journal of changes that github_undo_change reverts
+  const journalFile = process.env.GITHUB_JOURNAL_FILE || undefined;
+  const journalMaxEntries = parsePositiveInt("GITHUB_JOURNAL_MAX_ENTRIES");
+
+  // Optional: limit the tools the server registers
+  const file = loadConfigFile();
+  const readOnly = parseBoolean("MCP_READ_ONLY") ?? file.readOnly;
+  const allowedTools = parseList("MCP_ALLOWED_TOOLS") ?? file.tools?.allow;
+  const deniedTools = parseList("MCP_DENIED_TOOLS") ?? file.tools?.deny;
+
+  // Optional: have every mutating tool only report its planned change
+  const dryRun = parseBoolean("MCP_DRY_RUN") ?? file.dryRun;
+
+  // Optional: restrict the repositories tools may read from and write to
+  const readRepositories = parseList("GITHUB_READ_REPOS") ?? file.repositories?.read;
+  const writeRepositories = parseList("GITHUB_WRITE_REPOS") ?? file.repositories?.write;
+  validateRepositoryPatterns([...(readRepositories ?? []), ...(writeRepositories ?? [])]);
+
+  // Optional: audit log of tool calls, rotated by size
+  const auditLog = process.env.MCP_AUDIT_LOG || undefined;
+  const auditLogMaxBytes = parsePositiveInt("MCP_AUDIT_LOG_MAX_BYTES");
+  const auditLogMaxFiles = parseNonNegativeInt("MCP_AUDIT_LOG_MAX_FILES");
+
+  // Optional: how often subscribed resources are checked for changes
+  const subscriptionPollSeconds = parsePositiveInt("MCP_SUBSCRIPTION_POLL_SECONDS");
+
   return {
     githubToken,
+    githubApp,
     githubApiBaseUrl,
+    maxListItems,
+    batchConcurrency,
+    maxRetries,
+    maxConcurrentRequests,
+    cacheTtlSeconds,
+    cacheMaxEntries,
+    cacheDir,
+    journalFile,
+    journalMaxEntries,
+    readOnly,
+    dryRun,
+    allowedTools,
+    deniedTools,
+    readRepositories,
+    writeRepositories,
+    auditLog,
+    auditLogMaxBytes,
+    auditLogMaxFiles,
+    subscriptionPollSeconds,
+  };
+}
+
+/**
+ * Value of a `--name value` or `--name=value` command-line flag.
+ */
+function flagValue(argv: string[], name: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === `--${name}`) {
+      return argv[i + 1];
+    }
+    if (argv[i].startsWith(`--${name}=`)) {
+      return argv[i].slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Load the transport settings. Command-line flags (`--transport`, `--host`,
+ * `--port`) take precedence over MCP_TRANSPORT, MCP_HTTP_HOST and
+ * MCP_HTTP_PORT; `--http` is shorthand for `--transport http`.
+ */
+export function loadTransportConfig(argv: string[] = process.argv.slice(2)): TransportConfig {
+  const transport = flagValue(argv, "transport") ??
+    (argv.includes("--http") ? "http" : undefined) ??
+    (process.env.MCP_TRANSPORT || "stdio");
+
+  if (transport !== "stdio" && transport !== "http") {
+    throw new Error(`Transport must be "stdio" or "http", got "${transport}"`);
+  }
+
+  const host = flagValue(argv, "host") ?? (process.env.MCP_HTTP_HOST || DEFAULT_HTTP_HOST);
+
+  // Port 0 picks a free port, which is logged at startup
+  const portFlag = flagValue(argv, "port");
+  const port = portFlag !== undefined
+    ? parseNonNegativeInt("--port", portFlag)
+    : parseNonNegativeInt("MCP_HTTP_PORT");
+  if (port !== undefined && port > 65535) {
+    throw new Error(`Port must be between 0 and 65535, got ${port}`);
+  }
+
+  // Optional: close HTTP sessions whose client went away without ending them
+  const sessionIdleTimeoutSeconds = parsePositiveInt("MCP_SESSION_IDLE_TIMEOUT_SECONDS");
+
+  return {
+    transport,
+    host,
+    port: port ?? DEFAULT_HTTP_PORT,
+    sessionIdleTimeoutSeconds: sessionIdleTimeoutSeconds ?? DEFAULT_SESSION_IDLE_TIMEOUT_SECONDS,
+    allowedHosts: parseList("MCP_HTTP_ALLOWED_HOSTS"),
   };
 }
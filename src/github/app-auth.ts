@@ -0,0 +1,175 @@
+/**
+ * GitHub App installation authentication.
+ *
+ * The app signs a short-lived JWT with its private key and exchanges it for
+ * installation access tokens, which expire after an hour. Tokens are cached
+ * per installation and refreshed shortly before they expire. Without a
+ * configured installation ID, the installation is looked up for each
+ * repository owner.
+ */
+
+import { createPrivateKey, sign, type KeyObject } from "node:crypto";
+import { Octokit } from "@octokit/rest";
+import { formatErrorMessage, toGitHubApiError } from "./errors.js";
+
+/** Refresh installation tokens this long before GitHub expires them. */
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/** App JWTs may live at most ten minutes; stay clear of the limit. */
+const JWT_LIFETIME_SECONDS = 9 * 60;
+
+/** Backdate JWTs to tolerate clock drift between us and GitHub. */
+const JWT_CLOCK_SKEW_SECONDS = 60;
+
+export interface GitHubAppCredentials {
+  appId: string;
+  /** PEM-encoded private key of the app. */
+  privateKey: string;
+  /** Use this installation for every request instead of looking it up per owner. */
+  installationId?: number;
+}
+
+interface InstallationToken {
+  token: string;
+  expiresAt: number;
+}
+
+function base64url(data: string | Buffer): string {
+  return Buffer.from(data).toString("base64url");
+}
+
+/**
+ * Create the JWT that authenticates as the app itself.
+ */
+export function createAppJwt(appId: string, privateKey: KeyObject | string, now = Date.now()): string {
+  const issuedAt = Math.floor(now / 1000) - JWT_CLOCK_SKEW_SECONDS;
+  const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+  const payload = base64url(JSON.stringify({
+    iat: issuedAt,
+    exp: issuedAt + JWT_CLOCK_SKEW_SECONDS + JWT_LIFETIME_SECONDS,
+    iss: appId,
+  }));
+  const signature = sign("RSA-SHA256", Buffer.from(`${header}.${payload}`), privateKey);
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+/**
+ * Supplies installation tokens for GitHubClient requests.
+ */
+export class GitHubAppAuth {
+  readonly appId: string;
+  private readonly privateKey: KeyObject;
+  private readonly installationId: number | undefined;
+  private readonly octokit: Octokit;
+  /** Installation tokens by installation ID. */
+  private readonly tokens = new Map<number, InstallationToken>();
+  /** Token requests in flight, shared by concurrent callers. */
+  private readonly refreshing = new Map<number, Promise<InstallationToken>>();
+  /** Installation IDs by lowercased owner login. */
+  private readonly installations = new Map<string, Promise<number>>();
+
+  constructor(credentials: GitHubAppCredentials, baseUrl?: string) {
+    this.appId = credentials.appId;
+    this.installationId = credentials.installationId;
+    try {
+      this.privateKey = createPrivateKey(credentials.privateKey);
+    } catch (error) {
+      throw new Error(`GitHub App private key is not a valid PEM key: ${formatErrorMessage(error)}`);
+    }
+    this.octokit = new Octokit({
+      userAgent: "github-issues-mcp/1.0.0",
+      ...(baseUrl && { baseUrl }),
+    });
+  }
+
+  /** Identifies the credentials, e.g. to scope cached responses. */
+  get scope(): string {
+    return `app:${this.appId}:${this.installationId ?? "auto"}`;
+  }
+
+  /**
+   * An installation token for a request to a repository of `owner`. Requests
+   * without an owner use the configured installation, or the app's first one.
+   */
+  async tokenFor(owner?: string): Promise<string> {
+    const installationId = await this.installationFor(owner);
+    const cached = this.tokens.get(installationId);
+    if (cached && cached.expiresAt - Date.now() >= TOKEN_REFRESH_MARGIN_MS) {
+      return cached.token;
+    }
+
+    let refresh = this.refreshing.get(installationId);
+    if (!refresh) {
+      refresh = this.createInstallationToken(installationId).finally(() => this.refreshing.delete(installationId));
+      this.refreshing.set(installationId, refresh);
+    }
+    const token = await refresh;
+    this.tokens.set(installationId, token);
+    return token.token;
+  }
+
+  private installationFor(owner: string | undefined): Promise<number> {
+    if (this.installationId !== undefined) {
+      return Promise.resolve(this.installationId);
+    }
+
+    const key = owner?.toLowerCase() ?? "";
+    let pending = this.installations.get(key);
+    if (!pending) {
+      pending = owner ? this.findInstallation(owner) : this.firstInstallation();
+      this.installations.set(key, pending);
+      // Look the owner up again next time if this failed
+      pending.catch(() => this.installations.delete(key));
+    }
+    return pending;
+  }
+
+  private async appRequest<T>(route: string, params: Record<string, unknown> = {}): Promise<T> {
+    try {
+      const response = await this.octokit.request(route, {
+        ...params,
+        headers: { authorization: `Bearer ${createAppJwt(this.appId, this.privateKey)}` },
+      });
+      return response.data as T;
+    } catch (error) {
+      throw toGitHubApiError(error, { route, params });
+    }
+  }
+
+  private async findInstallation(owner: string): Promise<number> {
+    try {
+      // Organization and user accounts have separate lookup endpoints
+      const installation = await this.appRequest<{ id: number }>("GET /users/{username}/installation", {
+        username: owner,
+      }).catch(() => this.appRequest<{ id: number }>("GET /orgs/{org}/installation", { org: owner }));
+      return installation.id;
+    } catch (error) {
+      throw new Error(
+        `GitHub App ${this.appId} is not installed for "${owner}", or its credentials are invalid. ` +
+          `Install the app on the account or set GITHUB_APP_INSTALLATION_ID. (${formatErrorMessage(error)})`
+      );
+    }
+  }
+
+  private async firstInstallation(): Promise<number> {
+    const installations = await this.appRequest<Array<{ id: number }>>("GET /app/installations", { per_page: 1 });
+    if (installations.length === 0) {
+      throw new Error(`GitHub App ${this.appId} has no installations.`);
+    }
+    return installations[0].id;
+  }
+
+  private async createInstallationToken(installationId: number): Promise<InstallationToken> {
+    try {
+      const data = await this.appRequest<{ token: string; expires_at: string }>(
+        "POST /app/installations/{installation_id}/access_tokens",
+        { installation_id: installationId }
+      );
+      return { token: data.token, expiresAt: Date.parse(data.expires_at) };
+    } catch (error) {
+      throw new Error(
+        `Could not get a token for GitHub App installation ${installationId}: ${formatErrorMessage(error)}`
+      );
+    }
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Conditional-request cache for GitHub GET responses.
+ *
+ * Entries are keyed by route and parameters and remember the response ETag.
+ * Within the TTL an entry is served without contacting GitHub; after that it
+ * is revalidated with If-None-Match, and a 304 (which does not count against
+ * the rate limit) refreshes it. Entries are tagged with the issues they
+ * describe so writes can invalidate them.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { parseIssueUrl } from "./issue-ref.js";
+
+/** Default number of responses kept in memory. */
+export const DEFAULT_CACHE_MAX_ENTRIES = 1000;
+
+export interface CachedResponse {
+  etag: string | null;
+  link: string | null;
+  data: unknown;
+  /** Milliseconds since the epoch when GitHub last confirmed the entry. */
+  storedAt: number;
+  /** Issues the response describes, as "owner/repo#number". */
+  issues: string[];
+}
+
+export interface ResponseCacheOptions {
+  /** Serve entries without revalidating for this many seconds (0 always revalidates). */
+  ttlSeconds?: number;
+  maxEntries?: number;
+  /** Also persist entries as JSON files in this directory. */
+  directory?: string;
+  /** Separates entries of different credentials sharing a directory. */
+  scope?: string;
+}
+
+export function issueTag(owner: string, repo: string, issueNumber: number): string {
+  return `${owner}/${repo}#${issueNumber}`.toLowerCase();
+}
+
+export class ResponseCache {
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private readonly directory: string | undefined;
+  private readonly scope: string;
+  /** Insertion order doubles as least-recently-used order. */
+  private readonly entries = new Map<string, CachedResponse>();
+  /** Issue IDs seen in cached data, so writes given only an ID can invalidate. */
+  private readonly tagsById = new Map<number, string>();
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.ttlMs = (options.ttlSeconds ?? 0) * 1000;
+    this.maxEntries = options.maxEntries ?? DEFAULT_CACHE_MAX_ENTRIES;
+    this.directory = options.directory;
+    this.scope = options.scope ?? "";
+
+    if (this.directory) {
+      mkdirSync(this.directory, { recursive: true });
+      this.load(this.directory);
+    }
+  }
+
+  /**
+   * Cache key for a request, leaving out headers.
+   */
+  key(route: string, params: Record<string, unknown> = {}): string {
+    const { headers: _headers, ...rest } = params;
+    const sorted = Object.keys(rest).sort().map((name) => [name, rest[name]]);
+    return `${this.scope}:${route}:${JSON.stringify(sorted)}`;
+  }
+
+  get(key: string): CachedResponse | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  /** True when the entry may be served without asking GitHub. */
+  isFresh(entry: CachedResponse): boolean {
+    return Date.now() - entry.storedAt < this.ttlMs;
+  }
+
+  /**
+   * Store a response. Responses without an ETag are only kept when a TTL is
+   * configured, since they cannot be revalidated.
+   */
+  set(key: string, entry: Omit<CachedResponse, "issues">, issue?: string): void {
+    if (entry.etag === null && this.ttlMs === 0) {
+      return;
+    }
+
+    const issues = new Set(issue ? [issue] : []);
+    for (const item of Array.isArray(entry.data) ? entry.data : [entry.data]) {
+      const seen = this.learn(item);
+      if (seen && !Array.isArray(entry.data)) {
+        issues.add(seen);
+      }
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, { ...entry, issues: [...issues] });
+    this.persist(key);
+
+    while (this.entries.size > this.maxEntries) {
+      this.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  /** Mark an entry as confirmed by GitHub just now (after a 304). */
+  touch(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      entry.storedAt = Date.now();
+      this.persist(key);
+    }
+  }
+
+  /** Drop every entry describing the given issue. */
+  invalidateIssue(owner: string, repo: string, issueNumber: number): void {
+    this.invalidateTag(issueTag(owner, repo, issueNumber));
+  }
+
+  /** Drop every entry describing the issue with this ID, if we have seen it. */
+  invalidateIssueId(issueId: number): void {
+    const tag = this.tagsById.get(issueId);
+    if (tag) {
+      this.invalidateTag(tag);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private invalidateTag(tag: string): void {
+    for (const [key, entry] of [...this.entries]) {
+      if (entry.issues.includes(tag)) {
+        this.delete(key);
+      }
+    }
+  }
+
+  /** Remember the issue an item describes; returns its tag. */
+  private learn(item: unknown): string | undefined {
+    const issue = item as { id?: unknown; html_url?: unknown } | null;
+    if (typeof issue?.id !== "number" || typeof issue.html_url !== "string") {
+      return undefined;
+    }
+    const location = parseIssueUrl(issue.html_url);
+    if (!location) {
+      return undefined;
+    }
+    const tag = issueTag(location.owner, location.repo, location.issueNumber);
+    this.tagsById.set(issue.id, tag);
+    return tag;
+  }
+
+  private delete(key: string): void {
+    this.entries.delete(key);
+    if (this.directory) {
+      try {
+        rmSync(this.fileFor(key), { force: true });
+      } catch {
+        // Ignore; a leftover file is revalidated by ETag when loaded
+      }
+    }
+  }
+
+  private fileFor(key: string): string {
+    return join(this.directory!, `${createHash("sha256").update(key).digest("hex")}.json`);
+  }
+
+  // The on-disk copy is best effort: unreadable or unwritable files are skipped
+
+  private persist(key: string): void {
+    if (!this.directory) {
+      return;
+    }
+    try {
+      writeFileSync(this.fileFor(key), JSON.stringify({ key, entry: this.entries.get(key) }));
+    } catch {
+      // Ignore; the in-memory entry still works
+    }
+  }
+
+  private load(directory: string): void {
+    const loaded: Array<{ key: string; entry: CachedResponse }> = [];
+    for (const file of readdirSync(directory)) {
+      if (!file.endsWith(".json")) {
+        continue;
+      }
+      try {
+        const stored = JSON.parse(readFileSync(join(directory, file), "utf8"));
+        if (typeof stored?.key === "string" && stored.key.startsWith(`${this.scope}:`) && stored.entry) {
+          loaded.push(stored);
+        }
+      } catch {
+        // Skip corrupt files
+      }
+    }
+
+    loaded.sort((a, b) => a.entry.storedAt - b.entry.storedAt);
+    for (const { key, entry } of loaded.slice(-this.maxEntries)) {
+      this.entries.set(key, entry);
+      for (const item of Array.isArray(entry.data) ? entry.data : [entry.data]) {
+        this.learn(item);
+      }
+    }
+  }
+}
@@ -2,24 +2,551 @@
  * GitHub API client for Issue Relationships (Dependencies and Sub-Issues).
  */
 
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
 import { Octokit } from "@octokit/rest";
+import type { Endpoints, OctokitResponse, RequestParameters } from "@octokit/types";
+import { GitHubAppAuth } from "./app-auth.js";
+import { DEFAULT_CACHE_MAX_ENTRIES, ResponseCache, issueTag } from "./cache.js";
+import { GitHubApiError, RequestCancelledError, formatErrorMessage, toGitHubApiError } from "./errors.js";
+import { parseIssueUrl } from "./issue-ref.js";
+import {
+  inverseOf,
+  type ChangeJournal,
+  type JournalEntry,
+  type JournalWrite,
+  type PreviousParent,
+  type SubIssuePosition,
+} from "./journal.js";
+import { PolicyDeniedError, type RepositoryPolicy } from "./policy.js";
+import { RequestScheduler } from "./scheduler.js";
 import type {
   IssueReference,
+  IssueDetail,
+  PaginatedResult,
+  BatchOutcome,
+  RateLimitStatus,
   AddDependencyResult,
   RemoveDependencyResult,
   AddSubIssueParams,
+  IssueIdentifier,
   ReprioritizeSubIssueParams,
+  RepositoryReference,
 } from "./types.js";
 
+/** Largest page size accepted by GitHub's list endpoints. */
+const PER_PAGE = 100;
+
+/** Default upper bound on items collected from a paginated list endpoint. */
+export const DEFAULT_MAX_LIST_ITEMS = 1000;
+
+/** Default number of batch items processed at once. */
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+export interface GitHubClientOptions {
+  /** Stop following pagination once this many items have been collected. */
+  maxListItems?: number;
+  /** Maximum number of batch items in flight at once. */
+  batchConcurrency?: number;
+  /** Retries after a rate-limited or transient failure. */
+  maxRetries?: number;
+  /** Maximum number of requests in flight at once. */
+  maxConcurrentRequests?: number;
+  /** Serve cached responses without revalidating for this many seconds (default 0). */
+  cacheTtlSeconds?: number;
+  /** Responses kept by the conditional-request cache; 0 disables it. */
+  cacheMaxEntries?: number;
+  /** Also persist cached responses in this directory. */
+  cacheDir?: string;
+  /** Repositories requests may read from and write to. */
+  repositoryPolicy?: RepositoryPolicy;
+  /** Record every change made, so it can be undone. */
+  journal?: ChangeJournal;
+}
+
 export class GitHubClient {
   private octokit: Octokit;
+  private maxListItems: number;
+  private batchConcurrency: number;
+  private scheduler: RequestScheduler;
+  private cache: ResponseCache | null;
+  private policy: RepositoryPolicy | null;
+  private journal: ChangeJournal | null;
+  /** True when authenticated as a GitHub App, which has no user to list repositories for. */
+  private readonly isApp: boolean;
+  /**
+   * Fingerprint of the credentials, separating their cache and journal
+   * entries and identifying them in the audit log.
+   */
+  readonly scope: string;
+  /** Where the current call chain collects request IDs, see collectRequestIds. */
+  private readonly requestIds = new AsyncLocalStorage<string[]>();
+  /** Cancellation of the current call chain, see withSignal. */
+  private readonly signals = new AsyncLocalStorage<AbortSignal>();
 
-  constructor(token: string, baseUrl?: string) {
+  /**
+   * @param auth - A personal access or OAuth token, or GitHub App credentials
+   *   that supply an installation token for each request's repository owner
+   */
+  constructor(auth: string | GitHubAppAuth, baseUrl?: string, options: GitHubClientOptions = {}) {
     this.octokit = new Octokit({
-      auth: token,
+      ...(typeof auth === "string" && { auth }),
       userAgent: "github-issues-mcp/1.0.0",
       ...(baseUrl && { baseUrl }),
     });
+    if (auth instanceof GitHubAppAuth) {
+      this.octokit.hook.before("request", async (options) => {
+        const owner = typeof options.owner === "string" ? options.owner : undefined;
+        options.headers.authorization = `token ${await auth.tokenFor(owner)}`;
+      });
+    }
+    this.maxListItems = options.maxListItems ?? DEFAULT_MAX_LIST_ITEMS;
+    this.batchConcurrency = options.batchConcurrency ?? DEFAULT_BATCH_CONCURRENCY;
+    this.scheduler = new RequestScheduler({
+      maxRetries: options.maxRetries,
+      maxConcurrent: options.maxConcurrentRequests,
+    });
+    this.scope = createHash("sha256")
+      .update(typeof auth === "string" ? auth : auth.scope)
+      .digest("hex")
+      .slice(0, 16);
+    const cacheMaxEntries = options.cacheMaxEntries ?? DEFAULT_CACHE_MAX_ENTRIES;
+    this.cache = cacheMaxEntries > 0
+      ? new ResponseCache({
+          ttlSeconds: options.cacheTtlSeconds,
+          maxEntries: cacheMaxEntries,
+          directory: options.cacheDir,
+          scope: this.scope,
+        })
+      : null;
+    this.policy = options.repositoryPolicy ?? null;
+    this.journal = options.journal ?? null;
+    this.isApp = auth instanceof GitHubAppAuth;
+  }
+
+  /**
+   * Octokit's request, run through the scheduler and converting failures into
+   * GitHubApiError. All API calls go through it, so the repository policy is
+   * checked here; repository GETs also go through the cache.
+   */
+  private request<R extends keyof Endpoints>(
+    route: R,
+    params?: Endpoints[R]["parameters"] & RequestParameters
+  ): Promise<Endpoints[R]["response"]>;
+  private request(route: string, params?: RequestParameters): Promise<OctokitResponse<unknown>>;
+  private async request(route: string, params: Record<string, unknown> = {}): Promise<OctokitResponse<unknown>> {
+    this.policy?.check(route, params);
+    return this.cache && route.startsWith("GET /repos/")
+      ? this.cachedRequest(this.cache, route, params)
+      : this.send(route, params);
+  }
+
+  private send(route: string, params: Record<string, unknown>) {
+    // Read before scheduling: queued requests run in another request's context
+    const requestIds = this.requestIds.getStore();
+    const signal = this.signals.getStore();
+    if (signal?.aborted) {
+      return Promise.reject(new RequestCancelledError());
+    }
+    return this.scheduler.run(route.split(" ")[0], () => {
+      // Cancelled between taking a slot and starting
+      if (signal?.aborted) {
+        return Promise.reject(new RequestCancelledError());
+      }
+      const options = signal ? { ...params, request: { ...(params.request as object), signal } } : params;
+      return this.octokit.request(route, options).then(
+        (response) => {
+          const requestId = response.headers?.["x-github-request-id"];
+          if (requestIds && requestId) {
+            requestIds.push(String(requestId));
+          }
+          return response;
+        },
+        (error: unknown) => {
+          // Octokit reports an aborted fetch as a server error, which would be retried
+          if (signal?.aborted) {
+            throw new RequestCancelledError({ cause: error });
+          }
+          const apiError = toGitHubApiError(error, { route, params });
+          if (requestIds && apiError instanceof GitHubApiError && apiError.requestId) {
+            requestIds.push(apiError.requestId);
+          }
+          throw apiError;
+        }
+      );
+    }, signal);
+  }
+
+  /**
+   * Run `task`, adding the GitHub request ID of every response it receives,
+   * including failed ones, to `requestIds`. Responses served from the cache
+   * without a request add none.
+   */
+  collectRequestIds<T>(requestIds: string[], task: () => Promise<T>): Promise<T> {
+    return this.requestIds.run(requestIds, task);
+  }
+
+  /**
+   * Run `task`, aborting its requests in flight when `signal` is aborted and
+   * rejecting every later one with RequestCancelledError, so a cancelled call
+   * stops using the API. Responses served fresh from the cache are unaffected.
+   */
+  withSignal<T>(signal: AbortSignal, task: () => Promise<T>): Promise<T> {
+    return this.signals.run(signal, task);
+  }
+
+  // ==================== Caching ====================
+
+  /**
+   * Serve a GET from the cache while fresh, otherwise revalidate it with
+   * If-None-Match and reuse the cached body on 304 Not Modified.
+   */
+  private async cachedRequest(cache: ResponseCache, route: string, params: Record<string, unknown>) {
+    const key = cache.key(route, params);
+    const cached = cache.get(key);
+    const cachedResponse = () => ({
+      status: 200,
+      url: "",
+      headers: { etag: cached!.etag ?? undefined, link: cached!.link ?? undefined },
+      data: cached!.data,
+    });
+
+    if (cached && cache.isFresh(cached)) {
+      return cachedResponse();
+    }
+
+    try {
+      const response = await this.send(
+        route,
+        cached?.etag
+          ? { ...params, headers: { ...(params.headers as object), "if-none-match": cached.etag } }
+          : params
+      );
+      cache.set(
+        key,
+        {
+          etag: response.headers?.etag ?? null,
+          link: response.headers?.link ?? null,
+          data: response.data,
+          storedAt: Date.now(),
+        },
+        typeof params.issue_number === "number"
+          ? issueTag(String(params.owner), String(params.repo), params.issue_number)
+          : undefined
+      );
+      return response;
+    } catch (error) {
+      if (cached && error instanceof GitHubApiError && error.status === 304) {
+        cache.touch(key);
+        return cachedResponse();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Drop cached responses about issues a write just changed.
+   */
+  private invalidate(owner: string, repo: string, issueNumber: number, relatedIssueId: number): void {
+    this.cache?.invalidateIssue(owner, repo, issueNumber);
+    this.cache?.invalidateIssueId(relatedIssueId);
+  }
+
+  // ==================== Repository Policy ====================
+
+  /**
+   * Check that the repository policy allows a relationship write: to owner/repo,
+   * whose issue the write is made on, and to the other issue, which GitHub
+   * identifies only by its global ID. Its repository is `location` when the
+   * caller knows it, otherwise it is looked up among `related`, the issues the
+   * relationship is listed with. Returns the location found; without a
+   * policy, nothing is looked up.
+   */
+  private async checkRelatedIssue(
+    owner: string,
+    repo: string,
+    issueId: number,
+    location: IssueIdentifier | undefined,
+    related?: () => Promise<PaginatedResult<IssueReference>>
+  ): Promise<IssueIdentifier | undefined> {
+    if (!this.policy) {
+      return location;
+    }
+    this.policy.require("write", owner, repo);
+    if (!location && related) {
+      const issue = (await related()).items.find((item) => item.id === issueId);
+      location = (issue && parseIssueUrl(issue.html_url)) ?? undefined;
+    }
+    if (!location) {
+      throw new PolicyDeniedError(
+        "write",
+        `issue ID ${issueId}`,
+        `Policy denied: the repository of issue ID ${issueId} is unknown, so the change cannot be checked ` +
+          `against the repository policy. Refer to the issue as "owner/repo#123" or by its URL instead.`
+      );
+    }
+    this.policy.require("write", location.owner, location.repo);
+    return location;
+  }
+
+  /**
+   * Check moving a sub-issue away from its current parent against the
+   * repository policy, since the move changes that parent too. The parent is
+   * null if there is none, undefined if it could not be read.
+   */
+  checkSubIssueMove(subIssueId: number, currentParent: IssueIdentifier | null | undefined): void {
+    if (!this.policy) {
+      return;
+    }
+    if (currentParent === undefined) {
+      throw new PolicyDeniedError(
+        "write",
+        `the current parent of issue ID ${subIssueId}`,
+        `Policy denied: the current parent of issue ID ${subIssueId} could not be read, ` +
+          `so replacing it cannot be checked against the repository policy.`
+      );
+    }
+    if (currentParent) {
+      this.policy.require("write", currentParent.owner, currentParent.repo);
+    }
+  }
+
+  /**
+   * Check a relationship write between owner/repo and issue `issueId`
+   * against the repository policy without making it, so dry runs report the
+   * denials the write would. `related` are the issues to look for the
+   * issue's repository among when `location` is unknown.
+   */
+  async checkRelationshipWrite(
+    owner: string,
+    repo: string,
+    issueId: number,
+    location: IssueIdentifier | undefined,
+    related: IssueReference[] = []
+  ): Promise<void> {
+    await this.checkRelatedIssue(owner, repo, issueId, location, async () => ({ items: related, truncated: false }));
+  }
+
+  // ==================== Pagination ====================
+
+  /**
+   * Collect every page of a list endpoint, following the Link header until
+   * GitHub reports no next page or maxListItems is reached.
+   */
+  private async paginate<T>(
+    route: string,
+    params: Record<string, unknown>
+  ): Promise<PaginatedResult<T>> {
+    const items: T[] = [];
+
+    for (let page = 1; ; page++) {
+      const response = await this.request(route, {
+        ...params,
+        per_page: PER_PAGE,
+        page,
+        headers: {
+          "X-GitHub-Api-Version": "2022-11-28",
+        },
+      });
+      const pageItems = response.data as T[];
+      const hasNextPage = /rel="next"/.test(response.headers?.link ?? "");
+
+      items.push(...pageItems);
+
+      if (items.length >= this.maxListItems) {
+        return {
+          items: items.slice(0, this.maxListItems),
+          truncated: hasNextPage || items.length > this.maxListItems,
+        };
+      }
+
+      if (!hasNextPage || pageItems.length === 0) {
+        return { items, truncated: false };
+      }
+    }
+  }
+
+  // ==================== Batches ====================
+
+  /**
+   * Run `task` for every item with at most batchConcurrency tasks in flight.
+   * A failing item does not stop the others; outcomes are returned in input
+   * order. Pass `concurrency` to lower the limit for order-sensitive batches.
+   */
+  async runBatch<T, R>(
+    items: T[],
+    task: (item: T) => Promise<R>,
+    concurrency = this.batchConcurrency
+  ): Promise<BatchOutcome<R>[]> {
+    const outcomes: BatchOutcome<R>[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < items.length) {
+        const index = next++;
+        try {
+          outcomes[index] = { ok: true, value: await task(items[index]) };
+        } catch (error) {
+          outcomes[index] = {
+            ok: false,
+            error: formatErrorMessage(error),
+          };
+        }
+      }
+    };
+
+    const workers = Math.max(1, Math.min(concurrency, this.batchConcurrency, items.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+    return outcomes;
+  }
+
+  // ==================== Rate Limits ====================
+
+  /**
+   * Get the token's remaining quota for each rate-limit resource.
+   * GET /rate_limit (does not count against the quota)
+   */
+  async getRateLimit(): Promise<RateLimitStatus[]> {
+    const response = await this.request("GET /rate_limit", {
+      headers: {
+        "X-GitHub-Api-Version": "2022-11-28",
+      },
+    });
+
+    return Object.entries(response.data.resources)
+      .filter((entry): entry is [string, NonNullable<(typeof entry)[1]>] => entry[1] !== undefined)
+      .map(([resource, quota]) => ({
+        resource,
+        limit: quota.limit,
+        remaining: quota.remaining,
+        used: quota.used,
+        reset_at: new Date(quota.reset * 1000).toISOString(),
+      }));
+  }
+
+  // ==================== Search ====================
+
+  /**
+   * The 100 most recently updated repositories the credentials can access,
+   * within the repository policy.
+   * GET /user/repos, or GET /installation/repositories for a GitHub App
+   */
+  async listRepositories(): Promise<RepositoryReference[]> {
+    const repositories = this.isApp
+      ? (await this.request("GET /installation/repositories", { per_page: PER_PAGE })).data.repositories
+      : (await this.request("GET /user/repos", { sort: "updated", per_page: PER_PAGE })).data;
+    return this.allowedRepositories(repositories);
+  }
+
+  /**
+   * The 100 most recently updated public repositories of a user or
+   * organization, within the repository policy.
+   * GET /users/{username}/repos
+   */
+  async listOwnerRepositories(owner: string): Promise<RepositoryReference[]> {
+    const response = await this.request("GET /users/{username}/repos", {
+      username: owner,
+      sort: "updated",
+      per_page: PER_PAGE,
+    });
+    return this.allowedRepositories(response.data);
+  }
+
+  /**
+   * Up to 100 issues of a repository, most recently updated first; with
+   * `text`, only those with it in their title. Pull requests are excluded.
+   * GET /search/issues
+   */
+  async searchIssues(owner: string, repo: string, text = ""): Promise<IssueReference[]> {
+    // The search route names no repository, so the policy is checked here
+    this.policy?.require("read", owner, repo);
+    // Quoted so the text cannot add qualifiers such as another repo:
+    const title = text.replace(/"/g, "").trim();
+    const query = [`repo:${owner}/${repo}`, "is:issue", ...(title ? [`"${title}" in:title`] : [])].join(" ");
+    const response = await this.request("GET /search/issues", {
+      q: query,
+      sort: "updated",
+      per_page: PER_PAGE,
+    });
+    const repositoryUrl = `/repos/${owner}/${repo}`.toLowerCase();
+    return response.data.items
+      .filter((issue) => issue.repository_url.toLowerCase().endsWith(repositoryUrl))
+      .map((issue) => ({
+        id: issue.id,
+        number: issue.number,
+        title: issue.title,
+        state: issue.state as IssueReference["state"],
+        html_url: issue.html_url,
+        user: issue.user ? { login: issue.user.login } : null,
+        created_at: issue.created_at,
+        updated_at: issue.updated_at,
+      }));
+  }
+
+  private allowedRepositories(repositories: Array<{ name: string; owner: { login: string } }>): RepositoryReference[] {
+    return repositories
+      .map((repository) => ({ owner: repository.owner.login, name: repository.name }))
+      .filter(({ owner, name }) => !this.policy || this.policy.allows("read", owner, name));
+  }
+
+  // ==================== Issues ====================
+
+  /**
+   * Get a single issue by number, including labels, assignees, milestone
+   * and sub-issue progress.
+   * GET /repos/{owner}/{repo}/issues/{issue_number}
+   */
+  async getIssue(
+    owner: string,
+    repo: string,
+    issueNumber: number
+  ): Promise<IssueDetail> {
+    const response = await this.request(
+      "GET /repos/{owner}/{repo}/issues/{issue_number}",
+      {
+        owner,
+        repo,
+        issue_number: issueNumber,
+        headers: {
+          "X-GitHub-Api-Version": "2022-11-28",
+        },
+      }
+    );
+    const issue = response.data;
+
+    return {
+      id: issue.id,
+      number: issue.number,
+      title: issue.title,
+      state: issue.state as IssueDetail["state"],
+      html_url: issue.html_url,
+      user: issue.user ? { login: issue.user.login } : null,
+      created_at: issue.created_at,
+      updated_at: issue.updated_at,
+      body: issue.body ?? null,
+      labels: (issue.labels ?? []).map((label) =>
+        typeof label === "string"
+          ? { name: label, color: null, description: null }
+          : {
+              name: label.name ?? "",
+              color: label.color ?? null,
+              description: label.description ?? null,
+            }
+      ),
+      assignees: (issue.assignees ?? []).map((assignee) => ({ login: assignee.login })),
+      milestone: issue.milestone
+        ? {
+            number: issue.milestone.number,
+            title: issue.milestone.title,
+            state: issue.milestone.state,
+            due_on: issue.milestone.due_on,
+            html_url: issue.milestone.html_url,
+          }
+        : null,
+      closed_at: issue.closed_at ?? null,
+      state_reason: issue.state_reason ?? null,
+      sub_issues_summary: issue.sub_issues_summary ?? null,
+    };
   }
 
   // ==================== Issue Dependencies ====================
@@ -32,19 +559,15 @@ export class GitHubClient {
     owner: string,
     repo: string,
     issueNumber: number
-  ): Promise<IssueReference[]> {
-    const response = await this.octokit.request(
+  ): Promise<PaginatedResult<IssueReference>> {
+    return this.paginate<IssueReference>(
       "GET /repos/{owner}/{repo}/issues/{issue_number}/dependencies/blocked_by",
       {
         owner,
         repo,
         issue_number: issueNumber,
-        headers: {
-          "X-GitHub-Api-Version": "2022-11-28",
-        },
       }
     );
-    return response.data as IssueReference[];
   }
 
   /**
@@ -55,32 +578,31 @@ export class GitHubClient {
     owner: string,
     repo: string,
     issueNumber: number
-  ): Promise<IssueReference[]> {
-    const response = await this.octokit.request(
+  ): Promise<PaginatedResult<IssueReference>> {
+    return this.paginate<IssueReference>(
       "GET /repos/{owner}/{repo}/issues/{issue_number}/dependencies/blocking",
       {
         owner,
         repo,
         issue_number: issueNumber,
-        headers: {
-          "X-GitHub-Api-Version": "2022-11-28",
-        },
       }
     );
-    return response.data as IssueReference[];
   }
 
   /**
-   * Add a blocking dependency to an issue.
+   * Add a blocking dependency to an issue. `blockingIssue` is where the
+   * blocking issue lives, if known; with a repository policy it is required.
    * POST /repos/{owner}/{repo}/issues/{issue_number}/dependencies/blocked_by
    */
   async addBlockingDependency(
     owner: string,
     repo: string,
     issueNumber: number,
-    blockingIssueId: number
+    blockingIssueId: number,
+    blockingIssue?: IssueIdentifier
   ): Promise<AddDependencyResult> {
-    await this.octokit.request(
+    await this.checkRelatedIssue(owner, repo, blockingIssueId, blockingIssue);
+    await this.request(
       "POST /repos/{owner}/{repo}/issues/{issue_number}/dependencies/blocked_by",
       {
         owner,
@@ -92,6 +614,15 @@ export class GitHubClient {
         },
       }
     );
+    this.invalidate(owner, repo, issueNumber, blockingIssueId);
+    this.journal?.record(this.scope, {
+      kind: "add_blocking_dependency",
+      owner,
+      repo,
+      issueNumber,
+      blockingIssueId,
+      ...(blockingIssue && { blockingIssue }),
+    });
     return {
       success: true,
       message: `Issue #${issueNumber} is now blocked by issue ID ${blockingIssueId}`,
@@ -108,7 +639,10 @@ export class GitHubClient {
     issueNumber: number,
     blockingIssueId: number
   ): Promise<RemoveDependencyResult> {
-    await this.octokit.request(
+    const blockingIssue = await this.checkRelatedIssue(owner, repo, blockingIssueId, undefined, () =>
+      this.getBlockedBy(owner, repo, issueNumber)
+    );
+    await this.request(
       "DELETE /repos/{owner}/{repo}/issues/{issue_number}/dependencies/blocked_by/{issue_id}",
       {
         owner,
@@ -120,6 +654,15 @@ export class GitHubClient {
         },
       }
     );
+    this.invalidate(owner, repo, issueNumber, blockingIssueId);
+    this.journal?.record(this.scope, {
+      kind: "remove_blocking_dependency",
+      owner,
+      repo,
+      issueNumber,
+      blockingIssueId,
+      ...(blockingIssue && { blockingIssue }),
+    });
     return {
       success: true,
       message: `Removed blocking dependency: issue ID ${blockingIssueId} no longer blocks #${issueNumber}`,
@@ -138,7 +681,7 @@ export class GitHubClient {
     issueNumber: number
   ): Promise<IssueReference | null> {
     try {
-      const response = await this.octokit.request(
+      const response = await this.request(
         "GET /repos/{owner}/{repo}/issues/{issue_number}/parent",
         {
           owner,
@@ -164,26 +707,22 @@ export class GitHubClient {
   }
 
   /**
-   * List all sub-issues of a parent issue.
+   * List all sub-issues of a parent issue, in priority order.
    * GET /repos/{owner}/{repo}/issues/{issue_number}/sub_issues
    */
   async listSubIssues(
     owner: string,
     repo: string,
     issueNumber: number
-  ): Promise<IssueReference[]> {
-    const response = await this.octokit.request(
+  ): Promise<PaginatedResult<IssueReference>> {
+    return this.paginate<IssueReference>(
       "GET /repos/{owner}/{repo}/issues/{issue_number}/sub_issues",
       {
         owner,
         repo,
         issue_number: issueNumber,
-        headers: {
-          "X-GitHub-Api-Version": "2022-11-28",
-        },
       }
     );
-    return response.data as IssueReference[];
   }
 
   /**
@@ -191,7 +730,16 @@ export class GitHubClient {
    * POST /repos/{owner}/{repo}/issues/{issue_number}/sub_issues
    */
   async addSubIssue(params: AddSubIssueParams): Promise<AddDependencyResult> {
-    await this.octokit.request(
+    const subIssue = await this.checkRelatedIssue(params.owner, params.repo, params.subIssueId, params.subIssue);
+    // Without replace_parent, GitHub refuses issues that already have a parent
+    const previousParent = (this.journal || this.policy || this.cache) && params.replaceParent
+      ? await this.findPreviousParent(subIssue, params.subIssueId)
+      : null;
+    if (params.replaceParent) {
+      this.checkSubIssueMove(params.subIssueId, previousParent);
+    }
+
+    await this.request(
       "POST /repos/{owner}/{repo}/issues/{issue_number}/sub_issues",
       {
         owner: params.owner,
@@ -204,6 +752,20 @@ export class GitHubClient {
         },
       }
     );
+    this.invalidate(params.owner, params.repo, params.parentIssueNumber, params.subIssueId);
+    // The old parent no longer lists it
+    if (previousParent) {
+      this.cache?.invalidateIssue(previousParent.owner, previousParent.repo, previousParent.issueNumber);
+    }
+    this.journal?.record(this.scope, {
+      kind: "add_sub_issue",
+      owner: params.owner,
+      repo: params.repo,
+      parentIssueNumber: params.parentIssueNumber,
+      subIssueId: params.subIssueId,
+      ...(subIssue && { subIssue }),
+      ...(previousParent !== undefined && { previousParent }),
+    });
     return {
       success: true,
       message: `Issue ID ${params.subIssueId} is now a sub-issue of #${params.parentIssueNumber}`,
@@ -220,7 +782,14 @@ export class GitHubClient {
     parentIssueNumber: number,
     subIssueId: number
   ): Promise<RemoveDependencyResult> {
-    await this.octokit.request(
+    const subIssue = await this.checkRelatedIssue(owner, repo, subIssueId, undefined, () =>
+      this.listSubIssues(owner, repo, parentIssueNumber)
+    );
+    const position = this.journal
+      ? await this.findSubIssuePosition(owner, repo, parentIssueNumber, subIssueId)
+      : undefined;
+
+    await this.request(
       "DELETE /repos/{owner}/{repo}/issues/{issue_number}/sub_issue",
       {
         owner,
@@ -232,6 +801,16 @@ export class GitHubClient {
         },
       }
     );
+    this.invalidate(owner, repo, parentIssueNumber, subIssueId);
+    this.journal?.record(this.scope, {
+      kind: "remove_sub_issue",
+      owner,
+      repo,
+      parentIssueNumber,
+      subIssueId,
+      ...(subIssue && { subIssue }),
+      ...(position && { position }),
+    });
     return {
       success: true,
       message: `Issue ID ${subIssueId} is no longer a sub-issue of #${parentIssueNumber}`,
@@ -245,7 +824,14 @@ export class GitHubClient {
   async reprioritizeSubIssue(
     params: ReprioritizeSubIssueParams
   ): Promise<{ success: boolean; message: string }> {
-    await this.octokit.request(
+    await this.checkRelatedIssue(params.owner, params.repo, params.subIssueId, undefined, () =>
+      this.listSubIssues(params.owner, params.repo, params.parentIssueNumber)
+    );
+    const previousPosition = this.journal
+      ? await this.findSubIssuePosition(params.owner, params.repo, params.parentIssueNumber, params.subIssueId)
+      : undefined;
+
+    await this.request(
       "PATCH /repos/{owner}/{repo}/issues/{issue_number}/sub_issues/priority",
       {
         owner: params.owner,
@@ -260,6 +846,16 @@ export class GitHubClient {
       }
     );
 
+    this.invalidate(params.owner, params.repo, params.parentIssueNumber, params.subIssueId);
+    this.journal?.record(this.scope, {
+      kind: "reprioritize_sub_issue",
+      owner: params.owner,
+      repo: params.repo,
+      parentIssueNumber: params.parentIssueNumber,
+      subIssueId: params.subIssueId,
+      ...(previousPosition && { position: previousPosition }),
+    });
+
     const position = params.afterId
       ? `after issue ID ${params.afterId}`
       : `before issue ID ${params.beforeId}`;
@@ -269,4 +865,167 @@ export class GitHubClient {
       message: `Sub-issue ID ${params.subIssueId} moved ${position}`,
     };
   }
+
+  // ==================== Journal ====================
+
+  /**
+   * Where a sub-issue currently sits among its siblings, or undefined if
+   * that cannot be read. Only used for the journal, so failures are ignored.
+   */
+  private async findSubIssuePosition(
+    owner: string,
+    repo: string,
+    parentIssueNumber: number,
+    subIssueId: number
+  ): Promise<SubIssuePosition | undefined> {
+    try {
+      const { items } = await this.listSubIssues(owner, repo, parentIssueNumber);
+      const index = items.findIndex((item) => item.id === subIssueId);
+      if (index < 0) {
+        return undefined;
+      }
+      if (index > 0) {
+        return { afterId: items[index - 1].id };
+      }
+      return items.length > 1 ? { beforeId: items[1].id } : {};
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * The parent a sub-issue is about to be moved away from: null if it has
+   * none, undefined if its location is unknown or cannot be read.
+   */
+  private async findPreviousParent(
+    subIssue: IssueIdentifier | undefined,
+    subIssueId: number
+  ): Promise<PreviousParent | null | undefined> {
+    if (!subIssue) {
+      return undefined;
+    }
+    try {
+      const parent = await this.getParentIssue(subIssue.owner, subIssue.repo, subIssue.issueNumber);
+      if (!parent) {
+        return null;
+      }
+      const location = parseIssueUrl(parent.html_url);
+      if (!location) {
+        return undefined;
+      }
+      const position = await this.findSubIssuePosition(
+        location.owner,
+        location.repo,
+        location.issueNumber,
+        subIssueId
+      );
+      return { ...location, ...(position && { position }) };
+    } catch {
+      return undefined;
+    }
+  }
+
+  private requireJournal(): ChangeJournal {
+    if (!this.journal) {
+      throw new Error("This client does not keep a change journal.");
+    }
+    return this.journal;
+  }
+
+  /**
+   * Changes made with this client's credentials, newest first.
+   */
+  recentChanges(limit?: number): JournalEntry[] {
+    return this.requireJournal().list(this.scope, limit);
+  }
+
+  /**
+   * The change that undid journaled change `id`, once all of its inverse
+   * writes have been made.
+   */
+  undoneBy(id: number): JournalEntry | undefined {
+    return this.requireJournal().undoneBy(id);
+  }
+
+  /**
+   * A journaled change and the writes that would undo it, without making them.
+   * If an earlier undo stopped part-way, `writes` are the ones it did not
+   * make and `completedWrites` counts the ones it did.
+   */
+  planUndo(id: number): { entry: JournalEntry; writes: JournalWrite[]; completedWrites: number } {
+    const journal = this.requireJournal();
+    const entry = journal.get(this.scope, id);
+    if (!entry) {
+      throw new Error(`Change ${id} is not in the journal (it may be too old, or made with other credentials).`);
+    }
+    const undoneBy = journal.undoneBy(id);
+    if (undoneBy) {
+      throw new Error(`Change ${id} was already undone by change ${undoneBy.id}.`);
+    }
+    // Each inverse write is journaled as one change, in order
+    const completedWrites = journal.undoProgress(id).length;
+    return { entry, writes: inverseOf(entry.change).slice(completedWrites), completedWrites };
+  }
+
+  /**
+   * Undo a journaled change by making its inverse writes, which are
+   * journaled as undoing it. Resumes an undo that stopped part-way, and
+   * refuses to run alongside another undo of the same change. Returns the
+   * message of each write made.
+   */
+  async undoChange(id: number): Promise<string[]> {
+    const { writes } = this.planUndo(id);
+    return this.requireJournal().runUndo(id, async () => {
+      const messages: string[] = [];
+      for (const write of writes) {
+        messages.push(await this.applyWrite(write));
+      }
+      return messages;
+    });
+  }
+
+  private async applyWrite(write: JournalWrite): Promise<string> {
+    switch (write.kind) {
+      case "add_blocking_dependency":
+        return (await this.addBlockingDependency(
+          write.owner,
+          write.repo,
+          write.issueNumber,
+          write.blockingIssueId,
+          write.blockingIssue
+        )).message;
+      case "remove_blocking_dependency":
+        return (await this.removeBlockingDependency(
+          write.owner,
+          write.repo,
+          write.issueNumber,
+          write.blockingIssueId
+        )).message;
+      case "add_sub_issue":
+        return (await this.addSubIssue({
+          owner: write.owner,
+          repo: write.repo,
+          parentIssueNumber: write.parentIssueNumber,
+          subIssueId: write.subIssueId,
+          replaceParent: write.replaceParent,
+          subIssue: write.subIssue,
+        })).message;
+      case "remove_sub_issue":
+        return (await this.removeSubIssue(
+          write.owner,
+          write.repo,
+          write.parentIssueNumber,
+          write.subIssueId
+        )).message;
+      case "reprioritize_sub_issue":
+        return (await this.reprioritizeSubIssue({
+          owner: write.owner,
+          repo: write.repo,
+          parentIssueNumber: write.parentIssueNumber,
+          subIssueId: write.subIssueId,
+          afterId: write.afterId,
+          beforeId: write.beforeId,
+        })).message;
+    }
+  }
 }
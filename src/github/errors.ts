@@ -0,0 +1,211 @@
+/**
+ * Classification of failed GitHub API requests.
+ *
+ * Octokit rejects with a RequestError carrying the HTTP status and response.
+ * GitHubClient converts those into GitHubApiError so callers get a stable
+ * kind, an actionable message and the request ID GitHub support asks for.
+ */
+
+export type GitHubErrorKind =
+  | "authentication"
+  | "permission"
+  | "not_found"
+  | "gone"
+  | "validation"
+  | "rate_limit"
+  | "secondary_rate_limit"
+  | "server"
+  | "unknown";
+
+/**
+ * The request that failed, used to make messages specific.
+ */
+export interface GitHubRequestContext {
+  route: string;
+  params?: Record<string, unknown>;
+}
+
+export class GitHubApiError extends Error {
+  constructor(
+    message: string,
+    readonly kind: GitHubErrorKind,
+    readonly status: number,
+    readonly requestId: string | null,
+    /** Seconds to wait before retrying, for rate-limit errors. */
+    readonly retryAfter: number | null = null,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = "GitHubApiError";
+  }
+}
+
+/**
+ * A request not made, or abandoned, because the MCP client cancelled the call
+ * it belonged to.
+ */
+export class RequestCancelledError extends Error {
+  constructor(options?: { cause?: unknown }) {
+    super("Cancelled: the client cancelled the request before it finished.", options);
+    this.name = "RequestCancelledError";
+  }
+}
+
+/** Shape of the Octokit RequestError fields we rely on. */
+interface RequestErrorLike {
+  status: number;
+  message?: string;
+  response?: {
+    headers?: Record<string, string | number | undefined>;
+    data?: unknown;
+  };
+}
+
+function isRequestErrorLike(error: unknown): error is RequestErrorLike {
+  return typeof error === "object" && error !== null && typeof (error as RequestErrorLike).status === "number";
+}
+
+function header(error: RequestErrorLike, name: string): string | undefined {
+  const value = error.response?.headers?.[name];
+  return value === undefined ? undefined : String(value);
+}
+
+/**
+ * GitHub's own explanation: the response message plus any field errors.
+ */
+function githubMessage(error: RequestErrorLike): string {
+  const data = error.response?.data as
+    | { message?: string; errors?: Array<string | { message?: string; code?: string; field?: string }> }
+    | undefined;
+  const details = (data?.errors ?? [])
+    .map((item) => (typeof item === "string" ? item : item.message ?? [item.field, item.code].filter(Boolean).join(" ")))
+    .filter((detail) => detail !== "");
+  const message = data?.message ?? error.message ?? "";
+  return [message, ...details].filter((part) => part !== "").join(": ");
+}
+
+function describeTarget(context: GitHubRequestContext | undefined): string {
+  const params = context?.params ?? {};
+  if (typeof params.owner !== "string" || typeof params.repo !== "string") {
+    return "the requested resource";
+  }
+  return typeof params.issue_number === "number"
+    ? `${params.owner}/${params.repo}#${params.issue_number}`
+    : `${params.owner}/${params.repo}`;
+}
+
+/**
+ * Seconds until the request may be retried: Retry-After when present,
+ * otherwise the primary rate-limit reset time.
+ */
+function retryAfterSeconds(error: RequestErrorLike): number | null {
+  const retryAfter = Number(header(error, "retry-after"));
+  if (Number.isFinite(retryAfter) && retryAfter > 0) {
+    return retryAfter;
+  }
+  const reset = Number(header(error, "x-ratelimit-reset"));
+  if (Number.isFinite(reset) && reset > 0) {
+    return Math.max(0, Math.ceil(reset - Date.now() / 1000));
+  }
+  return null;
+}
+
+function classify(error: RequestErrorLike, detail: string): GitHubErrorKind {
+  const { status } = error;
+  if (/secondary rate limit/i.test(detail) && (status === 403 || status === 429)) {
+    return "secondary_rate_limit";
+  }
+  if (status === 429 || (status === 403 && header(error, "x-ratelimit-remaining") === "0")) {
+    return "rate_limit";
+  }
+  switch (status) {
+    case 401:
+      return "authentication";
+    case 403:
+      return "permission";
+    case 404:
+      return "not_found";
+    case 410:
+      return "gone";
+    case 422:
+      return "validation";
+  }
+  return status >= 500 ? "server" : "unknown";
+}
+
+function describe(
+  kind: GitHubErrorKind,
+  status: number,
+  detail: string,
+  retryAfter: number | null,
+  context: GitHubRequestContext | undefined
+): string {
+  const target = describeTarget(context);
+  const reason = detail ? ` GitHub said: ${detail}.` : "";
+  const wait = retryAfter !== null ? ` Retry in ${retryAfter} second(s).` : "";
+  const isDelete = context?.route.startsWith("DELETE ") ?? false;
+
+  switch (kind) {
+    case "authentication":
+      return `Authentication failed (401): the GitHub token (GITHUB_TOKEN, or the session's ` +
+        `Authorization header over HTTP) is missing, invalid or expired. ` +
+        `Create a new token or run "gh auth token".`;
+    case "permission":
+      return `Permission denied (403): the token cannot perform this action on ${target}. ` +
+        `Make sure it has the "repo" scope (or Issues read/write for fine-grained tokens).${reason}`;
+    case "not_found":
+      return isDelete
+        ? `Not found (404): ${target} or the relationship being removed does not exist, ` +
+          `or the token cannot access the repository.`
+        : `Issue or repository not found (404): ${target} does not exist, or the token cannot access it. ` +
+          `Check the owner, repo and issue number.`;
+    case "gone":
+      return `Gone (410): ${target} was deleted or transferred, or issues are disabled for the repository.`;
+    case "validation":
+      return `Validation failed (422) for ${target}.${reason} ` +
+        `This usually means the relationship already exists, the issue already has a parent, ` +
+        `or an issue reference points at the wrong issue.`;
+    case "rate_limit":
+      return `Rate limit exceeded (${status}): the token has used its GitHub API quota.${wait}`;
+    case "secondary_rate_limit":
+      return `Secondary rate limit exceeded (${status}): GitHub is throttling rapid requests.${wait}`;
+    case "server":
+      return `GitHub server error (${status}).${reason} This is usually temporary; try again shortly.`;
+    default:
+      return `GitHub request failed (${status}).${reason}`;
+  }
+}
+
+/**
+ * Convert an Octokit request failure into a GitHubApiError. Errors without an
+ * HTTP status (network failures, bugs) are returned unchanged.
+ */
+export function toGitHubApiError(error: unknown, context?: GitHubRequestContext): unknown {
+  if (error instanceof GitHubApiError || !isRequestErrorLike(error)) {
+    return error;
+  }
+
+  const detail = githubMessage(error);
+  const kind = classify(error, detail);
+  const retryAfter = kind === "rate_limit" || kind === "secondary_rate_limit" ? retryAfterSeconds(error) : null;
+  const requestId = header(error, "x-github-request-id") ?? null;
+
+  return new GitHubApiError(
+    describe(kind, error.status, detail, retryAfter, context),
+    kind,
+    error.status,
+    requestId,
+    retryAfter,
+    { cause: error }
+  );
+}
+
+/**
+ * Message for a failed tool call, with the GitHub request ID when known.
+ */
+export function formatErrorMessage(error: unknown): string {
+  if (error instanceof GitHubApiError) {
+    return error.requestId ? `${error.message} (GitHub request ID: ${error.requestId})` : error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,80 @@
+/**
+ * Parsing of the issue reference forms accepted by write tools.
+ *
+ * GitHub's relationship endpoints need an issue ID, but callers usually know
+ * an issue by its number or URL. A reference can be any of:
+ *   - a number or digit string: an issue ID, passed through unchanged
+ *   - "#123": issue number 123 in the tool's owner/repo
+ *   - "owner/repo#123": issue number 123 in another repository
+ *   - "https://github.com/owner/repo/issues/123": an issue html_url
+ */
+
+import type { IssueIdentifier } from "./types.js";
+
+/**
+ * Raw value of a `*_id` tool parameter.
+ */
+export type IssueRefInput = number | string;
+
+/**
+ * A reference that is either already an ID or must be looked up by number.
+ */
+export type ParsedIssueRef =
+  | { kind: "id"; id: number }
+  | ({ kind: "number" } & IssueIdentifier);
+
+const ISSUE_URL_PATTERN = /^https?:\/\/[^/]+\/([^/\s]+)\/([^/\s]+)\/issues\/(\d+)(?:[/?#].*)?$/;
+const CROSS_REPO_PATTERN = /^([\w.-]+)\/([\w.-]+)#(\d+)$/;
+const LOCAL_NUMBER_PATTERN = /^#(\d+)$/;
+const ID_PATTERN = /^\d+$/;
+
+/**
+ * Extract owner, repo and issue number from an issue html_url.
+ * Returns null for URLs that don't point at an issue.
+ */
+export function parseIssueUrl(url: string): IssueIdentifier | null {
+  const match = ISSUE_URL_PATTERN.exec(url.trim());
+  if (!match) {
+    return null;
+  }
+  return { owner: match[1], repo: match[2], issueNumber: Number(match[3]) };
+}
+
+/**
+ * Parse an issue reference, resolving "#123" against the given repository.
+ * Throws if the value is not a recognised reference form.
+ */
+export function parseIssueRef(
+  input: IssueRefInput,
+  defaults: { owner: string; repo: string }
+): ParsedIssueRef {
+  if (typeof input === "number") {
+    return { kind: "id", id: input };
+  }
+
+  const value = input.trim();
+
+  if (ID_PATTERN.test(value)) {
+    return { kind: "id", id: Number(value) };
+  }
+
+  const local = LOCAL_NUMBER_PATTERN.exec(value);
+  if (local) {
+    return { kind: "number", owner: defaults.owner, repo: defaults.repo, issueNumber: Number(local[1]) };
+  }
+
+  const crossRepo = CROSS_REPO_PATTERN.exec(value);
+  if (crossRepo) {
+    return { kind: "number", owner: crossRepo[1], repo: crossRepo[2], issueNumber: Number(crossRepo[3]) };
+  }
+
+  const fromUrl = parseIssueUrl(value);
+  if (fromUrl) {
+    return { kind: "number", ...fromUrl };
+  }
+
+  throw new Error(
+    `Invalid issue reference "${input}". Use an issue ID (e.g. 123456789), ` +
+      `"#123", "owner/repo#123", or an issue URL.`
+  );
+}
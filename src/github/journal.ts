@@ -0,0 +1,486 @@
+/**
+ * Journal of the relationship changes made through GitHubClient, so they can
+ * be listed and undone.
+ *
+ * Every successful write is recorded together with the state it replaced:
+ * the parent and priority position a sub-issue had, or the position it was
+ * removed from. Entries are kept in memory and, when a file is configured,
+ * appended to it as JSON lines so they survive restarts. Processes sharing
+ * the file take turns through a lock file and read each other's entries, so
+ * entry IDs stay unique across them. Undoing a change
+ * runs the inverse writes through the client, which journals them as well,
+ * marked as undoing the original entry. A change counts as undone once all
+ * of its inverse writes are journaled; an undo that stopped part-way resumes
+ * after the writes it made.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+  appendFileSync,
+  closeSync,
+  mkdirSync,
+  openSync,
+  readSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname } from "node:path";
+import type { IssueIdentifier } from "./types.js";
+
+/** Default number of entries kept. */
+export const DEFAULT_JOURNAL_MAX_ENTRIES = 1000;
+
+/** How long to wait for another process to release the journal file. */
+const LOCK_TIMEOUT_MS = 2000;
+
+/** A lock file older than this was left behind by a process that died. */
+const STALE_LOCK_MS = 10_000;
+
+/**
+ * Where a sub-issue sits among its siblings: right after one, or first and
+ * right before one. Neither is set for an only child.
+ */
+export interface SubIssuePosition {
+  afterId?: number;
+  beforeId?: number;
+}
+
+/** The parent a sub-issue had before it was moved. */
+export interface PreviousParent {
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  /** Absent if the position could not be read. */
+  position?: SubIssuePosition;
+}
+
+interface DependencyChange {
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  blockingIssueId: number;
+  /** Where the blocking issue lives, if known. */
+  blockingIssue?: IssueIdentifier;
+}
+
+interface SubIssueChange {
+  owner: string;
+  repo: string;
+  parentIssueNumber: number;
+  subIssueId: number;
+  /** Where the sub-issue lives, if known. */
+  subIssue?: IssueIdentifier;
+}
+
+export type JournalChange =
+  | ({ kind: "add_blocking_dependency" } & DependencyChange)
+  | ({ kind: "remove_blocking_dependency" } & DependencyChange)
+  | ({
+      kind: "add_sub_issue";
+      /** The parent it was moved from: null if it had none, absent if unknown. */
+      previousParent?: PreviousParent | null;
+    } & SubIssueChange)
+  | ({
+      kind: "remove_sub_issue";
+      /** Position it was removed from; absent if unknown. */
+      position?: SubIssuePosition;
+    } & SubIssueChange)
+  | ({
+      kind: "reprioritize_sub_issue";
+      /** Position before the move; absent if unknown. */
+      position?: SubIssuePosition;
+    } & SubIssueChange);
+
+/**
+ * A write that undoes part of a change, in the terms of the client method
+ * that makes it.
+ */
+export type JournalWrite =
+  | ({ kind: "add_blocking_dependency" } & DependencyChange)
+  | ({ kind: "remove_blocking_dependency" } & DependencyChange)
+  | ({ kind: "add_sub_issue"; replaceParent: boolean } & SubIssueChange)
+  | ({ kind: "remove_sub_issue" } & SubIssueChange)
+  | ({ kind: "reprioritize_sub_issue" } & SubIssuePosition & SubIssueChange);
+
+export interface JournalEntry {
+  id: number;
+  /** When the change was made, as an ISO 8601 timestamp. */
+  timestamp: string;
+  /** Fingerprint of the credentials that made the change. */
+  scope: string;
+  change: JournalChange;
+  /** Set on changes made while undoing that entry. */
+  undoOf?: number;
+}
+
+export interface ChangeJournalOptions {
+  /** Also append entries to this file, which several processes may share. */
+  file?: string;
+  maxEntries?: number;
+}
+
+/**
+ * One-line summary of a change, e.g. "Marked testowner/testrepo#5 as blocked by issue ID 100".
+ */
+export function describeChange(change: JournalChange): string {
+  const repo = `${change.owner}/${change.repo}`;
+  switch (change.kind) {
+    case "add_blocking_dependency":
+      return `Marked ${repo}#${change.issueNumber} as blocked by issue ID ${change.blockingIssueId}`;
+    case "remove_blocking_dependency":
+      return `Removed issue ID ${change.blockingIssueId} as a blocker of ${repo}#${change.issueNumber}`;
+    case "add_sub_issue": {
+      const from = change.previousParent
+        ? ` (moved from ${change.previousParent.owner}/${change.previousParent.repo}#${change.previousParent.issueNumber})`
+        : "";
+      return `Added issue ID ${change.subIssueId} as a sub-issue of ${repo}#${change.parentIssueNumber}${from}`;
+    }
+    case "remove_sub_issue":
+      return `Removed issue ID ${change.subIssueId} from the sub-issues of ${repo}#${change.parentIssueNumber}`;
+    case "reprioritize_sub_issue":
+      return `Moved sub-issue ID ${change.subIssueId} within ${repo}#${change.parentIssueNumber}`;
+  }
+}
+
+/**
+ * One-line summary of a write, e.g. "remove issue ID 100 as a blocker of testowner/testrepo#5".
+ */
+export function describeWrite(write: JournalWrite): string {
+  const repo = `${write.owner}/${write.repo}`;
+  switch (write.kind) {
+    case "add_blocking_dependency":
+      return `mark ${repo}#${write.issueNumber} as blocked by issue ID ${write.blockingIssueId}`;
+    case "remove_blocking_dependency":
+      return `remove issue ID ${write.blockingIssueId} as a blocker of ${repo}#${write.issueNumber}`;
+    case "add_sub_issue":
+      return `add issue ID ${write.subIssueId} as a sub-issue of ${repo}#${write.parentIssueNumber}`;
+    case "remove_sub_issue":
+      return `remove issue ID ${write.subIssueId} from the sub-issues of ${repo}#${write.parentIssueNumber}`;
+    case "reprioritize_sub_issue":
+      return `move sub-issue ID ${write.subIssueId} ` +
+        (write.afterId !== undefined ? `after issue ID ${write.afterId}` : `before issue ID ${write.beforeId}`) +
+        ` within ${repo}#${write.parentIssueNumber}`;
+  }
+}
+
+/** The write that puts a sub-issue back in a recorded position, if it had siblings. */
+function restorePosition(
+  target: SubIssueChange,
+  position: SubIssuePosition | undefined
+): JournalWrite[] {
+  if (position?.afterId !== undefined) {
+    return [{ kind: "reprioritize_sub_issue", ...target, afterId: position.afterId }];
+  }
+  if (position?.beforeId !== undefined) {
+    return [{ kind: "reprioritize_sub_issue", ...target, beforeId: position.beforeId }];
+  }
+  return [];
+}
+
+/**
+ * The writes that undo a change, in order. Sub-issues go back to their
+ * previous parent and position where those were recorded. Throws for moves
+ * whose previous parent or position was not recorded.
+ */
+export function inverseOf(change: JournalChange): JournalWrite[] {
+  const { owner, repo } = change;
+  switch (change.kind) {
+    case "add_blocking_dependency":
+      return [{ ...change, kind: "remove_blocking_dependency" }];
+    case "remove_blocking_dependency":
+      return [{ ...change, kind: "add_blocking_dependency" }];
+    case "add_sub_issue": {
+      const { previousParent, subIssueId, subIssue } = change;
+      // Removing it would lose its old parent for good, so do not guess
+      if (previousParent === undefined) {
+        throw new Error(
+          "The previous parent of this sub-issue was not recorded (it was referred to by bare issue ID), " +
+            "so the move cannot be undone."
+        );
+      }
+      if (!previousParent) {
+        return [{
+          kind: "remove_sub_issue",
+          owner,
+          repo,
+          parentIssueNumber: change.parentIssueNumber,
+          subIssueId,
+          ...(subIssue && { subIssue }),
+        }];
+      }
+      const target = {
+        owner: previousParent.owner,
+        repo: previousParent.repo,
+        parentIssueNumber: previousParent.issueNumber,
+        subIssueId,
+        ...(subIssue && { subIssue }),
+      };
+      return [{ kind: "add_sub_issue", ...target, replaceParent: true }, ...restorePosition(target, previousParent.position)];
+    }
+    case "remove_sub_issue": {
+      const target = {
+        owner,
+        repo,
+        parentIssueNumber: change.parentIssueNumber,
+        subIssueId: change.subIssueId,
+        ...(change.subIssue && { subIssue: change.subIssue }),
+      };
+      return [{ kind: "add_sub_issue", ...target, replaceParent: false }, ...restorePosition(target, change.position)];
+    }
+    case "reprioritize_sub_issue": {
+      if (!change.position) {
+        throw new Error("The previous position of this sub-issue was not recorded, so the move cannot be undone.");
+      }
+      const target = { owner, repo, parentIssueNumber: change.parentIssueNumber, subIssueId: change.subIssueId };
+      return restorePosition(target, change.position);
+    }
+  }
+}
+
+export class ChangeJournal {
+  private readonly file: string | undefined;
+  private readonly maxEntries: number;
+  /** Oldest first. */
+  private readonly entries: JournalEntry[] = [];
+  private nextId = 1;
+  /** Lines in the file, to know when to compact it. */
+  private fileLines = 0;
+  /** How far the file has been read, and which file that was, to pick up other processes' entries. */
+  private fileOffset = 0;
+  private fileInode: number | undefined;
+  /** ID of the entry being undone by the current async call chain. */
+  private readonly undoing = new AsyncLocalStorage<number>();
+  /** IDs of the entries being undone, so two undos of one entry cannot interleave. */
+  private readonly undosRunning = new Set<number>();
+
+  constructor(options: ChangeJournalOptions = {}) {
+    this.file = options.file;
+    this.maxEntries = options.maxEntries ?? DEFAULT_JOURNAL_MAX_ENTRIES;
+
+    this.sync();
+  }
+
+  /**
+   * Record a change that has been made.
+   */
+  record(scope: string, change: JournalChange): JournalEntry {
+    const undoOf = this.undoing.getStore();
+    const add = (): JournalEntry => {
+      const entry: JournalEntry = {
+        id: this.nextId++,
+        timestamp: new Date().toISOString(),
+        scope,
+        change,
+        ...(undoOf !== undefined && { undoOf }),
+      };
+      this.entries.push(entry);
+      this.trim();
+      return entry;
+    };
+    if (!this.file) {
+      return add();
+    }
+
+    let entry: JournalEntry | undefined;
+    try {
+      // Read the other processes' entries first, so the ID is not taken
+      this.withLock(this.file, (file) => {
+        this.read(file);
+        entry = add();
+        this.persist(file, entry);
+      });
+    } catch {
+      // Ignore; the entry is still kept in memory
+    }
+    return entry ?? add();
+  }
+
+  /**
+   * Changes made with the given credentials, newest first.
+   */
+  list(scope: string, limit = this.maxEntries): JournalEntry[] {
+    this.sync();
+    const result: JournalEntry[] = [];
+    for (let i = this.entries.length - 1; i >= 0 && result.length < limit; i--) {
+      if (this.entries[i].scope === scope) {
+        result.push(this.entries[i]);
+      }
+    }
+    return result;
+  }
+
+  /** A change made with the given credentials. */
+  get(scope: string, id: number): JournalEntry | undefined {
+    this.sync();
+    return this.entries.find((entry) => entry.id === id && entry.scope === scope);
+  }
+
+  /** Changes made while undoing entry `id`, oldest first. */
+  undoProgress(id: number): JournalEntry[] {
+    this.sync();
+    return this.entries.filter((entry) => entry.undoOf === id);
+  }
+
+  /**
+   * The first change made while undoing entry `id`, once every inverse write
+   * has been made; undefined while it is not (completely) undone.
+   */
+  undoneBy(id: number): JournalEntry | undefined {
+    const entry = this.entries.find((candidate) => candidate.id === id);
+    const progress = this.undoProgress(id);
+    if (!entry || progress.length === 0) {
+      return undefined;
+    }
+    try {
+      return progress.length >= inverseOf(entry.change).length ? progress[0] : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Run `undo`, marking the changes it records as undoing entry `id`.
+   * Throws if entry `id` is already being undone.
+   */
+  async runUndo<T>(id: number, undo: () => Promise<T>): Promise<T> {
+    if (this.undosRunning.has(id)) {
+      throw new Error(`Change ${id} is already being undone.`);
+    }
+    this.undosRunning.add(id);
+    try {
+      return await this.undoing.run(id, undo);
+    } finally {
+      this.undosRunning.delete(id);
+    }
+  }
+
+  // The file is best effort: the in-memory journal keeps working without it
+
+  /** Pick up the entries other processes appended to the file. */
+  private sync(): void {
+    if (!this.file) {
+      return;
+    }
+    try {
+      this.read(this.file);
+    } catch {
+      // Ignore; keep the entries already read
+    }
+  }
+
+  /**
+   * Run `task` while holding the lock file next to `file`. A lock left behind
+   * by a process that died is taken over.
+   */
+  private withLock(file: string, task: (file: string) => void): void {
+    // Created on the first change, so servers that change nothing leave no trace
+    mkdirSync(dirname(file), { recursive: true });
+    const lock = `${file}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    for (;;) {
+      try {
+        closeSync(openSync(lock, "wx"));
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST" || Date.now() > deadline) {
+          throw error;
+        }
+        try {
+          if (Date.now() - statSync(lock).mtimeMs > STALE_LOCK_MS) {
+            unlinkSync(lock);
+            continue;
+          }
+        } catch {
+          // Released meanwhile
+          continue;
+        }
+        Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, 5);
+      }
+    }
+    try {
+      task(file);
+    } finally {
+      unlinkSync(lock);
+    }
+  }
+
+  private persist(file: string, entry: JournalEntry): void {
+    if (this.fileLines >= this.maxEntries * 2) {
+      this.compact(file);
+    } else {
+      const line = `${JSON.stringify(entry)}\n`;
+      appendFileSync(file, line);
+      this.fileLines++;
+      this.fileOffset += Buffer.byteLength(line);
+      this.fileInode ??= statSync(file).ino;
+    }
+  }
+
+  /**
+   * Rewrite the file with only the entries still kept. The new file replaces
+   * the old one at once, so other processes never read it half-written.
+   */
+  private compact(file: string): void {
+    const content = this.entries.map((entry) => `${JSON.stringify(entry)}\n`).join("");
+    writeFileSync(`${file}.tmp`, content);
+    renameSync(`${file}.tmp`, file);
+    this.fileLines = this.entries.length;
+    this.fileOffset = Buffer.byteLength(content);
+    this.fileInode = statSync(file).ino;
+  }
+
+  /**
+   * Read the lines added to the file since the last read, or all of it if
+   * another process compacted it meanwhile.
+   */
+  private read(file: string): void {
+    let stats;
+    try {
+      stats = statSync(file);
+    } catch {
+      return;
+    }
+    if (stats.ino !== this.fileInode || stats.size < this.fileOffset) {
+      this.entries.length = 0;
+      this.fileLines = 0;
+      this.fileOffset = 0;
+      this.fileInode = stats.ino;
+    }
+    if (stats.size === this.fileOffset) {
+      return;
+    }
+
+    const buffer = Buffer.alloc(stats.size - this.fileOffset);
+    const fd = openSync(file, "r");
+    try {
+      readSync(fd, buffer, 0, buffer.length, this.fileOffset);
+    } finally {
+      closeSync(fd);
+    }
+    // A line still being appended is read next time
+    const end = buffer.lastIndexOf("\n") + 1;
+    this.fileOffset += end;
+
+    const lines = buffer.toString("utf8", 0, end).split("\n").filter((line) => line.trim() !== "");
+    for (const line of lines) {
+      try {
+        const entry = JSON.parse(line) as JournalEntry;
+        if (typeof entry?.id === "number" && entry.change) {
+          this.entries.push(entry);
+          this.nextId = Math.max(this.nextId, entry.id + 1);
+        }
+      } catch {
+        // Skip corrupt lines
+      }
+    }
+    this.fileLines += lines.length;
+    this.trim();
+  }
+
+  /** Drop the oldest entries beyond maxEntries. */
+  private trim(): void {
+    this.entries.splice(0, Math.max(0, this.entries.length - this.maxEntries));
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Repository policy: which repositories requests may read from and write to.
+ *
+ * Patterns look like "owner/repo", where `*` matches any run of characters
+ * other than "/" and `?` matches one. A leading "!" excludes matching
+ * repositories. A repository is allowed when it matches at least one plain
+ * pattern and no excluding one; a list of only exclusions allows everything
+ * else. Matching ignores case, like GitHub.
+ */
+
+export type RepositoryAccess = "read" | "write";
+
+export interface RepositoryPolicyOptions {
+  /** Repositories that may be read; unset allows all. */
+  read?: string[];
+  /** Repositories that may be written; unset falls back to `read`. */
+  write?: string[];
+}
+
+/** Characters allowed in an owner or repository name pattern. */
+const PATTERN_PART = /^[A-Za-z0-9_.*?-]+$/;
+
+interface CompiledPatterns {
+  include: RegExp[];
+  exclude: RegExp[];
+}
+
+export class PolicyDeniedError extends Error {
+  constructor(
+    readonly access: RepositoryAccess,
+    readonly repository: string,
+    message = `Policy denied: ${access} access to ${repository} is not allowed by the repository policy. ` +
+      `Ask the server operator to allow it, or use a permitted repository.`
+  ) {
+    super(message);
+    this.name = "PolicyDeniedError";
+  }
+}
+
+function compilePattern(pattern: string): RegExp {
+  const parts = pattern.split("/");
+  if (parts.length !== 2 || !parts.every((part) => PATTERN_PART.test(part))) {
+    throw new Error(`Invalid repository pattern "${pattern}": expected "owner/repo", e.g. "acme/*"`);
+  }
+  const source = pattern.replace(/[.-]/g, "\\$&").replace(/\*/g, "[^/]*").replace(/\?/g, "[^/]");
+  return new RegExp(`^${source}$`, "i");
+}
+
+function compilePatterns(patterns: string[]): CompiledPatterns {
+  const include: RegExp[] = [];
+  const exclude: RegExp[] = [];
+  for (const pattern of patterns) {
+    const trimmed = pattern.trim();
+    if (trimmed.startsWith("!")) {
+      exclude.push(compilePattern(trimmed.slice(1)));
+    } else {
+      include.push(compilePattern(trimmed));
+    }
+  }
+  return { include, exclude };
+}
+
+/**
+ * The result of `read`, or null when the repository policy denies it. Walks
+ * across repositories use it to skip issues outside the policy instead of failing.
+ */
+export async function unlessDenied<T>(read: () => Promise<T>): Promise<T | null> {
+  try {
+    return await read();
+  } catch (error) {
+    if (error instanceof PolicyDeniedError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Throw if any pattern is malformed, so configuration errors surface at startup.
+ */
+export function validateRepositoryPatterns(patterns: string[]): void {
+  compilePatterns(patterns);
+}
+
+/** Access a request needs: anything but GET and HEAD changes GitHub. */
+function accessFor(route: string): RepositoryAccess {
+  const method = route.split(" ")[0].toUpperCase();
+  return method === "GET" || method === "HEAD" ? "read" : "write";
+}
+
+export class RepositoryPolicy {
+  private readonly read: CompiledPatterns | null;
+  private readonly write: CompiledPatterns | null;
+
+  constructor(options: RepositoryPolicyOptions) {
+    this.read = options.read ? compilePatterns(options.read) : null;
+    const write = options.write ?? options.read;
+    this.write = write ? compilePatterns(write) : null;
+  }
+
+  /** True when `access` to owner/repo is allowed. */
+  allows(access: RepositoryAccess, owner: string, repo: string): boolean {
+    const patterns = access === "read" ? this.read : this.write;
+    if (!patterns) {
+      return true;
+    }
+    const name = `${owner}/${repo}`;
+    const included = patterns.include.length === 0 || patterns.include.some((pattern) => pattern.test(name));
+    return included && !patterns.exclude.some((pattern) => pattern.test(name));
+  }
+
+  /** Throw PolicyDeniedError unless `access` to owner/repo is allowed. */
+  require(access: RepositoryAccess, owner: string, repo: string): void {
+    if (!this.allows(access, owner, repo)) {
+      throw new PolicyDeniedError(access, `${owner}/${repo}`);
+    }
+  }
+
+  /**
+   * Throw PolicyDeniedError unless the request may run. Requests that are not
+   * about a repository (such as the rate limit) are always allowed.
+   */
+  check(route: string, params: Record<string, unknown>): void {
+    const { owner, repo } = params;
+    if (typeof owner !== "string" || typeof repo !== "string") {
+      return;
+    }
+    this.require(accessFor(route), owner, repo);
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Concurrency limiting and retries for GitHub API requests.
+ */
+
+import { GitHubApiError, RequestCancelledError } from "./errors.js";
+
+/** Default number of GitHub requests in flight at once. */
+export const DEFAULT_MAX_CONCURRENT_REQUESTS = 8;
+
+/** Default number of retries after the first attempt. */
+export const DEFAULT_MAX_RETRIES = 3;
+
+/** Delay before the first retry when GitHub gives no Retry-After. */
+const BASE_RETRY_DELAY_MS = 1000;
+
+/** Longest wait we accept before a retry; longer rate-limit resets fail fast. */
+const MAX_RETRY_DELAY_MS = 60_000;
+
+/** HTTP methods that are safe to repeat after a server error. */
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "PATCH", "DELETE"]);
+
+export interface RequestSchedulerOptions {
+  maxConcurrent?: number;
+  maxRetries?: number;
+}
+
+/**
+ * Wait `ms`, or reject with RequestCancelledError as soon as `signal` is
+ * aborted.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs requests with a global concurrency limit, retrying rate-limited and
+ * transient failures with exponential backoff.
+ *
+ * Rate-limit errors pause every request until the wait GitHub asked for has
+ * passed, so parallel work does not keep hitting the limit.
+ */
+export class RequestScheduler {
+  private readonly maxConcurrent: number;
+  private readonly maxRetries: number;
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+  private resumeAt = 0;
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.maxConcurrent = options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT_REQUESTS;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  }
+
+  /**
+   * Run a request, retrying it when it fails with a retryable GitHubApiError.
+   * `method` decides whether server errors may be retried. Aborting `signal`
+   * stops waiting for a slot, a rate-limit pause or a retry with
+   * RequestCancelledError.
+   */
+  async run<T>(method: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      let delay = 0;
+
+      await this.acquire(signal);
+      try {
+        return await task();
+      } catch (error) {
+        const retryDelay = this.retryDelay(error, method, attempt);
+        if (retryDelay === null) {
+          throw error;
+        }
+        delay = retryDelay;
+        if (error instanceof GitHubApiError && error.kind !== "server") {
+          this.resumeAt = Math.max(this.resumeAt, Date.now() + delay);
+        }
+      } finally {
+        this.release();
+      }
+
+      await sleep(delay, signal);
+    }
+  }
+
+  /**
+   * Wait for any rate-limit pause to pass and for a free slot. A waiter that
+   * was woken for a slot but gives up passes the wake-up on to the next one.
+   */
+  private async acquire(signal?: AbortSignal): Promise<void> {
+    let woken = false;
+    try {
+      for (;;) {
+        const pause = this.resumeAt - Date.now();
+        if (pause > 0) {
+          await sleep(pause, signal);
+        }
+        if (signal?.aborted) {
+          throw new RequestCancelledError();
+        }
+        if (this.active < this.maxConcurrent) {
+          break;
+        }
+        await this.waitForSlot(signal);
+        woken = true;
+      }
+    } catch (error) {
+      if (woken) {
+        this.waiting.shift()?.();
+      }
+      throw error;
+    }
+    this.active++;
+  }
+
+  /** Wait until a request finishes, leaving the queue if `signal` is aborted. */
+  private waitForSlot(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.waiting.splice(this.waiting.indexOf(wake), 1);
+        reject(new RequestCancelledError());
+      };
+      const wake = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      this.waiting.push(wake);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+
+  /**
+   * Milliseconds to wait before retrying, or null when the error should be
+   * reported instead.
+   */
+  private retryDelay(error: unknown, method: string, attempt: number): number | null {
+    if (!(error instanceof GitHubApiError) || attempt >= this.maxRetries) {
+      return null;
+    }
+
+    const rateLimited = error.kind === "rate_limit" || error.kind === "secondary_rate_limit";
+    const transient = error.kind === "server" && IDEMPOTENT_METHODS.has(method.toUpperCase());
+    if (!rateLimited && !transient) {
+      return null;
+    }
+
+    // GitHub asks for at least a minute after a secondary limit without Retry-After
+    const delay = error.retryAfter !== null
+      ? error.retryAfter * 1000
+      : error.kind === "secondary_rate_limit"
+        ? MAX_RETRY_DELAY_MS
+        : BASE_RETRY_DELAY_MS * 2 ** attempt;
+    return delay <= MAX_RETRY_DELAY_MS ? delay : null;
+  }
+}
@@ -18,6 +18,84 @@ export interface IssueReference {
   updated_at: string;
 }
 
+/**
+ * Label attached to an issue.
+ */
+export interface IssueLabel {
+  name: string;
+  color: string | null;
+  description: string | null;
+}
+
+/**
+ * Milestone an issue is assigned to.
+ */
+export interface IssueMilestone {
+  number: number;
+  title: string;
+  state: "open" | "closed";
+  due_on: string | null;
+  html_url: string;
+}
+
+/**
+ * Sub-issue completion counts GitHub reports for a parent issue.
+ */
+export interface SubIssuesSummary {
+  total: number;
+  completed: number;
+  percent_completed: number;
+}
+
+/**
+ * Full issue representation returned by the single-issue endpoint.
+ */
+export interface IssueDetail extends IssueReference {
+  body: string | null;
+  labels: IssueLabel[];
+  assignees: Array<{ login: string }>;
+  milestone: IssueMilestone | null;
+  closed_at: string | null;
+  state_reason: "completed" | "reopened" | "not_planned" | "duplicate" | null;
+  sub_issues_summary: SubIssuesSummary | null;
+}
+
+/**
+ * Items collected from a paginated list endpoint.
+ */
+export interface PaginatedResult<T> {
+  items: T[];
+  /** True when the client's item limit was reached before the last page. */
+  truncated: boolean;
+}
+
+/**
+ * Outcome of one item in a batch operation.
+ */
+export type BatchOutcome<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+/**
+ * Quota of one GitHub rate-limit resource (core, search, graphql, ...).
+ */
+export interface RateLimitStatus {
+  resource: string;
+  limit: number;
+  remaining: number;
+  used: number;
+  /** When the quota resets, as an ISO 8601 timestamp. */
+  reset_at: string;
+}
+
+/**
+ * A repository, as offered for argument completion.
+ */
+export interface RepositoryReference {
+  owner: string;
+  name: string;
+}
+
 /**
  * Parameters for identifying an issue.
  */
@@ -52,6 +130,8 @@ export interface AddSubIssueParams {
   parentIssueNumber: number;
   subIssueId: number;
   replaceParent?: boolean;
+  /** Where the sub-issue lives, if known; lets the journal record the parent it leaves. */
+  subIssue?: IssueIdentifier;
 }
 
 /**
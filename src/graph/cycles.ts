@@ -0,0 +1,255 @@
+/**
+ * Detection of cycles in issue dependencies.
+ */
+
+import type { GitHubClient } from "../github/client.js";
+import type { IssueIdentifier } from "../github/types.js";
+import {
+  walkDependencies,
+  type DependencyGraphNode,
+  type DependencyGraphOptions,
+  type IssueGraph,
+} from "./dependency-graph.js";
+
+/** Most edges a cycle scan follows before it stops and reports truncation. */
+const MAX_CYCLE_SEARCH_STEPS = 100_000;
+
+/**
+ * Outcome of checking a prospective dependency for cycles.
+ */
+export interface NewDependencyCycleCheck {
+  /**
+   * The loop the new edge would close, in "is blocked by" order, starting and
+   * ending with the issue being blocked. Null when no cycle was found.
+   */
+  cycle: DependencyGraphNode[] | null;
+  /** False when the walk was cut short, so a longer cycle may have been missed. */
+  complete: boolean;
+}
+
+/**
+ * Result of scanning a graph for cycles.
+ */
+export interface CycleScanResult {
+  /** Each cycle as issue IDs in "is blocked by" order, without repeating the first issue. */
+  cycles: number[][];
+  /** True when the cycle limit or the step limit stopped the scan early. */
+  truncated: boolean;
+}
+
+/**
+ * Find the shortest chain of "is blocked by" edges leading from one issue to
+ * another, returned as issue IDs including both ends.
+ */
+export function findBlockedByPath(graph: IssueGraph, fromId: number, toId: number): number[] | null {
+  const previous = new Map<number, number>([[fromId, fromId]]);
+  const queue = [fromId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === toId) {
+      const path = [current];
+      while (path[0] !== fromId) {
+        path.unshift(previous.get(path[0])!);
+      }
+      return path;
+    }
+    for (const edge of graph.edges) {
+      if (edge.blocked_id === current && !previous.has(edge.blocking_id)) {
+        previous.set(edge.blocking_id, current);
+        queue.push(edge.blocking_id);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether marking `issue` as blocked by `blockingIssueId` would close a
+ * dependency loop.
+ *
+ * Walks the issues that (transitively) wait on `issue`. If the prospective
+ * blocker is among them, it is already blocked by `issue` through that chain
+ * and the new edge would complete the cycle.
+ */
+export async function checkNewDependencyForCycle(
+  client: GitHubClient,
+  issue: IssueIdentifier,
+  blockingIssueId: number,
+  options: Omit<DependencyGraphOptions, "direction">
+): Promise<NewDependencyCycleCheck> {
+  const target = await client.getIssue(issue.owner, issue.repo, issue.issueNumber);
+  const graph = await walkDependencies(client, [target], { ...options, direction: "blocking" });
+  const nodes = new Map(graph.nodes.map((node) => [node.id, node]));
+
+  // Walked edges run from dependents back to `issue`; follow them from the blocker
+  const path = findBlockedByPath(graph, blockingIssueId, target.id);
+  if (!path) {
+    return { cycle: null, complete: !graph.truncated };
+  }
+
+  return {
+    cycle: [target.id, ...path].map((id) => nodes.get(id)!),
+    complete: true,
+  };
+}
+
+/**
+ * Tarjan's strongly connected components of the graph over `ids`, whose
+ * edges run to `successors(id)`.
+ */
+function stronglyConnectedComponents(ids: number[], successors: (id: number) => number[]): number[][] {
+  const index = new Map<number, number>();
+  const lowLink = new Map<number, number>();
+  const stack: number[] = [];
+  const onStack = new Set<number>();
+  const components: number[][] = [];
+
+  const connect = (id: number): void => {
+    index.set(id, index.size);
+    lowLink.set(id, index.get(id)!);
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of successors(id)) {
+      if (!index.has(next)) {
+        connect(next);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: number[] = [];
+      let member: number;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      components.push(component);
+    }
+  };
+
+  for (const id of ids) {
+    if (!index.has(id)) {
+      connect(id);
+    }
+  }
+  return components;
+}
+
+/**
+ * Enumerate the elementary cycles of a dependency graph with Johnson's
+ * algorithm, searching only inside strongly connected components, so an
+ * acyclic graph costs no more than finding its components.
+ *
+ * Each cycle is reported once, starting from its earliest node in graph
+ * order. The search stops after maxCycles cycles, or after maxSteps edge
+ * visits so that a densely cyclic graph cannot hold up the process.
+ */
+export function findDependencyCycles(
+  graph: IssueGraph,
+  maxCycles: number,
+  maxSteps = MAX_CYCLE_SEARCH_STEPS
+): CycleScanResult {
+  const order = new Map(graph.nodes.map((node, index) => [node.id, index]));
+  const blockers = new Map<number, number[]>();
+  for (const edge of graph.edges) {
+    if (order.has(edge.blocked_id) && order.has(edge.blocking_id)) {
+      blockers.set(edge.blocked_id, [...(blockers.get(edge.blocked_id) ?? []), edge.blocking_id]);
+    }
+  }
+  const successors = (id: number) => blockers.get(id) ?? [];
+
+  const componentOf = new Map<number, number[]>();
+  for (const component of stronglyConnectedComponents(graph.nodes.map((node) => node.id), successors)) {
+    // Keep graph order, so later starts see the same order as the scan
+    component.sort((a, b) => order.get(a)! - order.get(b)!);
+    for (const id of component) {
+      componentOf.set(id, component);
+    }
+  }
+
+  const cycles: number[][] = [];
+  let steps = 0;
+  let truncated = false;
+
+  for (const start of graph.nodes) {
+    const startIndex = order.get(start.id)!;
+
+    // Cycles through earlier nodes were found from them, so only nodes after
+    // the start take part; of those, only the start's own component can close a cycle
+    const inScope = (id: number) => componentOf.get(id) === componentOf.get(start.id) && order.get(id)! >= startIndex;
+    const scope = componentOf.get(start.id)!.filter(inScope);
+    const component = new Set(
+      stronglyConnectedComponents(scope, (id) => successors(id).filter(inScope)).find((ids) => ids.includes(start.id))
+    );
+    const next = (id: number) => successors(id).filter((nextId) => component.has(nextId));
+    if (component.size === 1 && !next(start.id).includes(start.id)) {
+      continue;
+    }
+
+    const path: number[] = [];
+    const blocked = new Set<number>();
+    // Nodes to unblock once the key node is unblocked
+    const blockedBy = new Map<number, Set<number>>();
+
+    const unblock = (id: number): void => {
+      blocked.delete(id);
+      const waiting = blockedBy.get(id) ?? new Set<number>();
+      blockedBy.delete(id);
+      for (const waitingId of waiting) {
+        if (blocked.has(waitingId)) {
+          unblock(waitingId);
+        }
+      }
+    };
+
+    // Returns whether a cycle was found through `id`; a node on no cycle stays
+    // blocked until a node it leads to is unblocked
+    const circuit = (id: number): boolean => {
+      let found = false;
+      path.push(id);
+      blocked.add(id);
+
+      for (const nextId of next(id)) {
+        if (truncated) {
+          break;
+        }
+        if (++steps > maxSteps) {
+          truncated = true;
+          break;
+        }
+        if (nextId === start.id) {
+          cycles.push([...path]);
+          found = true;
+          if (cycles.length >= maxCycles) {
+            truncated = true;
+          }
+        } else if (!blocked.has(nextId) && circuit(nextId)) {
+          found = true;
+        }
+      }
+
+      if (found) {
+        unblock(id);
+      } else {
+        for (const nextId of next(id)) {
+          blockedBy.set(nextId, (blockedBy.get(nextId) ?? new Set<number>()).add(id));
+        }
+      }
+      path.pop();
+      return found;
+    };
+
+    circuit(start.id);
+    if (truncated) {
+      break;
+    }
+  }
+
+  return { cycles, truncated };
+}
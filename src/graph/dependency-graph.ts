@@ -0,0 +1,172 @@
+/**
+ * Transitive traversal of issue dependencies (blocked-by / blocking).
+ */
+
+import type { GitHubClient } from "../github/client.js";
+import { parseIssueUrl } from "../github/issue-ref.js";
+import { unlessDenied } from "../github/policy.js";
+import type { IssueIdentifier, IssueReference } from "../github/types.js";
+
+export type DependencyDirection = "blocked_by" | "blocking" | "both";
+
+/**
+ * An issue reached while walking the dependency graph.
+ */
+export interface DependencyGraphNode {
+  id: number;
+  number: number;
+  title: string;
+  state: "open" | "closed";
+  html_url: string;
+  owner: string;
+  repo: string;
+  /** Number of dependency hops from the root issue. */
+  depth: number;
+  /** True when the repository policy does not allow reading this issue's repository, so its dependencies were not listed. */
+  denied?: boolean;
+}
+
+/**
+ * A "blocked by" relationship: `blocked_id` cannot proceed until `blocking_id` is resolved.
+ */
+export interface DependencyEdge {
+  blocked_id: number;
+  blocking_id: number;
+}
+
+/**
+ * Issues and the dependency edges between them.
+ */
+export interface IssueGraph {
+  nodes: DependencyGraphNode[];
+  edges: DependencyEdge[];
+  /** True when the node limit or a list limit stopped the walk early. */
+  truncated: boolean;
+}
+
+export interface DependencyGraph extends IssueGraph {
+  root_id: number;
+}
+
+export interface DependencyGraphOptions {
+  direction: DependencyDirection;
+  maxDepth: number;
+  maxNodes: number;
+  /** Called after each issue's dependencies are listed, with the number of issues expanded so far. */
+  onProgress?: (expanded: number) => void;
+}
+
+function toNode(issue: IssueReference, location: IssueIdentifier, depth: number): DependencyGraphNode {
+  return {
+    id: issue.id,
+    number: issue.number,
+    title: issue.title,
+    state: issue.state,
+    html_url: issue.html_url,
+    owner: location.owner,
+    repo: location.repo,
+    depth,
+  };
+}
+
+/**
+ * Walk dependencies breadth-first from one or more starting issues, visiting
+ * each issue once. Starting issues have depth 0.
+ *
+ * Issues in other repositories are followed using the owner/repo from their
+ * html_url. Nodes at maxDepth, and nodes in repositories the policy does not
+ * allow reading (marked denied), are included but not expanded.
+ */
+export async function walkDependencies(
+  client: GitHubClient,
+  starts: IssueReference[],
+  options: DependencyGraphOptions
+): Promise<IssueGraph> {
+  const nodes = new Map<number, DependencyGraphNode>();
+  const edges = new Map<string, DependencyEdge>();
+  const queue: DependencyGraphNode[] = [];
+  let truncated = false;
+  let expanded = 0;
+
+  const visit = (issue: IssueReference, depth: number): void => {
+    if (nodes.has(issue.id)) {
+      return;
+    }
+    const location = parseIssueUrl(issue.html_url);
+    if (!location) {
+      return;
+    }
+    if (nodes.size >= options.maxNodes) {
+      truncated = true;
+      return;
+    }
+    const node = toNode(issue, location, depth);
+    nodes.set(issue.id, node);
+    queue.push(node);
+  };
+
+  const addEdge = (blockedId: number, blockingId: number): void => {
+    edges.set(`${blockedId}:${blockingId}`, { blocked_id: blockedId, blocking_id: blockingId });
+  };
+
+  for (const start of starts) {
+    visit(start, 0);
+  }
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current.depth >= options.maxDepth) {
+      continue;
+    }
+
+    if (options.direction !== "blocking") {
+      const blockers = await unlessDenied(() => client.getBlockedBy(current.owner, current.repo, current.number));
+      if (!blockers) {
+        current.denied = true;
+        continue;
+      }
+      truncated ||= blockers.truncated;
+      for (const blocker of blockers.items) {
+        visit(blocker, current.depth + 1);
+        if (nodes.has(blocker.id)) {
+          addEdge(current.id, blocker.id);
+        }
+      }
+    }
+
+    if (options.direction !== "blocked_by") {
+      const blocked = await unlessDenied(() => client.getBlocking(current.owner, current.repo, current.number));
+      if (!blocked) {
+        current.denied = true;
+        continue;
+      }
+      truncated ||= blocked.truncated;
+      for (const issue of blocked.items) {
+        visit(issue, current.depth + 1);
+        if (nodes.has(issue.id)) {
+          addEdge(issue.id, current.id);
+        }
+      }
+    }
+    options.onProgress?.(++expanded);
+  }
+
+  return {
+    nodes: [...nodes.values()],
+    edges: [...edges.values()],
+    truncated,
+  };
+}
+
+/**
+ * Walk dependencies from a single root issue.
+ */
+export async function buildDependencyGraph(
+  client: GitHubClient,
+  root: IssueIdentifier,
+  options: DependencyGraphOptions
+): Promise<DependencyGraph> {
+  const rootIssue = await client.getIssue(root.owner, root.repo, root.issueNumber);
+  const graph = await walkDependencies(client, [rootIssue], options);
+  return { root_id: rootIssue.id, ...graph };
+}
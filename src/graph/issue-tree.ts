@@ -0,0 +1,160 @@
+/**
+ * Recursive expansion of sub-issue hierarchies with progress rollup.
+ */
+
+import type { GitHubClient } from "../github/client.js";
+import { parseIssueUrl } from "../github/issue-ref.js";
+import { unlessDenied } from "../github/policy.js";
+import type { IssueIdentifier, IssueReference } from "../github/types.js";
+
+/**
+ * Open/closed counts over all descendants of an issue.
+ */
+export interface IssueProgress {
+  total: number;
+  open: number;
+  closed: number;
+  percent_complete: number;
+}
+
+export interface IssueTreeNode {
+  id: number;
+  number: number;
+  title: string;
+  state: "open" | "closed";
+  html_url: string;
+  owner: string;
+  repo: string;
+  progress: IssueProgress;
+  /** False when the depth or node limit stopped us from listing this issue's sub-issues. */
+  children_fetched: boolean;
+  /** True when children were fetched but dropped from the output to fit the size limit. */
+  collapsed?: boolean;
+  /** True when the repository policy does not allow reading this issue's repository, so its sub-issues were not listed. */
+  denied?: boolean;
+  children: IssueTreeNode[];
+}
+
+export interface IssueTree {
+  root: IssueTreeNode;
+  node_count: number;
+  /** True when the node limit or a list limit left part of the hierarchy unexplored. */
+  truncated: boolean;
+}
+
+export interface IssueTreeOptions {
+  maxDepth: number;
+  maxNodes: number;
+  /** Called after each issue's sub-issues are listed, with the number of issues listed so far. */
+  onProgress?: (expanded: number) => void;
+}
+
+function computeProgress(children: IssueTreeNode[]): IssueProgress {
+  let open = 0;
+  let closed = 0;
+  for (const child of children) {
+    if (child.state === "closed") {
+      closed++;
+    } else {
+      open++;
+    }
+    open += child.progress.open;
+    closed += child.progress.closed;
+  }
+
+  const total = open + closed;
+  return {
+    total,
+    open,
+    closed,
+    percent_complete: total === 0 ? 0 : Math.round((closed / total) * 100),
+  };
+}
+
+/**
+ * Expand the sub-issue hierarchy below an issue, depth-first in priority order.
+ *
+ * Sub-issues in other repositories are followed using the owner/repo from
+ * their html_url; those in repositories the policy does not allow reading
+ * are kept as leaves marked denied. Progress at each node counts every
+ * fetched descendant.
+ */
+export async function buildIssueTree(
+  client: GitHubClient,
+  root: IssueIdentifier,
+  options: IssueTreeOptions
+): Promise<IssueTree> {
+  const rootIssue = await client.getIssue(root.owner, root.repo, root.issueNumber);
+  const seen = new Set<number>([rootIssue.id]);
+  let truncated = false;
+  let expanded = 0;
+
+  const expand = async (
+    issue: IssueReference,
+    location: IssueIdentifier,
+    depth: number
+  ): Promise<IssueTreeNode> => {
+    const children: IssueTreeNode[] = [];
+    const canExpand = depth < options.maxDepth && seen.size < options.maxNodes;
+    const subIssues = canExpand
+      ? await unlessDenied(() => client.listSubIssues(location.owner, location.repo, location.issueNumber))
+      : null;
+    const denied = canExpand && !subIssues;
+
+    if (subIssues) {
+      truncated ||= subIssues.truncated;
+      options.onProgress?.(++expanded);
+
+      for (const subIssue of subIssues.items) {
+        const subLocation = parseIssueUrl(subIssue.html_url);
+        if (!subLocation || seen.has(subIssue.id)) {
+          continue;
+        }
+        if (seen.size >= options.maxNodes) {
+          truncated = true;
+          break;
+        }
+        seen.add(subIssue.id);
+        children.push(await expand(subIssue, subLocation, depth + 1));
+      }
+    } else if (depth < options.maxDepth && !denied) {
+      truncated = true;
+    }
+
+    return {
+      id: issue.id,
+      number: issue.number,
+      title: issue.title,
+      state: issue.state,
+      html_url: issue.html_url,
+      owner: location.owner,
+      repo: location.repo,
+      progress: computeProgress(children),
+      children_fetched: subIssues !== null,
+      ...(denied && { denied }),
+      children,
+    };
+  };
+
+  const tree = await expand(rootIssue, root, 0);
+  return { root: tree, node_count: seen.size, truncated };
+}
+
+/**
+ * Copy a tree, dropping children below `depth` and marking the cut nodes as
+ * collapsed. Progress figures are kept, so collapsed branches still report
+ * their rollup.
+ */
+export function collapseIssueTree(node: IssueTreeNode, depth: number): IssueTreeNode {
+  if (depth <= 0 && node.children.length > 0) {
+    return { ...node, collapsed: true, children: [] };
+  }
+  return { ...node, children: node.children.map((child) => collapseIssueTree(child, depth - 1)) };
+}
+
+/**
+ * Depth of the deepest node below `node` (0 for a leaf).
+ */
+export function issueTreeDepth(node: IssueTreeNode): number {
+  return node.children.reduce((max, child) => Math.max(max, issueTreeDepth(child) + 1), 0);
+}
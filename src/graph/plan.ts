@@ -0,0 +1,210 @@
+/**
+ * Dependency-ordered planning of an epic's sub-issues.
+ */
+
+import type { GitHubClient } from "../github/client.js";
+import { parseIssueUrl } from "../github/issue-ref.js";
+import { unlessDenied } from "../github/policy.js";
+import type { IssueIdentifier, IssueReference } from "../github/types.js";
+import type { DependencyEdge } from "./dependency-graph.js";
+import type { BlockedIssue } from "./readiness.js";
+
+export interface IssuePlan {
+  /** Every issue that could be ordered, each after all of its blockers. */
+  order: IssueReference[];
+  /** Open issues grouped so that each wave only waits on earlier waves. */
+  waves: IssueReference[][];
+  /** The longest chain of open issues, each blocking the next. */
+  critical_path: IssueReference[];
+  /** Issues in, or waiting on, a dependency cycle. */
+  unordered: IssueReference[];
+}
+
+export interface EpicPlan extends IssuePlan {
+  /** Sub-issues in the parent's current priority order. */
+  sub_issues: IssueReference[];
+  /** Sub-issues waiting on open issues outside the epic. */
+  external_blockers: BlockedIssue[];
+  /** Sub-issues whose blockers could not be checked because the repository policy does not allow reading them. */
+  denied: IssueReference[];
+  /** True when a sub-issue or blocker list hit the client's item limit. */
+  truncated: boolean;
+}
+
+/**
+ * A single reprioritization: place `subIssueId` directly after `afterId`, or
+ * directly before `beforeId`.
+ */
+export interface SubIssueMove {
+  subIssueId: number;
+  afterId?: number;
+  beforeId?: number;
+}
+
+/**
+ * Topologically sort issues by their "blocked by" edges, group the open ones
+ * into waves and find the critical path.
+ *
+ * Edges to issues outside `issues` are ignored, as are closed blockers when
+ * computing waves and the critical path. Ties keep the input order, so an
+ * already-consistent priority order is left alone.
+ */
+export function planIssues(issues: IssueReference[], edges: DependencyEdge[]): IssuePlan {
+  const byId = new Map(issues.map((issue) => [issue.id, issue]));
+  const position = new Map(issues.map((issue, index) => [issue.id, index]));
+  const blockers = new Map<number, number[]>(issues.map((issue) => [issue.id, []]));
+  const dependents = new Map<number, number[]>(issues.map((issue) => [issue.id, []]));
+
+  for (const edge of edges) {
+    if (edge.blocked_id === edge.blocking_id || !byId.has(edge.blocked_id) || !byId.has(edge.blocking_id)) {
+      continue;
+    }
+    if (blockers.get(edge.blocked_id)!.includes(edge.blocking_id)) {
+      continue;
+    }
+    blockers.get(edge.blocked_id)!.push(edge.blocking_id);
+    dependents.get(edge.blocking_id)!.push(edge.blocked_id);
+  }
+
+  // Kahn's algorithm, always taking the available issue that comes first in the input
+  const remaining = new Map(issues.map((issue) => [issue.id, blockers.get(issue.id)!.length]));
+  const available = issues.filter((issue) => remaining.get(issue.id) === 0).map((issue) => issue.id);
+  const order: number[] = [];
+
+  while (available.length > 0) {
+    available.sort((a, b) => position.get(a)! - position.get(b)!);
+    const id = available.shift()!;
+    order.push(id);
+    for (const dependent of dependents.get(id)!) {
+      const count = remaining.get(dependent)! - 1;
+      remaining.set(dependent, count);
+      if (count === 0) {
+        available.push(dependent);
+      }
+    }
+  }
+
+  const ordered = new Set(order);
+  const isOpen = (id: number): boolean => byId.get(id)!.state === "open";
+
+  // Wave and longest open chain ending at each open issue, in dependency order
+  const wave = new Map<number, number>();
+  const chainLength = new Map<number, number>();
+  const chainPrevious = new Map<number, number>();
+  for (const id of order) {
+    if (!isOpen(id)) {
+      continue;
+    }
+    let level = 0;
+    let length = 1;
+    for (const blocker of blockers.get(id)!) {
+      if (!isOpen(blocker)) {
+        continue;
+      }
+      level = Math.max(level, wave.get(blocker)! + 1);
+      if (chainLength.get(blocker)! + 1 > length) {
+        length = chainLength.get(blocker)! + 1;
+        chainPrevious.set(id, blocker);
+      }
+    }
+    wave.set(id, level);
+    chainLength.set(id, length);
+  }
+
+  const waves: IssueReference[][] = [];
+  for (const [id, level] of wave) {
+    (waves[level] ??= []).push(byId.get(id)!);
+  }
+
+  let end: number | undefined;
+  for (const [id, length] of chainLength) {
+    if (end === undefined || length > chainLength.get(end)!) {
+      end = id;
+    }
+  }
+  const criticalPath: IssueReference[] = [];
+  for (let id = end; id !== undefined; id = chainPrevious.get(id)) {
+    criticalPath.unshift(byId.get(id)!);
+  }
+
+  return {
+    order: order.map((id) => byId.get(id)!),
+    waves,
+    critical_path: criticalPath,
+    unordered: issues.filter((issue) => !ordered.has(issue.id)),
+  };
+}
+
+/**
+ * Compute the reprioritizations that turn the `current` sub-issue order into
+ * `target`, skipping issues that already follow their predecessor.
+ */
+export function planSubIssueMoves(current: number[], target: number[]): SubIssueMove[] {
+  const list = [...current];
+  const moves: SubIssueMove[] = [];
+
+  const move = (id: number, index: number, step: SubIssueMove): void => {
+    list.splice(list.indexOf(id), 1);
+    list.splice(index, 0, id);
+    moves.push(step);
+  };
+
+  if (target.length > 0 && list[0] !== target[0]) {
+    move(target[0], 0, { subIssueId: target[0], beforeId: list[0] });
+  }
+  for (let i = 1; i < target.length; i++) {
+    const afterIndex = list.indexOf(target[i - 1]);
+    if (list[afterIndex + 1] !== target[i]) {
+      const index = list.indexOf(target[i]) < afterIndex ? afterIndex : afterIndex + 1;
+      move(target[i], index, { subIssueId: target[i], afterId: target[i - 1] });
+    }
+  }
+
+  return moves;
+}
+
+/**
+ * Fetch an epic's sub-issues and their blockers, and plan the sub-issues in
+ * dependency order. Sub-issues in repositories outside the repository policy
+ * are planned without their blockers and listed as denied.
+ */
+export async function buildEpicPlan(client: GitHubClient, epic: IssueIdentifier): Promise<EpicPlan> {
+  const subIssues = await client.listSubIssues(epic.owner, epic.repo, epic.issueNumber);
+  const inEpic = new Set(subIssues.items.map((issue) => issue.id));
+  const edges: DependencyEdge[] = [];
+  const externalBlockers: BlockedIssue[] = [];
+  const denied: IssueReference[] = [];
+  let truncated = subIssues.truncated;
+
+  for (const issue of subIssues.items) {
+    const location = parseIssueUrl(issue.html_url);
+    if (!location) {
+      continue;
+    }
+
+    const blockers = await unlessDenied(() => client.getBlockedBy(location.owner, location.repo, location.issueNumber));
+    if (!blockers) {
+      denied.push(issue);
+      continue;
+    }
+    truncated ||= blockers.truncated;
+
+    for (const blocker of blockers.items) {
+      if (inEpic.has(blocker.id)) {
+        edges.push({ blocked_id: issue.id, blocking_id: blocker.id });
+      }
+    }
+    const external = blockers.items.filter((blocker) => !inEpic.has(blocker.id) && blocker.state === "open");
+    if (issue.state === "open" && external.length > 0) {
+      externalBlockers.push({ issue, waiting_on: external });
+    }
+  }
+
+  return {
+    sub_issues: subIssues.items,
+    ...planIssues(subIssues.items, edges),
+    external_blockers: externalBlockers,
+    denied,
+    truncated,
+  };
+}
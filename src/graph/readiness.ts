@@ -0,0 +1,71 @@
+/**
+ * Classification of issues into "ready to work" and "still blocked".
+ */
+
+import type { GitHubClient } from "../github/client.js";
+import { parseIssueUrl } from "../github/issue-ref.js";
+import { unlessDenied } from "../github/policy.js";
+import type { IssueReference } from "../github/types.js";
+
+/**
+ * An open issue with at least one open blocker.
+ */
+export interface BlockedIssue {
+  issue: IssueReference;
+  waiting_on: IssueReference[];
+}
+
+export interface ReadinessReport {
+  /** Open issues whose blockers are all closed (or that have none). */
+  ready: IssueReference[];
+  blocked: BlockedIssue[];
+  /** Open issues whose blockers could not be checked because the repository policy does not allow reading them. */
+  denied: IssueReference[];
+  /** Number of candidates skipped because they are already closed. */
+  closed_count: number;
+  /** True when a blocker list hit the client's item limit. */
+  truncated: boolean;
+}
+
+/**
+ * Fetch the blockers of each open candidate and split the candidates into
+ * ready and blocked issues, preserving the candidates' order. Candidates in
+ * repositories the policy does not allow reading are listed as denied. `onProgress`
+ * is called after fetching each candidate's blockers, with the number of
+ * candidates classified so far.
+ */
+export async function classifyReadiness(
+  client: GitHubClient,
+  candidates: IssueReference[],
+  onProgress?: (classified: number, total: number) => void
+): Promise<ReadinessReport> {
+  const report: ReadinessReport = { ready: [], blocked: [], denied: [], closed_count: 0, truncated: false };
+
+  for (const [index, issue] of candidates.entries()) {
+    if (issue.state === "closed") {
+      report.closed_count++;
+      continue;
+    }
+
+    const location = parseIssueUrl(issue.html_url);
+    if (!location) {
+      continue;
+    }
+
+    const blockers = await unlessDenied(() => client.getBlockedBy(location.owner, location.repo, location.issueNumber));
+    if (!blockers) {
+      report.denied.push(issue);
+    } else {
+      report.truncated ||= blockers.truncated;
+      const openBlockers = blockers.items.filter((blocker) => blocker.state === "open");
+      if (openBlockers.length === 0) {
+        report.ready.push(issue);
+      } else {
+        report.blocked.push({ issue, waiting_on: openBlockers });
+      }
+    }
+    onProgress?.(index + 1, candidates.length);
+  }
+
+  return report;
+}
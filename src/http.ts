@@ -0,0 +1,432 @@
+/**
+ * HTTP transport for hosting one shared server instance.
+ *
+ * Serves the Streamable HTTP transport at /mcp, the legacy HTTP+SSE transport
+ * at /sse (with messages posted to /messages) and a health check at /healthz.
+ * Every MCP session gets its own McpServer acting with the GitHub token the
+ * client sent when it connected, or with the process-wide credentials
+ * (GITHUB_TOKEN or a GitHub App) as a fallback.
+ * Sessions with the same token share one GitHubClient, so their requests are
+ * scheduled and cached together.
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { TransportConfig } from "./config.js";
+import type { GitHubClient } from "./github/client.js";
+import { createServer, validateToolSettings, type ToolSettings } from "./server.js";
+
+/** Largest JSON-RPC request body accepted, in bytes. */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** How often idle sessions are looked for. */
+const IDLE_SWEEP_INTERVAL_MS = 60_000;
+
+/** Credential of sessions using the fallback client; fingerprints are hex. */
+const FALLBACK_CREDENTIAL = "fallback";
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  /** Fingerprint of the token the session acts with, or FALLBACK_CREDENTIAL. */
+  credential: string;
+  lastActivity: number;
+}
+
+/** A GitHub client and the number of sessions using it. */
+interface PooledClient {
+  client: GitHubClient;
+  sessions: number;
+}
+
+interface Credentials {
+  /** Token from the Authorization header; absent when using the fallback. */
+  token?: string;
+  credential: string;
+}
+
+export interface HttpServerOptions {
+  /** Create the client for a GitHub token. */
+  createClient: (token: string) => GitHubClient;
+  /** Client for sessions that do not send an Authorization header. */
+  fallbackClient?: GitHubClient;
+  /** Which tools each session's server registers, and whether they dry-run. */
+  toolSettings?: ToolSettings;
+}
+
+export interface HttpServerHandle {
+  /** Base URL the server listens on, e.g. "http://127.0.0.1:3000". */
+  url: string;
+  /** Number of open MCP sessions. */
+  readonly sessionCount: number;
+  /** Close every session and stop listening. Safe to call more than once. */
+  close(): Promise<void>;
+}
+
+/**
+ * A request rejected before it reaches a session.
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: number,
+    message: string,
+    readonly headers: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * Error sent as a JSON-RPC response when a request cannot reach a session.
+ */
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string,
+  headers: Record<string, string> = {}
+): void {
+  res.writeHead(status, { ...headers, "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+/**
+ * Read and parse a JSON request body.
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, -32600, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+/**
+ * The GitHub token a request carries in its Authorization header, accepting
+ * OAuth-style "Bearer" and GitHub's "token" schemes.
+ */
+function requestToken(req: IncomingMessage): string | undefined {
+  const header = req.headers.authorization;
+  if (!header) {
+    return undefined;
+  }
+  const match = /^(?:bearer|token)\s+(\S+)\s*$/i.exec(header);
+  if (!match) {
+    throw new HttpError(401, -32001, 'Authorization header must be "Bearer <GitHub token>"', {
+      "WWW-Authenticate": "Bearer",
+    });
+  }
+  return match[1];
+}
+
+/** Bind addresses only reachable from this machine. */
+function isLoopback(host: string): boolean {
+  return host === "localhost" || host === "::1" || /^127\./.test(host);
+}
+
+/** Bind addresses listening on every interface, which no client sends as its Host. */
+function isWildcard(host: string): boolean {
+  return host === "0.0.0.0" || host === "::";
+}
+
+/**
+ * Host header values a request may carry: the bind address, the loopback
+ * names when bound to loopback, and the configured extra hosts. Browsers send
+ * the name they resolved, so checking it stops DNS rebinding attacks, where a
+ * page on an attacker's domain re-resolves that domain to this server.
+ * Configured hosts without a port are accepted with and without the port the
+ * server listens on.
+ */
+function allowedHostHeaders(config: TransportConfig, port: number): string[] {
+  const withPort = (host: string) => (host.includes(":") ? `[${host}]:${port}` : `${host}:${port}`);
+  const hosts = new Set<string>();
+  if (isLoopback(config.host)) {
+    for (const name of ["localhost", "127.0.0.1", "::1"]) {
+      hosts.add(withPort(name));
+    }
+  }
+  if (!isWildcard(config.host)) {
+    hosts.add(withPort(config.host));
+  }
+  for (const host of config.allowedHosts ?? []) {
+    const name = host.toLowerCase();
+    hosts.add(name);
+    if (!/:\d+$/.test(name)) {
+      hosts.add(`${name}:${port}`);
+    }
+  }
+  return [...hosts];
+}
+
+/**
+ * Reject requests addressed to a host this server does not answer for, and
+ * browser requests from pages on another origin.
+ */
+function checkRequestOrigin(req: IncomingMessage, allowedHosts: string[], allowedOrigins: string[]): void {
+  const host = req.headers.host?.toLowerCase();
+  if (!host || !allowedHosts.includes(host)) {
+    throw new HttpError(403, -32000, `Invalid Host header: ${req.headers.host ?? "(none)"}`);
+  }
+  const origin = req.headers.origin?.toLowerCase();
+  if (origin && !allowedOrigins.includes(origin)) {
+    throw new HttpError(403, -32000, `Invalid Origin header: ${req.headers.origin}`);
+  }
+}
+
+/** Compare tokens without keeping them around. */
+function fingerprint(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Start the HTTP server and resolve once it is listening.
+ */
+export async function startHttpServer(
+  config: TransportConfig,
+  options: HttpServerOptions
+): Promise<HttpServerHandle> {
+  const toolSettings = options.toolSettings ?? {};
+  // Report a bad tool filter at startup instead of failing every session
+  validateToolSettings(toolSettings);
+  // Otherwise the Host check would reject every request
+  if (isWildcard(config.host) && !config.allowedHosts?.length) {
+    throw new Error(
+      `MCP_HTTP_ALLOWED_HOSTS is required when listening on ${config.host}: ` +
+        "list the host names clients use to reach the server"
+    );
+  }
+
+  const sessions = new Map<string, Session>();
+  const clients = new Map<string, PooledClient>();
+  // Known once listening, since port 0 picks the port then
+  let allowedHosts: string[] = [];
+  let allowedOrigins: string[] = [];
+
+  /**
+   * The credentials a request acts with: its own token, or the fallback.
+   */
+  const credentialsFor = (req: IncomingMessage): Credentials => {
+    const token = requestToken(req);
+    if (token) {
+      return { token, credential: fingerprint(token) };
+    }
+    if (!options.fallbackClient) {
+      throw new HttpError(401, -32001, "A GitHub token is required: send it as \"Authorization: Bearer <token>\"", {
+        "WWW-Authenticate": "Bearer",
+      });
+    }
+    return { credential: FALLBACK_CREDENTIAL };
+  };
+
+  /** The client for a new session, shared with sessions using the same token. */
+  const acquireClient = ({ token, credential }: Credentials): GitHubClient => {
+    if (!token) {
+      return options.fallbackClient!;
+    }
+    let pooled = clients.get(credential);
+    if (!pooled) {
+      pooled = { client: options.createClient(token), sessions: 0 };
+      clients.set(credential, pooled);
+    }
+    pooled.sessions++;
+    return pooled.client;
+  };
+
+  /** Drop a token's client once its last session has ended. */
+  const releaseClient = (credential: string): void => {
+    const pooled = clients.get(credential);
+    if (pooled && --pooled.sessions === 0) {
+      clients.delete(credential);
+    }
+  };
+
+  /** Create a server for a new session and connect it to the transport. */
+  const openSession = async (transport: Session["transport"], credentials: Credentials): Promise<McpServer> => {
+    const server = createServer(acquireClient(credentials), toolSettings);
+    // Set before connecting: the server chains its own close handler onto this one
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+      releaseClient(credentials.credential);
+    };
+    await server.connect(transport);
+    return server;
+  };
+
+  /**
+   * Look up a session by ID, recording activity. Requests must carry the
+   * token the session was opened with, so a leaked session ID alone does not
+   * grant access to someone else's GitHub identity.
+   */
+  const findSession = (req: IncomingMessage, sessionId: string | undefined): Session | undefined => {
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session) {
+      return undefined;
+    }
+    if (credentialsFor(req).credential !== session.credential) {
+      throw new HttpError(403, -32001, "Session belongs to a different GitHub token");
+    }
+    session.lastActivity = Date.now();
+    return session;
+  };
+
+  const handleStreamableHttp = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = req.headers["mcp-session-id"];
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    if (typeof sessionId === "string") {
+      const session = findSession(req, sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, -32001, "Session not found");
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+      return;
+    }
+
+    const credentials = credentialsFor(req);
+    let server: McpServer | undefined;
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableDnsRebindingProtection: true,
+      allowedHosts,
+      allowedOrigins,
+      onsessioninitialized: (id) => {
+        sessions.set(id, {
+          transport,
+          server: server!,
+          credential: credentials.credential,
+          lastActivity: Date.now(),
+        });
+      },
+    });
+    server = await openSession(transport, credentials);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseStream = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const credentials = credentialsFor(req);
+    const transport = new SSEServerTransport("/messages", res, {
+      enableDnsRebindingProtection: true,
+      allowedHosts,
+      allowedOrigins,
+    });
+    const server = await openSession(transport, credentials);
+    sessions.set(transport.sessionId, {
+      transport,
+      server,
+      credential: credentials.credential,
+      lastActivity: Date.now(),
+    });
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> => {
+    const session = findSession(req, url.searchParams.get("sessionId") ?? undefined);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, -32001, "Session not found");
+      return;
+    }
+    await session.transport.handlePostMessage(req, res);
+  };
+
+  const route = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    // Load balancers probe /healthz by address, and it reveals nothing but a count
+    if (url.pathname !== "/healthz") {
+      checkRequestOrigin(req, allowedHosts, allowedOrigins);
+    }
+
+    if (url.pathname === "/healthz" && req.method === "GET") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ status: "ok", sessions: sessions.size }));
+    } else if (url.pathname === "/mcp" && ["GET", "POST", "DELETE"].includes(req.method ?? "")) {
+      await handleStreamableHttp(req, res);
+    } else if (url.pathname === "/sse" && req.method === "GET") {
+      await handleSseStream(req, res);
+    } else if (url.pathname === "/messages" && req.method === "POST") {
+      await handleSseMessage(req, res, url);
+    } else {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Not found" }));
+    }
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    route(req, res).catch((error: unknown) => {
+      if (res.headersSent) {
+        res.end();
+      } else if (error instanceof SyntaxError) {
+        sendJsonRpcError(res, 400, -32700, "Parse error: request body is not valid JSON");
+      } else if (error instanceof HttpError) {
+        sendJsonRpcError(res, error.status, error.code, error.message, error.headers);
+      } else {
+        console.error("HTTP request failed:", error);
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      }
+    });
+  });
+
+  // Clients that disappear without ending their session would otherwise leak it
+  const idleTimeoutMs = config.sessionIdleTimeoutSeconds * 1000;
+  const sweeper = setInterval(() => {
+    for (const session of [...sessions.values()]) {
+      if (Date.now() - session.lastActivity > idleTimeoutMs) {
+        void session.server.close();
+      }
+    }
+  }, Math.min(IDLE_SWEEP_INTERVAL_MS, idleTimeoutMs));
+  sweeper.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+  allowedHosts = allowedHostHeaders(config, address.port);
+  allowedOrigins = allowedHosts.flatMap((host) => [`http://${host}`, `https://${host}`]);
+  const host = address.family === "IPv6" ? `[${address.address}]` : address.address;
+  let closing: Promise<void> | undefined;
+
+  return {
+    url: `http://${host}:${address.port}`,
+    get sessionCount() {
+      return sessions.size;
+    },
+    close() {
+      closing ??= (async () => {
+        clearInterval(sweeper);
+        await Promise.allSettled([...sessions.values()].map((session) => session.server.close()));
+        sessions.clear();
+        clients.clear();
+        // Open SSE streams would keep close() waiting forever
+        httpServer.closeAllConnections();
+        await new Promise<void>((resolve, reject) => {
+          httpServer.close((error) => (error ? reject(error) : resolve()));
+        });
+      })();
+      return closing;
+    },
+  };
+}
@@ -5,12 +5,45 @@
  *
  * Entry point for the MCP server that provides tools for managing
  * GitHub issue dependencies and sub-issues.
+ *
+ * Runs over stdio by default; `--http` (or MCP_TRANSPORT=http) serves the
+ * Streamable HTTP and legacy SSE transports instead.
  */
 
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { createServer } from "./server.js";
+import { loadConfig, loadTransportConfig } from "./config.js";
+import { startHttpServer } from "./http.js";
+import { createGitHubClient, createProcessAuth, createServer } from "./server.js";
 
 async function main(): Promise<void> {
+  const transportConfig = loadTransportConfig();
+
+  if (transportConfig.transport === "http") {
+    // Sessions send their own token; GITHUB_TOKEN or the GitHub App is only a fallback here
+    const config = loadConfig({ requireCredentials: false });
+    const processAuth = createProcessAuth(config);
+    const httpServer = await startHttpServer(transportConfig, {
+      createClient: (token) => createGitHubClient(config, token),
+      fallbackClient: processAuth ? createGitHubClient(config, processAuth) : undefined,
+      toolSettings: config,
+    });
+    console.error(`GitHub Issue Relationships MCP server listening on ${httpServer.url}`);
+
+    const shutdown = (signal: string): void => {
+      console.error(`Received ${signal}, closing ${httpServer.sessionCount} session(s)`);
+      httpServer.close().then(
+        () => process.exit(0),
+        (error) => {
+          console.error("Error during shutdown:", error);
+          process.exit(1);
+        }
+      );
+    };
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
+    return;
+  }
+
   const server = createServer();
   const transport = new StdioServerTransport();
 
@@ -1,24 +1,138 @@
 /**
  * MCP Server for GitHub Issue Relationships.
  *
- * Exposes tools for managing issue dependencies and sub-issues.
+ * Exposes tools for managing issue dependencies and sub-issues, and
+ * resources for reading issues and their relationships.
  */
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  McpServer,
+  ResourceTemplate,
+  type ToolCallback,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import type { AnySchema, SchemaOutput } from "@modelcontextprotocol/sdk/server/zod-compat.js";
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type CallToolResult,
+  type ServerNotification,
+  type ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import { z } from "zod";
+import { AuditLog, redactSecrets } from "./audit.js";
+import { ArgumentCompleter } from "./completions.js";
+import { GitHubAppAuth } from "./github/app-auth.js";
 import { GitHubClient } from "./github/client.js";
-import { loadConfig } from "./config.js";
-import type { IssueReference } from "./github/types.js";
+import { formatErrorMessage } from "./github/errors.js";
+import {
+  ChangeJournal,
+  describeChange,
+  describeWrite,
+  type JournalEntry,
+  type JournalWrite,
+} from "./github/journal.js";
+import { RepositoryPolicy } from "./github/policy.js";
+import { parseIssueRef, parseIssueUrl, type IssueRefInput } from "./github/issue-ref.js";
+import { ResourceSubscriptions } from "./subscriptions.js";
+import {
+  buildDependencyGraph,
+  walkDependencies,
+  type DependencyGraph,
+  type DependencyGraphNode,
+} from "./graph/dependency-graph.js";
+import { checkNewDependencyForCycle, findDependencyCycles } from "./graph/cycles.js";
+import {
+  buildIssueTree,
+  collapseIssueTree,
+  issueTreeDepth,
+  type IssueTreeNode,
+} from "./graph/issue-tree.js";
+import { classifyReadiness, type ReadinessReport } from "./graph/readiness.js";
+import { buildEpicPlan, planSubIssueMoves } from "./graph/plan.js";
+import { loadConfig, type Config } from "./config.js";
+import type {
+  BatchOutcome,
+  IssueDetail,
+  IssueIdentifier,
+  IssueReference,
+  PaginatedResult,
+} from "./github/types.js";
 
 // Constants
 const CHARACTER_LIMIT = 25000;
 const DEFAULT_PAGE_SIZE = 20;
 const MAX_PAGE_SIZE = 100;
+const DEFAULT_GRAPH_DEPTH = 3;
+const MAX_GRAPH_DEPTH = 10;
+const MAX_GRAPH_NODES = 200;
+const DEFAULT_CYCLE_SCAN_DEPTH = 5;
+const MAX_ISSUE_SET_SIZE = 50;
+const MAX_REPORTED_CYCLES = 50;
+const DEFAULT_TREE_DEPTH = 3;
+const MAX_TREE_DEPTH = 8;
+const MAX_TREE_NODES = 500;
+const MAX_BATCH_SIZE = 100;
+const MAX_RECENT_ISSUES = 50;
 
 // Response format enum
 const ResponseFormat = z.enum(["markdown", "json"]);
 type ResponseFormatType = z.infer<typeof ResponseFormat>;
 
+// Issue reference accepted by *_id parameters: an issue ID, "#123",
+// "owner/repo#123" or an issue URL (see parseIssueRef)
+const IssueRef = z.union([z.number().int().positive(), z.string().min(1)]);
+
+// dry_run parameter of the tools that change relationships
+const DryRun = z.boolean().default(false)
+  .describe("If true, check the change against the current relationships and report it without making it");
+
+const ISSUE_REF_FORMS = `an issue ID (e.g. 123456789), "#123", "owner/repo#123", or an issue URL`;
+
+/** Every tool the server can register, whatever the tool settings. */
+export const TOOL_NAMES = [
+  "github_get_issue",
+  "github_get_blocked_by",
+  "github_get_blocking",
+  "github_add_blocking_dependency",
+  "github_remove_blocking_dependency",
+  "github_add_blocking_dependencies",
+  "github_remove_blocking_dependencies",
+  "github_get_dependency_graph",
+  "github_find_dependency_cycles",
+  "github_list_ready_issues",
+  "github_plan_epic",
+  "github_get_parent_issue",
+  "github_list_sub_issues",
+  "github_get_issue_tree",
+  "github_add_sub_issue",
+  "github_remove_sub_issue",
+  "github_add_sub_issues",
+  "github_remove_sub_issues",
+  "github_reprioritize_sub_issue",
+  "github_list_recent_changes",
+  "github_undo_change",
+  "github_get_rate_limit",
+] as const;
+
+export type ToolName = (typeof TOOL_NAMES)[number];
+
+/**
+ * Throw if the tool allowlist or denylist names a tool that does not exist,
+ * since a misspelled name would silently expose or hide the wrong tools.
+ */
+export function validateToolSettings(toolSettings: ToolSettings): void {
+  const known = new Set<string>(TOOL_NAMES);
+  const unknownTools = [...(toolSettings.allowedTools ?? []), ...(toolSettings.deniedTools ?? [])]
+    .filter((name) => !known.has(name));
+  if (unknownTools.length > 0) {
+    throw new Error(`Unknown tool name(s) in the tool allowlist or denylist: ${unknownTools.join(", ")}`);
+  }
+}
+
 // Common annotations
 const READ_ONLY_ANNOTATIONS = {
   readOnlyHint: true,
@@ -63,6 +177,132 @@ function formatIssueListAsMarkdown(issues: IssueReference[], numbered = false):
     .join("\n");
 }
 
+function formatIssueDetailAsMarkdown(issue: IssueDetail): string {
+  const state = issue.state === "closed"
+    ? `closed${issue.state_reason ? ` as ${issue.state_reason}` : ""}${issue.closed_at ? ` on ${issue.closed_at}` : ""}`
+    : issue.state;
+
+  const lines = [
+    `# #${issue.number}: ${issue.title}`,
+    "",
+    `- **State:** ${state}`,
+    `- **ID:** ${issue.id}`,
+    `- **URL:** ${issue.html_url}`,
+    `- **Author:** ${issue.user ? `@${issue.user.login}` : "unknown"}`,
+    `- **Labels:** ${issue.labels.length > 0 ? issue.labels.map((l) => l.name).join(", ") : "none"}`,
+    `- **Assignees:** ${issue.assignees.length > 0 ? issue.assignees.map((a) => `@${a.login}`).join(", ") : "none"}`,
+    `- **Milestone:** ${issue.milestone ? `${issue.milestone.title} (${issue.milestone.state}${issue.milestone.due_on ? `, due ${issue.milestone.due_on}` : ""})` : "none"}`,
+  ];
+
+  if (issue.sub_issues_summary && issue.sub_issues_summary.total > 0) {
+    const summary = issue.sub_issues_summary;
+    lines.push(`- **Sub-issues:** ${summary.completed}/${summary.total} completed (${summary.percent_completed}%)`);
+  }
+
+  lines.push(`- **Created:** ${issue.created_at}`, `- **Updated:** ${issue.updated_at}`);
+
+  if (issue.body) {
+    lines.push("", "## Description", "", issue.body);
+  }
+
+  return lines.join("\n");
+}
+
+function formatGraphNodeRef(node: DependencyGraphNode, base: { owner: string; repo: string }): string {
+  return node.owner === base.owner && node.repo === base.repo
+    ? `#${node.number}`
+    : `${node.owner}/${node.repo}#${node.number}`;
+}
+
+/**
+ * Short reference for an issue: "#12" within the base repository, otherwise
+ * "owner/repo#12".
+ */
+function formatIssueRef(issue: { number: number; html_url: string }, base: { owner: string; repo: string }): string {
+  const location = parseIssueUrl(issue.html_url);
+  return location && (location.owner !== base.owner || location.repo !== base.repo)
+    ? `${location.owner}/${location.repo}#${issue.number}`
+    : `#${issue.number}`;
+}
+
+/** Marks an issue whose relationships the repository policy kept us from listing. */
+const DENIED_NOTE = " *(not expanded: outside the repository policy)*";
+
+function formatGraphNodeLabel(node: DependencyGraphNode, root: DependencyGraphNode): string {
+  return `${formatGraphNodeRef(node, root)}: ${node.title} (${node.state})${node.denied ? DENIED_NOTE : ""}`;
+}
+
+/**
+ * Render a dependency cycle as "#1 → #2 → #1", where → means "is blocked by".
+ */
+function formatCycle(cycle: DependencyGraphNode[], base: { owner: string; repo: string }): string {
+  return cycle.map((node) => formatGraphNodeRef(node, base)).join(" → ");
+}
+
+/**
+ * Render one direction of a dependency graph as an indented list rooted at the
+ * root issue. Issues reachable by more than one path are expanded once.
+ */
+function formatDependencyTreeAsMarkdown(
+  graph: DependencyGraph,
+  direction: "blocked_by" | "blocking"
+): string {
+  const nodes = new Map(graph.nodes.map((node) => [node.id, node]));
+  const root = nodes.get(graph.root_id)!;
+  const children = (id: number): number[] =>
+    graph.edges
+      .filter((edge) => (direction === "blocked_by" ? edge.blocked_id : edge.blocking_id) === id)
+      .map((edge) => (direction === "blocked_by" ? edge.blocking_id : edge.blocked_id));
+
+  const lines: string[] = [];
+  const expanded = new Set<number>();
+
+  const walk = (id: number, indent: number): void => {
+    const node = nodes.get(id)!;
+    const prefix = `${"  ".repeat(indent)}- `;
+    if (expanded.has(id)) {
+      lines.push(`${prefix}${formatGraphNodeLabel(node, root)} *(see above)*`);
+      return;
+    }
+    expanded.add(id);
+    lines.push(`${prefix}${formatGraphNodeLabel(node, root)}`);
+    for (const child of children(id)) {
+      walk(child, indent + 1);
+    }
+  };
+
+  walk(graph.root_id, 0);
+  return lines.join("\n");
+}
+
+/**
+ * Render a sub-issue hierarchy as a nested markdown checklist with a progress
+ * rollup on every issue that has sub-issues.
+ */
+function formatIssueTreeAsMarkdown(
+  node: IssueTreeNode,
+  base: { owner: string; repo: string },
+  indent = 0
+): string[] {
+  const pad = "  ".repeat(indent);
+  const ref = node.owner === base.owner && node.repo === base.repo
+    ? `#${node.number}`
+    : `${node.owner}/${node.repo}#${node.number}`;
+  const progress = node.progress.total > 0
+    ? ` — ${node.progress.closed}/${node.progress.total} done (${node.progress.percent_complete}%)`
+    : "";
+  const denied = node.denied ? DENIED_NOTE : "";
+  const lines = [`${pad}- [${node.state === "closed" ? "x" : " "}] ${ref}: ${node.title}${progress}${denied}`];
+
+  if (node.collapsed) {
+    lines.push(`${pad}  - *${node.progress.total} sub-issue(s) collapsed*`);
+  }
+  for (const child of node.children) {
+    lines.push(...formatIssueTreeAsMarkdown(child, base, indent + 1));
+  }
+  return lines;
+}
+
 function formatResponse<T>(
   data: T,
   format: ResponseFormatType,
@@ -80,16 +320,17 @@ function formatResponse<T>(
   return { text: finalText, structuredContent: data };
 }
 
-function applyPagination<T>(items: T[], offset: number, limit: number): {
+function applyPagination<T>(list: PaginatedResult<T>, offset: number, limit: number): {
   items: T[];
   total: number;
   count: number;
   offset: number;
   has_more: boolean;
   next_offset?: number;
+  truncated: boolean;
 } {
-  const total = items.length;
-  const paginated = items.slice(offset, offset + limit);
+  const total = list.items.length;
+  const paginated = list.items.slice(offset, offset + limit);
   const has_more = offset + paginated.length < total;
 
   return {
@@ -99,121 +340,1312 @@ function applyPagination<T>(items: T[], offset: number, limit: number): {
     offset,
     has_more,
     ...(has_more ? { next_offset: offset + paginated.length } : {}),
+    truncated: list.truncated,
+  };
+}
+
+/**
+ * URI of an issue resource, or of one of its relationship resources when
+ * `view` is given.
+ */
+function issueResourceUri(owner: string, repo: string, number: number, view?: "sub-issues" | "dependencies"): string {
+  const uri = `github-issue://${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/${number}`;
+  return view ? `${uri}/${view}` : uri;
+}
+
+/**
+ * The issue named by the variables of an issue resource URI.
+ */
+function issueFromResourceVariables(variables: Record<string, string | string[]>): IssueIdentifier {
+  const [owner, repo, number] = [variables.owner, variables.repo, variables.number]
+    .map((value) => decodeURIComponent(String(value)));
+  const issueNumber = Number(number);
+  if (!Number.isInteger(issueNumber) || issueNumber <= 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid issue number "${number}" in resource URI`);
+  }
+  return { owner, repo, issueNumber };
+}
+
+function formatTruncationNotice(truncated: boolean): string {
+  return truncated
+    ? "\n\n*GitHub returned more results than the configured limit (GITHUB_MAX_LIST_ITEMS); the total above is a lower bound.*"
+    : "";
+}
+
+/**
+ * Resolve an issue reference to the issue ID required by GitHub's
+ * relationship endpoints, looking the issue up when given a number or URL.
+ */
+async function resolveIssueId(
+  client: GitHubClient,
+  ref: IssueRefInput,
+  owner: string,
+  repo: string
+): Promise<number> {
+  return (await resolveIssue(client, ref, owner, repo)).id;
+}
+
+/** An issue reference resolved to its ID, with the issue if it was looked up. */
+interface ResolvedIssue {
+  id: number;
+  issue?: IssueDetail;
+}
+
+/** Where a resolved issue lives, if it was looked up. */
+function issueLocation(resolved: ResolvedIssue): IssueIdentifier | undefined {
+  return (resolved.issue && parseIssueUrl(resolved.issue.html_url)) ?? undefined;
+}
+
+/**
+ * Like resolveIssueId, but keeps the issue when it was looked up so dry runs
+ * can name it and check its own relationships.
+ */
+async function resolveIssue(
+  client: GitHubClient,
+  ref: IssueRefInput,
+  owner: string,
+  repo: string
+): Promise<ResolvedIssue> {
+  const parsed = parseIssueRef(ref, { owner, repo });
+  if (parsed.kind === "id") {
+    return { id: parsed.id };
+  }
+
+  const issue = await client.getIssue(parsed.owner, parsed.repo, parsed.issueNumber);
+  return { id: issue.id, issue };
+}
+
+/**
+ * Gather the issues a multi-issue tool operates on: the listed issue numbers,
+ * followed by the sub-issues of the parent issue if one is given.
+ */
+async function collectIssues(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  issueNumbers: number[] | undefined,
+  parentIssueNumber: number | undefined
+): Promise<PaginatedResult<IssueReference>> {
+  const items: IssueReference[] = [];
+  for (const issueNumber of issueNumbers ?? []) {
+    items.push(await client.getIssue(owner, repo, issueNumber));
+  }
+
+  if (parentIssueNumber === undefined) {
+    return { items, truncated: false };
+  }
+
+  const subIssues = await client.listSubIssues(owner, repo, parentIssueNumber);
+  return { items: [...items, ...subIssues.items], truncated: subIssues.truncated };
+}
+
+/** Starts every dry-run report, so it cannot be mistaken for a change. */
+const DRY_RUN_PREFIX = "Dry run, nothing changed: ";
+
+/**
+ * Name a resolved issue, using `known` (issues listed while checking) when
+ * it was given as a bare issue ID.
+ */
+function describeResolvedIssue(
+  resolved: ResolvedIssue,
+  known: IssueReference[],
+  base: { owner: string; repo: string }
+): string {
+  const issue = resolved.issue ?? known.find((item) => item.id === resolved.id);
+  return issue ? formatIssueRef(issue, base) : `issue ID ${resolved.id}`;
+}
+
+/**
+ * Error text for a dependency that would close a cycle.
+ */
+function formatCycleError(cycle: DependencyGraphNode[], base: { owner: string; repo: string }): string {
+  return `Adding this dependency would create a cycle: ` +
+    `${formatCycle(cycle, base)} (→ means "is blocked by"). ` +
+    `Remove one of the existing dependencies in the cycle first.`;
+}
+
+/** Appended to reports of dependency writes whose cycle check was cut short. */
+const INCOMPLETE_CYCLE_CHECK_WARNING = " Warning: the dependency graph was too large to check completely for cycles.";
+
+/**
+ * Add a blocking dependency unless it would close a cycle, in which case
+ * nothing is written and the cycle is returned.
+ */
+async function addCheckedDependency(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  blockingRef: IssueRefInput,
+  dryRun = false
+): Promise<{ cycle: DependencyGraphNode[] | null; message: string }> {
+  const blocking = await resolveIssue(client, blockingRef, owner, repo);
+  const blockingIssueId = blocking.id;
+
+  let blockingLabel = "";
+  if (dryRun) {
+    await client.checkRelationshipWrite(owner, repo, blockingIssueId, issueLocation(blocking));
+    const blockers = await client.getBlockedBy(owner, repo, issueNumber);
+    blockingLabel = describeResolvedIssue(blocking, blockers.items, { owner, repo });
+    if (blockers.items.some((blocker) => blocker.id === blockingIssueId)) {
+      throw new Error(`${DRY_RUN_PREFIX}#${issueNumber} is already blocked by ${blockingLabel}; adding it again would fail.`);
+    }
+  }
+
+  const cycleCheck = await checkNewDependencyForCycle(
+    client,
+    { owner, repo, issueNumber },
+    blockingIssueId,
+    { maxDepth: MAX_GRAPH_DEPTH, maxNodes: MAX_GRAPH_NODES }
+  );
+
+  if (cycleCheck.cycle) {
+    return { cycle: cycleCheck.cycle, message: formatCycleError(cycleCheck.cycle, { owner, repo }) };
+  }
+
+  const warning = cycleCheck.complete ? "" : INCOMPLETE_CYCLE_CHECK_WARNING;
+
+  if (dryRun) {
+    return {
+      cycle: null,
+      message: `${DRY_RUN_PREFIX}#${issueNumber} would be marked as blocked by ${blockingLabel}.${warning}`,
+    };
+  }
+
+  const result = await client.addBlockingDependency(owner, repo, issueNumber, blockingIssueId, issueLocation(blocking));
+
+  return { cycle: null, message: result.message + warning };
+}
+
+/**
+ * Refuse an undo whose writes would re-add a dependency that now closes a
+ * cycle, as adding it directly would. Returns a warning if a check was cut
+ * short.
+ */
+async function checkUndoForCycles(client: GitHubClient, writes: JournalWrite[]): Promise<string> {
+  let warning = "";
+  for (const write of writes) {
+    if (write.kind !== "add_blocking_dependency") {
+      continue;
+    }
+    const { owner, repo, issueNumber } = write;
+    const cycleCheck = await checkNewDependencyForCycle(
+      client,
+      { owner, repo, issueNumber },
+      write.blockingIssueId,
+      { maxDepth: MAX_GRAPH_DEPTH, maxNodes: MAX_GRAPH_NODES }
+    );
+    if (cycleCheck.cycle) {
+      throw new Error(formatCycleError(cycleCheck.cycle, { owner, repo }));
+    }
+    if (!cycleCheck.complete) {
+      warning = INCOMPLETE_CYCLE_CHECK_WARNING;
+    }
+  }
+  return warning;
+}
+
+/**
+ * Check that a blocking dependency exists and describe removing it.
+ */
+async function planRemoveBlockingDependency(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  blockingRef: IssueRefInput
+): Promise<string> {
+  const blocking = await resolveIssue(client, blockingRef, owner, repo);
+  const blockers = await client.getBlockedBy(owner, repo, issueNumber);
+  await client.checkRelationshipWrite(owner, repo, blocking.id, issueLocation(blocking), blockers.items);
+  const label = describeResolvedIssue(blocking, blockers.items, { owner, repo });
+
+  if (!blockers.items.some((blocker) => blocker.id === blocking.id)) {
+    if (blockers.truncated) {
+      return `${DRY_RUN_PREFIX}${label} would no longer block #${issueNumber}. ` +
+        `It is not among the first ${blockers.items.length} blockers, so this could not be confirmed.`;
+    }
+    throw new Error(`${DRY_RUN_PREFIX}#${issueNumber} is not blocked by ${label}, so there is nothing to remove.`);
+  }
+
+  return `${DRY_RUN_PREFIX}${label} would no longer block #${issueNumber}.`;
+}
+
+/**
+ * Check the current parent of an issue and describe adding it as a sub-issue.
+ * Like the write, a move needs write access to the parent it leaves.
+ */
+async function planAddSubIssue(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  parentIssueNumber: number,
+  subIssueRef: IssueRefInput,
+  replaceParent: boolean
+): Promise<string> {
+  const base = { owner, repo };
+  const sub = await resolveIssue(client, subIssueRef, owner, repo);
+  const location = issueLocation(sub);
+  await client.checkRelationshipWrite(owner, repo, sub.id, location);
+  const siblings = await client.listSubIssues(owner, repo, parentIssueNumber);
+  const label = describeResolvedIssue(sub, siblings.items, base);
+
+  if (siblings.items.some((item) => item.id === sub.id)) {
+    throw new Error(`${DRY_RUN_PREFIX}${label} is already a sub-issue of #${parentIssueNumber}.`);
+  }
+
+  const position = `sub-issue ${siblings.items.length + 1} of #${parentIssueNumber}`;
+  if (!location) {
+    return `${DRY_RUN_PREFIX}${label} would be added as ${position}. ` +
+      `Its current parent could not be checked from an issue ID; if it has one, ` +
+      (replaceParent ? "it would be moved from there." : "adding fails unless replace_parent is true.");
+  }
+
+  const currentParent = await client.getParentIssue(location.owner, location.repo, location.issueNumber);
+  if (!currentParent) {
+    return `${DRY_RUN_PREFIX}${label} would be added as ${position}.`;
+  }
+
+  const parentLabel = formatIssueRef(currentParent, base);
+  if (!replaceParent) {
+    throw new Error(
+      `${DRY_RUN_PREFIX}${label} already has parent ${parentLabel}; ` +
+        `set replace_parent=true to move it to #${parentIssueNumber}.`
+    );
+  }
+  client.checkSubIssueMove(sub.id, parseIssueUrl(currentParent.html_url) ?? undefined);
+  return `${DRY_RUN_PREFIX}${label} would be moved from parent ${parentLabel} and added as ${position}.`;
+}
+
+/**
+ * Check that an issue is a sub-issue of the parent and describe removing it.
+ */
+async function planRemoveSubIssue(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  parentIssueNumber: number,
+  subIssueRef: IssueRefInput
+): Promise<string> {
+  const sub = await resolveIssue(client, subIssueRef, owner, repo);
+  const subIssues = await client.listSubIssues(owner, repo, parentIssueNumber);
+  await client.checkRelationshipWrite(owner, repo, sub.id, issueLocation(sub), subIssues.items);
+  const label = describeResolvedIssue(sub, subIssues.items, { owner, repo });
+
+  if (!subIssues.items.some((item) => item.id === sub.id)) {
+    throw new Error(`${DRY_RUN_PREFIX}${label} is not a sub-issue of #${parentIssueNumber}.`);
+  }
+  return `${DRY_RUN_PREFIX}${label} would be removed from #${parentIssueNumber} and become a standalone issue.`;
+}
+
+/**
+ * Check both sub-issues and describe the position a reprioritization would
+ * give the moved one.
+ */
+async function planReprioritizeSubIssue(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  parentIssueNumber: number,
+  subIssueRef: IssueRefInput,
+  anchor: { ref: IssueRefInput; placement: "after" | "before" }
+): Promise<string> {
+  const base = { owner, repo };
+  const sub = await resolveIssue(client, subIssueRef, owner, repo);
+  const target = await resolveIssue(client, anchor.ref, owner, repo);
+  const subIssues = await client.listSubIssues(owner, repo, parentIssueNumber);
+  await client.checkRelationshipWrite(owner, repo, sub.id, issueLocation(sub), subIssues.items);
+  const label = describeResolvedIssue(sub, subIssues.items, base);
+  const targetLabel = describeResolvedIssue(target, subIssues.items, base);
+
+  const ids = subIssues.items.map((item) => item.id);
+  for (const [issue, issueLabel] of [[sub, label], [target, targetLabel]] as const) {
+    if (!ids.includes(issue.id)) {
+      throw new Error(`${DRY_RUN_PREFIX}${issueLabel} is not a sub-issue of #${parentIssueNumber}.`);
+    }
+  }
+  if (sub.id === target.id) {
+    throw new Error(`${DRY_RUN_PREFIX}a sub-issue cannot be placed ${anchor.placement} itself.`);
+  }
+
+  const from = ids.indexOf(sub.id);
+  const reordered = ids.filter((id) => id !== sub.id);
+  const to = reordered.indexOf(target.id) + (anchor.placement === "after" ? 1 : 0);
+  if (to === from) {
+    return `${DRY_RUN_PREFIX}${label} is already ${anchor.placement} ${targetLabel}; nothing would change.`;
+  }
+  return `${DRY_RUN_PREFIX}${label} would move from position ${from + 1} to ${to + 1} of ${ids.length} ` +
+    `under #${parentIssueNumber} (${anchor.placement} ${targetLabel}).`;
+}
+
+/**
+ * Pair each batch item with its outcome.
+ */
+function toBatchResults<T extends object>(
+  items: T[],
+  outcomes: BatchOutcome<string>[]
+): Array<T & { success: boolean; message: string }> {
+  return items.map((item, index) => {
+    const outcome = outcomes[index];
+    return outcome.ok
+      ? { ...item, success: true, message: outcome.value }
+      : { ...item, success: false, message: outcome.error };
+  });
+}
+
+/**
+ * Reports a tool's progress to the client. `progress` grows over a call;
+ * `total` is left out when it is not known in advance.
+ */
+type ReportProgress = (progress: number, total?: number, message?: string) => void;
+
+/** An issue resource's markdown, and the issue's title when it was fetched. */
+type RenderedIssueResource = { text: string; title?: string };
+
+type RenderIssueResource = (issue: IssueIdentifier) => Promise<RenderedIssueResource>;
+
+/**
+ * Wrap a batch task so that every finished item, failed or not, reports
+ * progress.
+ */
+function reportEachItem<T, R>(
+  items: T[],
+  report: ReportProgress,
+  task: (item: T) => Promise<R>
+): (item: T) => Promise<R> {
+  let finished = 0;
+  return async (item) => {
+    try {
+      return await task(item);
+    } finally {
+      finished++;
+      report(finished, items.length, `${finished} of ${items.length} item(s) done`);
+    }
+  };
+}
+
+/**
+ * Build the response of a batch tool: a per-item report that is only an
+ * error when no item succeeded.
+ */
+function formatBatchResponse<T extends object>(
+  title: string,
+  results: Array<T & { success: boolean; message: string }>,
+  format: ResponseFormatType,
+  label: (item: T) => string
+) {
+  const succeeded = results.filter((result) => result.success).length;
+  const output = { results, succeeded, failed: results.length - succeeded };
+
+  const { text, structuredContent } = formatResponse(output, format, (data) => {
+    const header = `# ${title}\n\n`;
+    const summary = `${data.succeeded} succeeded, ${data.failed} failed.\n\n`;
+    const list = data.results
+      .map((result) => `- [${result.success ? "ok" : "failed"}] ${label(result)}: ${result.message}`)
+      .join("\n");
+    return header + summary + list;
+  });
+
+  return {
+    content: [{ type: "text" as const, text }],
+    structuredContent,
+    ...(succeeded === 0 ? { isError: true } : {}),
   };
 }
 
 /**
- * Create and configure the MCP server.
+ * The process-wide credentials: the GitHub App when configured, otherwise
+ * GITHUB_TOKEN.
+ */
+export function createProcessAuth(config: Config): string | GitHubAppAuth | undefined {
+  return config.githubApp ? new GitHubAppAuth(config.githubApp, config.githubApiBaseUrl) : config.githubToken;
+}
+
+/** Journals by file ("" for in-memory), shared by every client of the process. */
+const journals = new Map<string, ChangeJournal>();
+
+function journalFor(config: Config): ChangeJournal {
+  const key = config.journalFile ?? "";
+  let journal = journals.get(key);
+  if (!journal) {
+    journal = new ChangeJournal({ file: config.journalFile, maxEntries: config.journalMaxEntries });
+    journals.set(key, journal);
+  }
+  return journal;
+}
+
+/**
+ * Create a GitHub client for a token or GitHub App, with the other settings
+ * from the loaded configuration. Clients share the change journal, which
+ * keeps each credential's changes apart.
+ */
+export function createGitHubClient(config: Config, auth: string | GitHubAppAuth): GitHubClient {
+  return new GitHubClient(
+    auth,
+    config.githubApiBaseUrl,
+    {
+      maxListItems: config.maxListItems,
+      batchConcurrency: config.batchConcurrency,
+      maxRetries: config.maxRetries,
+      maxConcurrentRequests: config.maxConcurrentRequests,
+      cacheTtlSeconds: config.cacheTtlSeconds,
+      cacheMaxEntries: config.cacheMaxEntries,
+      cacheDir: config.cacheDir,
+      repositoryPolicy: config.readRepositories || config.writeRepositories
+        ? new RepositoryPolicy({ read: config.readRepositories, write: config.writeRepositories })
+        : undefined,
+      journal: journalFor(config),
+    }
+  );
+}
+
+/**
+ * Client for the process-wide credentials, as used over stdio.
  */
-export function createServer(): McpServer {
-  // Load configuration
+function createDefaultGitHubClient(): GitHubClient {
   const config = loadConfig();
+  // loadConfig has made sure a token or GitHub App is configured
+  return createGitHubClient(config, createProcessAuth(config)!);
+}
+
+/** Audit logs by destination, shared by every server of the process. */
+const auditLogs = new Map<string, AuditLog>();
+
+function auditLogFor(settings: ToolSettings): AuditLog | null {
+  if (!settings.auditLog) {
+    return null;
+  }
+  let auditLog = auditLogs.get(settings.auditLog);
+  if (!auditLog) {
+    auditLog = new AuditLog({
+      destination: settings.auditLog,
+      maxBytes: settings.auditLogMaxBytes,
+      maxFiles: settings.auditLogMaxFiles,
+    });
+    auditLogs.set(settings.auditLog, auditLog);
+  }
+  return auditLog;
+}
+
+/**
+ * Which tools the server registers, whether mutating tools only report what
+ * they would change, where tool calls are audited, and how often subscribed
+ * resources are polled.
+ */
+export type ToolSettings = Pick<
+  Config,
+  | "readOnly"
+  | "allowedTools"
+  | "deniedTools"
+  | "dryRun"
+  | "auditLog"
+  | "auditLogMaxBytes"
+  | "auditLogMaxFiles"
+  | "subscriptionPollSeconds"
+>;
+
+/**
+ * Create and configure the MCP server. The HTTP transport passes each session
+ * the client for its token, shared with other sessions using the same token.
+ *
+ * Tools excluded by `toolSettings` are never registered, so clients cannot list
+ * or call them. With `dryRun` set, mutating tools behave as if every call
+ * passed dry_run=true.
+ */
+export function createServer(
+  githubClient: GitHubClient = createDefaultGitHubClient(),
+  toolSettings: ToolSettings = loadConfig()
+): McpServer {
+  validateToolSettings(toolSettings);
+
+  // Create MCP server
+  const server = new McpServer({
+    name: "github-issues-mcp-server",
+    version: "1.0.0",
+  });
+
+  const allowedTools = toolSettings.allowedTools && new Set(toolSettings.allowedTools);
+  const isDryRun = (params: { dry_run?: boolean }) => Boolean(toolSettings.dryRun || params.dry_run);
+  const deniedTools = new Set(toolSettings.deniedTools);
+  const registeredTools = new Set<string>();
+  const auditLog = auditLogFor(toolSettings);
+
+  /** Issues read through tools or resources, least recent first, by issue resource URI. */
+  const recentIssues = new Map<string, IssueIdentifier & { title?: string }>();
+  const rememberIssue = (owner: string, repo: string, issueNumber: number, title?: string): void => {
+    const uri = issueResourceUri(owner, repo, issueNumber);
+    title ??= recentIssues.get(uri)?.title;
+    recentIssues.delete(uri);
+    recentIssues.set(uri, { owner, repo, issueNumber, title });
+    if (recentIssues.size > MAX_RECENT_ISSUES) {
+      recentIssues.delete(recentIssues.keys().next().value!);
+    }
+  };
+
+  /**
+   * Progress notifications for a tool call, sent only when the client asked
+   * for them with a progress token. Failures to send are ignored.
+   */
+  const progressReporter = (extra: RequestHandlerExtra<ServerRequest, ServerNotification>): ReportProgress => {
+    const progressToken = extra._meta?.progressToken;
+    if (progressToken === undefined) {
+      return () => {};
+    }
+    return (progress, total, message) => {
+      extra
+        .sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress, ...(total !== undefined && { total }), ...(message && { message }) },
+        })
+        .catch(() => {});
+    };
+  };
+
+  /**
+   * Register a tool whose failures are reported as tool errors. GitHub API
+   * errors carry an actionable message and the GitHub request ID. Tools the
+   * filter excludes are skipped. With an audit log, every call is recorded.
+   * The issue a successful call names is listed among the recent issue
+   * resources. Handlers report progress through `progress`; once the client
+   * cancels a call, its GitHub requests are aborted and no new ones are made.
+   */
+  const registerTool = <Schema extends AnySchema>(
+    name: ToolName,
+    config: {
+      title: string;
+      description: string;
+      inputSchema: Schema;
+      annotations: typeof READ_ONLY_ANNOTATIONS;
+    },
+    handler: (params: SchemaOutput<Schema>, progress: ReportProgress) => Promise<CallToolResult>
+  ) => {
+    const run = async (params: SchemaOutput<Schema>, progress: ReportProgress): Promise<CallToolResult> => {
+      try {
+        const result = await handler(params, progress);
+        const { owner, repo, issue_number } = params as Record<string, unknown>;
+        if (!result.isError && typeof owner === "string" && typeof repo === "string" && typeof issue_number === "number") {
+          rememberIssue(owner, repo, issue_number);
+        }
+        return result;
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Error: ${formatErrorMessage(error)}` }],
+          isError: true,
+        };
+      }
+    };
+    // ToolCallback<Schema> stays unresolved for a generic Schema; the SDK has
+    // already parsed the arguments with config.inputSchema
+    const callback: ToolCallback<AnySchema> = async (
+      params: SchemaOutput<Schema>,
+      extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+    ): Promise<CallToolResult> => {
+      const progress = progressReporter(extra);
+      const call = () => githubClient.withSignal(extra.signal, () => run(params, progress));
+      if (!auditLog) {
+        return call();
+      }
+
+      const started = Date.now();
+      const requestIds: string[] = [];
+      const result = await githubClient.collectRequestIds(requestIds, call);
+      const args = params as Record<string, unknown>;
+      const clientInfo = server.server.getClientVersion();
+      auditLog.write({
+        timestamp: new Date(started).toISOString(),
+        tool: name,
+        arguments: redactSecrets(params),
+        repository: typeof args.owner === "string" && typeof args.repo === "string"
+          ? `${args.owner}/${args.repo}`
+          : null,
+        dry_run: !config.annotations.readOnlyHint && isDryRun(args),
+        outcome: result.isError ? "error" : "success",
+        ...(result.isError && {
+          error: result.content.map((item) => (item.type === "text" ? item.text : "")).join("\n"),
+        }),
+        github_request_ids: requestIds,
+        duration_ms: Date.now() - started,
+        credentials: githubClient.scope,
+        client: clientInfo ? `${clientInfo.name}/${clientInfo.version}` : null,
+        session_id: extra.sessionId ?? null,
+      });
+      return result;
+    };
+    if (
+      (toolSettings.readOnly && !config.annotations.readOnlyHint) ||
+      (allowedTools && !allowedTools.has(name)) ||
+      deniedTools.has(name)
+    ) {
+      return;
+    }
+    registeredTools.add(name);
+    server.registerTool<AnySchema, AnySchema>(name, config, callback);
+  };
+
+  // ==================== Issue Tools ====================
+
+  // Schema for get_issue
+  const GetIssueInputSchema = z.object({
+    owner: z.string().describe("Repository owner (username or organization)"),
+    repo: z.string().describe("Repository name"),
+    issue_number: z.number().int().positive().describe("Issue number"),
+    response_format: ResponseFormat.default("markdown")
+      .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+  });
+
+  registerTool(
+    "github_get_issue",
+    {
+      title: "Get Issue",
+      description: `Get the details of a single issue.
+
+Returns the issue's ID (needed by GitHub's relationship APIs), state, labels,
+assignees, milestone, body, and sub-issue progress.
+
+Args:
+  - owner (string): Repository owner (user or organization)
+  - repo (string): Repository name
+  - issue_number (number): The issue number to fetch
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  For JSON format:
+  {
+    "issue": {
+      "id": number, "number": number, "title": string, "state": "open"|"closed",
+      "state_reason": "completed"|"reopened"|"not_planned"|"duplicate"|null,
+      "html_url": string, "body": string|null, "closed_at": string|null,
+      "labels": [{ "name": string, "color": string|null, "description": string|null }],
+      "assignees": [{ "login": string }],
+      "milestone": { "number": number, "title": string, "state": "open"|"closed", "due_on": string|null, "html_url": string } | null,
+      "sub_issues_summary": { "total": number, "completed": number, "percent_completed": number } | null,
+      ...
+    }
+  }
+
+  For Markdown format: The issue's fields as a bulleted summary followed by its description.
+
+Examples:
+  - "Show me issue #42" → github_get_issue(owner="org", repo="project", issue_number=42)
+  - "How far along is epic #50?" → Check sub_issues_summary in the result
+
+Error Handling:
+  - Returns "Issue not found" for invalid issue numbers (404)
+  - Returns "Repository not found" for invalid owner/repo
+  - Returns "Rate limit exceeded" if GitHub API limits hit`,
+      inputSchema: GetIssueInputSchema,
+      annotations: READ_ONLY_ANNOTATIONS,
+    },
+    async (params) => {
+      const issue = await githubClient.getIssue(
+        params.owner,
+        params.repo,
+        params.issue_number
+      );
+      rememberIssue(params.owner, params.repo, params.issue_number, issue.title);
+
+      const { text, structuredContent } = formatResponse(
+        { issue },
+        params.response_format,
+        (data) => formatIssueDetailAsMarkdown(data.issue)
+      );
+
+      return {
+        content: [{ type: "text" as const, text }],
+        structuredContent,
+      };
+    }
+  );
+
+  // ==================== Dependency Tools ====================
+
+  // Schema for get_blocked_by and get_blocking
+  const GetDependenciesInputSchema = z.object({
+    owner: z.string().describe("Repository owner (username or organization)"),
+    repo: z.string().describe("Repository name"),
+    issue_number: z.number().int().positive().describe("Issue number"),
+    limit: z.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE)
+      .describe("Maximum number of results to return (1-100)"),
+    offset: z.number().int().min(0).default(0)
+      .describe("Number of results to skip for pagination"),
+    response_format: ResponseFormat.default("markdown")
+      .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+  });
+
+  registerTool(
+    "github_get_blocked_by",
+    {
+      title: "Get Blocking Issues",
+      description: `Get issues that are blocking a specific issue.
+
+Retrieves all issues that must be resolved before the specified issue can proceed.
+Uses GitHub's issue dependencies API.
+
+Args:
+  - owner (string): Repository owner (user or organization)
+  - repo (string): Repository name
+  - issue_number (number): The issue number to check
+  - limit (number): Maximum results to return, 1-100 (default: 20)
+  - offset (number): Number of results to skip for pagination (default: 0)
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  For JSON format:
+  {
+    "blocked_by": [{ "id": number, "number": number, "title": string, "state": "open"|"closed", "html_url": string }],
+    "count": number,
+    "total": number,
+    "offset": number,
+    "has_more": boolean,
+    "next_offset": number (if has_more),
+    "truncated": boolean (true if GITHUB_MAX_LIST_ITEMS was reached; total is then a lower bound),
+    "issue_number": number
+  }
+
+  For Markdown format: A formatted list of blocking issues with links.
+
+Examples:
+  - "What's blocking issue #42?" → github_get_blocked_by(owner="org", repo="project", issue_number=42)
+  - "Show blockers for the auth bug" → First find issue number, then call this tool
+
+Error Handling:
+  - Returns "Issue not found" for invalid issue numbers (404)
+  - Returns "Repository not found" for invalid owner/repo
+  - Returns "Rate limit exceeded" if GitHub API limits hit`,
+      inputSchema: GetDependenciesInputSchema,
+      annotations: READ_ONLY_ANNOTATIONS,
+    },
+    async (params) => {
+      const allIssues = await githubClient.getBlockedBy(
+        params.owner,
+        params.repo,
+        params.issue_number
+      );
+
+      const { items: issues, ...pagination } = applyPagination(
+        allIssues,
+        params.offset,
+        params.limit
+      );
+
+      const output = {
+        blocked_by: issues,
+        ...pagination,
+        issue_number: params.issue_number,
+      };
+
+      if (allIssues.items.length === 0) {
+        const text = `Issue #${params.issue_number} in ${params.owner}/${params.repo} is not blocked by any issues.`;
+        return {
+          content: [{ type: "text" as const, text }],
+          structuredContent: output,
+        };
+      }
+
+      const { text, structuredContent } = formatResponse(
+        output,
+        params.response_format,
+        (data) => {
+          const header = `# Blocking Issues for #${params.issue_number}\n\n`;
+          const summary = `Found ${data.total} blocking issue(s)${data.has_more ? ` (showing ${data.count})` : ""}:\n\n`;
+          const list = formatIssueListAsMarkdown(data.blocked_by);
+          const pagination = data.has_more ? `\n\n*More results available. Use offset=${data.next_offset} to see next page.*` : "";
+          return header + summary + list + pagination + formatTruncationNotice(data.truncated);
+        }
+      );
+
+      return {
+        content: [{ type: "text" as const, text }],
+        structuredContent,
+      };
+    }
+  );
+
+  registerTool(
+    "github_get_blocking",
+    {
+      title: "Get Blocked Issues",
+      description: `Get issues that a specific issue is blocking.
+
+Retrieves all issues that are waiting for the specified issue to be resolved.
+Uses GitHub's issue dependencies API.
+
+Args:
+  - owner (string): Repository owner (user or organization)
+  - repo (string): Repository name
+  - issue_number (number): The issue number to check
+  - limit (number): Maximum results to return, 1-100 (default: 20)
+  - offset (number): Number of results to skip for pagination (default: 0)
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  For JSON format:
+  {
+    "blocking": [{ "id": number, "number": number, "title": string, "state": "open"|"closed", "html_url": string }],
+    "count": number,
+    "total": number,
+    "offset": number,
+    "has_more": boolean,
+    "next_offset": number (if has_more),
+    "truncated": boolean (true if GITHUB_MAX_LIST_ITEMS was reached; total is then a lower bound),
+    "issue_number": number
+  }
+
+  For Markdown format: A formatted list of blocked issues with links.
+
+Examples:
+  - "What issues depend on #42?" → github_get_blocking(owner="org", repo="project", issue_number=42)
+  - "What's waiting on this fix?" → Call with the issue number
+
+Error Handling:
+  - Returns "Issue not found" for invalid issue numbers (404)
+  - Returns "Repository not found" for invalid owner/repo
+  - Returns "Rate limit exceeded" if GitHub API limits hit`,
+      inputSchema: GetDependenciesInputSchema,
+      annotations: READ_ONLY_ANNOTATIONS,
+    },
+    async (params) => {
+      const allIssues = await githubClient.getBlocking(
+        params.owner,
+        params.repo,
+        params.issue_number
+      );
+
+      const { items: issues, ...pagination } = applyPagination(
+        allIssues,
+        params.offset,
+        params.limit
+      );
+
+      const output = {
+        blocking: issues,
+        ...pagination,
+        issue_number: params.issue_number,
+      };
+
+      if (allIssues.items.length === 0) {
+        const text = `Issue #${params.issue_number} in ${params.owner}/${params.repo} is not blocking any issues.`;
+        return {
+          content: [{ type: "text" as const, text }],
+          structuredContent: output,
+        };
+      }
+
+      const { text, structuredContent } = formatResponse(
+        output,
+        params.response_format,
+        (data) => {
+          const header = `# Issues Blocked by #${params.issue_number}\n\n`;
+          const summary = `Blocking ${data.total} issue(s)${data.has_more ? ` (showing ${data.count})` : ""}:\n\n`;
+          const list = formatIssueListAsMarkdown(data.blocking);
+          const pagination = data.has_more ? `\n\n*More results available. Use offset=${data.next_offset} to see next page.*` : "";
+          return header + summary + list + pagination + formatTruncationNotice(data.truncated);
+        }
+      );
+
+      return {
+        content: [{ type: "text" as const, text }],
+        structuredContent,
+      };
+    }
+  );
+
+  // Schema for add/remove dependency
+  const DependencyModifyInputSchema = z.object({
+    owner: z.string().describe("Repository owner (username or organization)"),
+    repo: z.string().describe("Repository name"),
+    issue_number: z.number().int().positive().describe("Issue number"),
+    blocking_issue_id: IssueRef
+      .describe(`The issue that blocks this issue: ${ISSUE_REF_FORMS}`),
+    dry_run: DryRun,
+  });
+
+  registerTool(
+    "github_add_blocking_dependency",
+    {
+      title: "Add Blocking Dependency",
+      description: `Add a blocking dependency to an issue.
+
+Marks that the specified issue is blocked by another issue. The blocking issue
+must be resolved before the blocked issue can proceed.
+
+Before writing, the issues already waiting on issue_number are walked (up to
+${MAX_GRAPH_DEPTH} hops). If the blocking issue is among them, the new dependency
+would create a cycle and the tool refuses, reporting the cycle path.
+
+Args:
+  - owner (string): Repository owner (user or organization)
+  - repo (string): Repository name
+  - issue_number (number): The issue number to mark as blocked
+  - blocking_issue_id (number | string): The blocking issue, as an issue ID, "#123",
+    "owner/repo#123", or an issue URL. Numbers and URLs are resolved to the ID for you.
+  - dry_run (boolean): Check the change and report it without making it (default: false)
+
+Returns:
+  Success message confirming the dependency was added, or with dry_run the
+  dependency that would be added.
+
+Examples:
+  - "Issue #5 is blocked by #3" → github_add_blocking_dependency(owner="org", repo="project", issue_number=5, blocking_issue_id="#3")
+  - "Issue #5 is blocked by issue ID 12345" → github_add_blocking_dependency(owner="org", repo="project", issue_number=5, blocking_issue_id=12345)
+  - "Would blocking #5 on #3 cause a cycle?" → github_add_blocking_dependency(..., issue_number=5, blocking_issue_id="#3", dry_run=true)
+
+Error Handling:
+  - Returns error if issue doesn't exist (404)
+  - Returns error if dependency already exists (422)
+  - Returns error with the cycle path if the dependency would create a cycle
+  - Returns "Permission denied" if token lacks write access (403)
+  - With dry_run, returns these errors (except permission) without writing anything`,
+      inputSchema: DependencyModifyInputSchema,
+      annotations: WRITE_ANNOTATIONS,
+    },
+    async (params) => {
+      const result = await addCheckedDependency(
+        githubClient,
+        params.owner,
+        params.repo,
+        params.issue_number,
+        params.blocking_issue_id,
+        isDryRun(params)
+      );
+
+      if (result.cycle) {
+        return {
+          content: [{ type: "text" as const, text: `Error: ${result.message}` }],
+          isError: true,
+        };
+      }
+
+      return {
+        content: [{ type: "text" as const, text: result.message }],
+      };
+    }
+  );
+
+  registerTool(
+    "github_remove_blocking_dependency",
+    {
+      title: "Remove Blocking Dependency",
+      description: `Remove a blocking dependency from an issue.
+
+Removes the 'blocked by' relationship between two issues. The previously
+blocked issue will no longer wait for the blocking issue.
+
+Args:
+  - owner (string): Repository owner (user or organization)
+  - repo (string): Repository name
+  - issue_number (number): The issue number to unblock
+  - blocking_issue_id (number | string): The blocking issue to remove, as an issue ID,
+    "#123", "owner/repo#123", or an issue URL
+  - dry_run (boolean): Check the change and report it without making it (default: false)
+
+Returns:
+  Success message confirming the dependency was removed, or with dry_run the
+  dependency that would be removed.
+
+Examples:
+  - "Remove blocker #3 from #5" → github_remove_blocking_dependency(owner="org", repo="project", issue_number=5, blocking_issue_id="#3")
+  - "Remove blocker issue ID 12345 from #5" → github_remove_blocking_dependency(owner="org", repo="project", issue_number=5, blocking_issue_id=12345)
+
+Error Handling:
+  - Returns error if issue doesn't exist (404)
+  - Returns error if dependency doesn't exist (404)
+  - Returns "Permission denied" if token lacks write access (403)
+  - With dry_run, returns these errors (except permission) without writing anything`,
+      inputSchema: DependencyModifyInputSchema,
+      annotations: DELETE_ANNOTATIONS,
+    },
+    async (params) => {
+      if (isDryRun(params)) {
+        const plan = await planRemoveBlockingDependency(
+          githubClient,
+          params.owner,
+          params.repo,
+          params.issue_number,
+          params.blocking_issue_id
+        );
+        return { content: [{ type: "text" as const, text: plan }] };
+      }
+
+      const blockingIssueId = await resolveIssueId(
+        githubClient,
+        params.blocking_issue_id,
+        params.owner,
+        params.repo
+      );
+
+      const result = await githubClient.removeBlockingDependency(
+        params.owner,
+        params.repo,
+        params.issue_number,
+        blockingIssueId
+      );
+
+      return {
+        content: [{ type: "text" as const, text: result.message }],
+      };
+    }
+  );
+
+  // Schema for add/remove_blocking_dependencies
+  const DependencyBatchInputSchema = z.object({
+    owner: z.string().describe("Repository owner (username or organization)"),
+    repo: z.string().describe("Repository name"),
+    dependencies: z.array(z.object({
+      issue_number: z.number().int().positive().describe("The blocked issue number"),
+      blocking_issue_id: IssueRef.describe(`The blocking issue: ${ISSUE_REF_FORMS}`),
+    })).min(1).max(MAX_BATCH_SIZE)
+      .describe(`Dependencies to change (1-${MAX_BATCH_SIZE})`),
+    response_format: ResponseFormat.default("markdown")
+      .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+  });
+
+  const formatDependencyItem = (item: { issue_number: number; blocking_issue_id: IssueRefInput }) =>
+    `#${item.issue_number} blocked by ${item.blocking_issue_id}`;
+
+  registerTool(
+    "github_add_blocking_dependencies",
+    {
+      title: "Add Blocking Dependencies",
+      description: `Add several blocking dependencies in one call.
+
+Each dependency is checked for cycles and added exactly like
+github_add_blocking_dependency. Dependencies are added one at a time, so each
+cycle check sees the ones added before it. A failing dependency does not stop
+the rest; the result reports each one.
+
+Args:
+  - owner (string): Repository owner (user or organization)
+  - repo (string): Repository name
+  - dependencies (array): Up to ${MAX_BATCH_SIZE} items of
+    { issue_number: number, blocking_issue_id: number | string }, where
+    blocking_issue_id is an issue ID, "#123", "owner/repo#123", or an issue URL
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  For JSON format:
+  {
+    "results": [{ "issue_number": number, "blocking_issue_id": number|string, "success": boolean, "message": string }],
+    "succeeded": number,
+    "failed": number
+  }
+
+  For Markdown format: One line per dependency marked [ok] or [failed].
+
+Examples:
+  - "#5 and #6 are both blocked by #3" → github_add_blocking_dependencies(owner="org", repo="project",
+    dependencies=[{issue_number: 5, blocking_issue_id: "#3"}, {issue_number: 6, blocking_issue_id: "#3"}])
+
+Error Handling:
+  - Reports per-item errors (not found, already exists, would create a cycle, permission denied)
+  - In dry-run mode (MCP_DRY_RUN), checks each item and reports the planned change instead
+  - Returns an error result only if every dependency failed`,
+      inputSchema: DependencyBatchInputSchema,
+      annotations: WRITE_ANNOTATIONS,
+    },
+    async (params, progress) => {
+      const outcomes = await githubClient.runBatch(
+        params.dependencies,
+        reportEachItem(params.dependencies, progress, async (item) => {
+          const result = await addCheckedDependency(
+            githubClient,
+            params.owner,
+            params.repo,
+            item.issue_number,
+            item.blocking_issue_id,
+            toolSettings.dryRun
+          );
+          if (result.cycle) {
+            throw new Error(result.message);
+          }
+          return result.message;
+        }),
+        1
+      );
+
+      return formatBatchResponse(
+        "Add Blocking Dependencies",
+        toBatchResults(params.dependencies, outcomes),
+        params.response_format,
+        formatDependencyItem
+      );
+    }
+  );
+
+  registerTool(
+    "github_remove_blocking_dependencies",
+    {
+      title: "Remove Blocking Dependencies",
+      description: `Remove several blocking dependencies in one call.
+
+Removes each dependency like github_remove_blocking_dependency, several at a
+time. A failing dependency does not stop the rest; the result reports each one.
+
+Args:
+  - owner (string): Repository owner (user or organization)
+  - repo (string): Repository name
+  - dependencies (array): Up to ${MAX_BATCH_SIZE} items of
+    { issue_number: number, blocking_issue_id: number | string }, where
+    blocking_issue_id is an issue ID, "#123", "owner/repo#123", or an issue URL
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  For JSON format:
+  {
+    "results": [{ "issue_number": number, "blocking_issue_id": number|string, "success": boolean, "message": string }],
+    "succeeded": number,
+    "failed": number
+  }
+
+  For Markdown format: One line per dependency marked [ok] or [failed].
+
+Examples:
+  - "#3 no longer blocks #5 or #6" → github_remove_blocking_dependencies(owner="org", repo="project",
+    dependencies=[{issue_number: 5, blocking_issue_id: "#3"}, {issue_number: 6, blocking_issue_id: "#3"}])
+
+Error Handling:
+  - Reports per-item errors (not found, dependency doesn't exist, permission denied)
+  - In dry-run mode (MCP_DRY_RUN), checks each item and reports the planned change instead
+  - Returns an error result only if every dependency failed`,
+      inputSchema: DependencyBatchInputSchema,
+      annotations: DELETE_ANNOTATIONS,
+    },
+    async (params, progress) => {
+      const outcomes = await githubClient.runBatch(
+        params.dependencies,
+        reportEachItem(params.dependencies, progress, async (item) => {
+          if (toolSettings.dryRun) {
+            return planRemoveBlockingDependency(
+              githubClient,
+              params.owner,
+              params.repo,
+              item.issue_number,
+              item.blocking_issue_id
+            );
+          }
+          const blockingIssueId = await resolveIssueId(
+            githubClient,
+            item.blocking_issue_id,
+            params.owner,
+            params.repo
+          );
+          const result = await githubClient.removeBlockingDependency(
+            params.owner,
+            params.repo,
+            item.issue_number,
+            blockingIssueId
+          );
+          return result.message;
+        })
+      );
 
-  // Initialize GitHub client
-  const githubClient = new GitHubClient(
-    config.githubToken,
-    config.githubApiBaseUrl
+      return formatBatchResponse(
+        "Remove Blocking Dependencies",
+        toBatchResults(params.dependencies, outcomes),
+        params.response_format,
+        formatDependencyItem
+      );
+    }
   );
 
-  // Create MCP server
-  const server = new McpServer({
-    name: "github-issues-mcp-server",
-    version: "1.0.0",
-  });
-
-  // ==================== Dependency Tools ====================
-
-  // Schema for get_blocked_by and get_blocking
-  const GetDependenciesInputSchema = z.object({
+  // Schema for get_dependency_graph
+  const GetDependencyGraphInputSchema = z.object({
     owner: z.string().describe("Repository owner (username or organization)"),
     repo: z.string().describe("Repository name"),
-    issue_number: z.number().int().positive().describe("Issue number"),
-    limit: z.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE)
-      .describe("Maximum number of results to return (1-100)"),
-    offset: z.number().int().min(0).default(0)
-      .describe("Number of results to skip for pagination"),
+    issue_number: z.number().int().positive().describe("Root issue number"),
+    direction: z.enum(["blocked_by", "blocking", "both"]).default("blocked_by")
+      .describe("Follow 'blocked_by' edges (prerequisites), 'blocking' edges (dependents), or both"),
+    max_depth: z.number().int().min(1).max(MAX_GRAPH_DEPTH).default(DEFAULT_GRAPH_DEPTH)
+      .describe(`Maximum number of dependency hops from the root issue (1-${MAX_GRAPH_DEPTH})`),
     response_format: ResponseFormat.default("markdown")
       .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
   });
 
-  server.registerTool(
-    "github_get_blocked_by",
+  registerTool(
+    "github_get_dependency_graph",
     {
-      title: "Get Blocking Issues",
-      description: `Get issues that are blocking a specific issue.
+      title: "Get Dependency Graph",
+      description: `Get the transitive dependency graph of an issue.
 
-Retrieves all issues that must be resolved before the specified issue can proceed.
-Uses GitHub's issue dependencies API.
+Walks blocked-by and/or blocking relationships recursively from a root issue,
+visiting each issue once, including issues in other repositories. Use this to
+answer "what ultimately has to ship before #42 can start?".
 
 Args:
   - owner (string): Repository owner (user or organization)
   - repo (string): Repository name
-  - issue_number (number): The issue number to check
-  - limit (number): Maximum results to return, 1-100 (default: 20)
-  - offset (number): Number of results to skip for pagination (default: 0)
+  - issue_number (number): The root issue number
+  - direction ('blocked_by' | 'blocking' | 'both'): Which edges to follow (default: 'blocked_by')
+  - max_depth (number): Maximum hops from the root, 1-${MAX_GRAPH_DEPTH} (default: ${DEFAULT_GRAPH_DEPTH})
   - response_format ('markdown' | 'json'): Output format (default: 'markdown')
 
 Returns:
   For JSON format:
   {
-    "blocked_by": [{ "id": number, "number": number, "title": string, "state": "open"|"closed", "html_url": string }],
-    "count": number,
-    "total": number,
-    "offset": number,
-    "has_more": boolean,
-    "next_offset": number (if has_more),
-    "issue_number": number
+    "root": { "id": number, "number": number, "title": string, "state": "open"|"closed", "html_url": string, "owner": string, "repo": string, "depth": 0 },
+    "direction": string,
+    "max_depth": number,
+    "node_count": number,
+    "edge_count": number,
+    "nodes": [{ ...same fields as root, "depth": number, "denied"?: true (repository outside the policy; not expanded) }],
+    "edges": [{ "blocked_id": number, "blocking_id": number }],
+    "truncated": boolean (true if the ${MAX_GRAPH_NODES}-issue limit stopped the walk)
   }
 
-  For Markdown format: A formatted list of blocking issues with links.
+  For Markdown format: An indented tree per direction. Issues reachable by several
+  paths are expanded once and marked "(see above)" afterwards.
 
 Examples:
-  - "What's blocking issue #42?" → github_get_blocked_by(owner="org", repo="project", issue_number=42)
-  - "Show blockers for the auth bug" → First find issue number, then call this tool
+  - "What has to ship before #42?" → github_get_dependency_graph(owner="org", repo="project", issue_number=42)
+  - "What is downstream of #7?" → github_get_dependency_graph(..., issue_number=7, direction="blocking")
 
 Error Handling:
   - Returns "Issue not found" for invalid issue numbers (404)
   - Returns "Repository not found" for invalid owner/repo
   - Returns "Rate limit exceeded" if GitHub API limits hit`,
-      inputSchema: GetDependenciesInputSchema,
+      inputSchema: GetDependencyGraphInputSchema,
       annotations: READ_ONLY_ANNOTATIONS,
     },
-    async (params) => {
-      const allIssues = await githubClient.getBlockedBy(
-        params.owner,
-        params.repo,
-        params.issue_number
-      );
-
-      const { items: issues, ...pagination } = applyPagination(
-        allIssues,
-        params.offset,
-        params.limit
+    async (params, progress) => {
+      const graph = await buildDependencyGraph(
+        githubClient,
+        { owner: params.owner, repo: params.repo, issueNumber: params.issue_number },
+        {
+          direction: params.direction,
+          maxDepth: params.max_depth,
+          maxNodes: MAX_GRAPH_NODES,
+          onProgress: (expanded) => progress(expanded, undefined, `Listed dependencies of ${expanded} issue(s)`),
+        }
       );
 
       const output = {
-        blocked_by: issues,
-        ...pagination,
-        issue_number: params.issue_number,
+        root: graph.nodes.find((node) => node.id === graph.root_id)!,
+        direction: params.direction,
+        max_depth: params.max_depth,
+        node_count: graph.nodes.length,
+        edge_count: graph.edges.length,
+        nodes: graph.nodes,
+        edges: graph.edges,
+        truncated: graph.truncated,
       };
 
-      if (allIssues.length === 0) {
-        const text = `Issue #${params.issue_number} in ${params.owner}/${params.repo} is not blocked by any issues.`;
-        return {
-          content: [{ type: "text" as const, text }],
-          structuredContent: output,
-        };
-      }
-
       const { text, structuredContent } = formatResponse(
         output,
         params.response_format,
         (data) => {
-          const header = `# Blocking Issues for #${params.issue_number}\n\n`;
-          const summary = `Found ${data.total} blocking issue(s)${data.has_more ? ` (showing ${data.count})` : ""}:\n\n`;
-          const list = formatIssueListAsMarkdown(data.blocked_by);
-          const pagination = data.has_more ? `\n\n*More results available. Use offset=${data.next_offset} to see next page.*` : "";
-          return header + summary + list + pagination;
+          const header = `# Dependency Graph for #${params.issue_number}\n\n`;
+          const summary = `${data.node_count} issue(s), ${data.edge_count} dependency edge(s), up to ${data.max_depth} hop(s) deep.\n`;
+          const sections = (["blocked_by", "blocking"] as const)
+            .filter((direction) => data.direction === "both" || data.direction === direction)
+            .map((direction) =>
+              `\n## ${direction === "blocked_by" ? "Blocked by" : "Blocking"}\n\n` +
+              formatDependencyTreeAsMarkdown(graph, direction)
+            )
+            .join("\n");
+          const notice = data.truncated
+            ? `\n\n*Graph truncated: stopped after ${MAX_GRAPH_NODES} issues or a list limit was reached.*`
+            : "";
+          return header + summary + sections + notice;
         }
       );
 
@@ -224,84 +1656,116 @@ Error Handling:
     }
   );
 
-  server.registerTool(
-    "github_get_blocking",
+  // Schema for find_dependency_cycles
+  const FindDependencyCyclesInputSchema = z.object({
+    owner: z.string().describe("Repository owner (username or organization)"),
+    repo: z.string().describe("Repository name"),
+    issue_numbers: z.array(z.number().int().positive()).max(MAX_ISSUE_SET_SIZE).optional()
+      .describe(`Issue numbers to start scanning from (up to ${MAX_ISSUE_SET_SIZE})`),
+    parent_issue_number: z.number().int().positive().optional()
+      .describe("Scan all sub-issues of this parent issue"),
+    max_depth: z.number().int().min(1).max(MAX_GRAPH_DEPTH).default(DEFAULT_CYCLE_SCAN_DEPTH)
+      .describe(`Maximum blocked-by hops to follow from each starting issue (1-${MAX_GRAPH_DEPTH})`),
+    response_format: ResponseFormat.default("markdown")
+      .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+  });
+
+  registerTool(
+    "github_find_dependency_cycles",
     {
-      title: "Get Blocked Issues",
-      description: `Get issues that a specific issue is blocking.
+      title: "Find Dependency Cycles",
+      description: `Find cycles in the blocked-by relationships of a set of issues.
 
-Retrieves all issues that are waiting for the specified issue to be resolved.
-Uses GitHub's issue dependencies API.
+Walks blocked-by dependencies from the given issues (and/or the sub-issues of a
+parent) and reports every loop found, such as #1 blocked by #2 blocked by #3
+blocked by #1. Issues in a cycle can never be started.
 
 Args:
   - owner (string): Repository owner (user or organization)
   - repo (string): Repository name
-  - issue_number (number): The issue number to check
-  - limit (number): Maximum results to return, 1-100 (default: 20)
-  - offset (number): Number of results to skip for pagination (default: 0)
+  - issue_numbers (number[], optional): Issues to scan from (up to ${MAX_ISSUE_SET_SIZE})
+  - parent_issue_number (number, optional): Scan from every sub-issue of this issue
+  - max_depth (number): Maximum hops from each starting issue, 1-${MAX_GRAPH_DEPTH} (default: ${DEFAULT_CYCLE_SCAN_DEPTH})
   - response_format ('markdown' | 'json'): Output format (default: 'markdown')
 
+  At least one of issue_numbers or parent_issue_number is required.
+
 Returns:
   For JSON format:
   {
-    "blocking": [{ "id": number, "number": number, "title": string, "state": "open"|"closed", "html_url": string }],
-    "count": number,
-    "total": number,
-    "offset": number,
-    "has_more": boolean,
-    "next_offset": number (if has_more),
-    "issue_number": number
+    "cycles": [[{ "id": number, "number": number, "title": string, "state": "open"|"closed", "html_url": string, "owner": string, "repo": string, "depth": number }]],
+    "cycle_count": number,
+    "scanned_issue_count": number,
+    "truncated": boolean (true if the scan hit the issue, cycle or search step limit)
   }
+  Each cycle lists its issues in "is blocked by" order; the last issue is blocked by the first.
 
-  For Markdown format: A formatted list of blocked issues with links.
+  For Markdown format: A numbered list of cycles like "#1 → #2 → #3 → #1".
 
 Examples:
-  - "What issues depend on #42?" → github_get_blocking(owner="org", repo="project", issue_number=42)
-  - "What's waiting on this fix?" → Call with the issue number
+  - "Are there dependency loops in epic #50?" → github_find_dependency_cycles(owner="org", repo="project", parent_issue_number=50)
+  - "Check #5, #6 and #7 for cycles" → github_find_dependency_cycles(..., issue_numbers=[5, 6, 7])
 
 Error Handling:
+  - Returns error if neither issue_numbers nor parent_issue_number is specified
   - Returns "Issue not found" for invalid issue numbers (404)
-  - Returns "Repository not found" for invalid owner/repo
   - Returns "Rate limit exceeded" if GitHub API limits hit`,
-      inputSchema: GetDependenciesInputSchema,
+      inputSchema: FindDependencyCyclesInputSchema,
       annotations: READ_ONLY_ANNOTATIONS,
     },
-    async (params) => {
-      const allIssues = await githubClient.getBlocking(
+    async (params, progress) => {
+      if (!params.issue_numbers?.length && params.parent_issue_number === undefined) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "Error: Must specify issue_numbers or parent_issue_number to scan.",
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const starts = await collectIssues(
+        githubClient,
         params.owner,
         params.repo,
-        params.issue_number
+        params.issue_numbers,
+        params.parent_issue_number
       );
 
-      const { items: issues, ...pagination } = applyPagination(
-        allIssues,
-        params.offset,
-        params.limit
-      );
+      const graph = await walkDependencies(githubClient, starts.items, {
+        direction: "blocked_by",
+        maxDepth: params.max_depth,
+        maxNodes: MAX_GRAPH_NODES,
+        onProgress: (expanded) => progress(expanded, undefined, `Listed dependencies of ${expanded} issue(s)`),
+      });
+      const scan = findDependencyCycles(graph, MAX_REPORTED_CYCLES);
+      const nodes = new Map(graph.nodes.map((node) => [node.id, node]));
 
       const output = {
-        blocking: issues,
-        ...pagination,
-        issue_number: params.issue_number,
+        cycles: scan.cycles.map((cycle) => cycle.map((id) => nodes.get(id)!)),
+        cycle_count: scan.cycles.length,
+        scanned_issue_count: graph.nodes.length,
+        truncated: starts.truncated || graph.truncated || scan.truncated,
       };
 
-      if (allIssues.length === 0) {
-        const text = `Issue #${params.issue_number} in ${params.owner}/${params.repo} is not blocking any issues.`;
-        return {
-          content: [{ type: "text" as const, text }],
-          structuredContent: output,
-        };
-      }
-
       const { text, structuredContent } = formatResponse(
         output,
         params.response_format,
         (data) => {
-          const header = `# Issues Blocked by #${params.issue_number}\n\n`;
-          const summary = `Blocking ${data.total} issue(s)${data.has_more ? ` (showing ${data.count})` : ""}:\n\n`;
-          const list = formatIssueListAsMarkdown(data.blocking);
-          const pagination = data.has_more ? `\n\n*More results available. Use offset=${data.next_offset} to see next page.*` : "";
-          return header + summary + list + pagination;
+          const header = `# Dependency Cycles\n\n`;
+          const notice = data.truncated
+            ? `\n\n*Scan incomplete: an issue, list or cycle limit was reached.*`
+            : "";
+          if (data.cycle_count === 0) {
+            return header + `No cycles found among ${data.scanned_issue_count} issue(s).` + notice;
+          }
+          const summary = `Found ${data.cycle_count} cycle(s) among ${data.scanned_issue_count} issue(s) (→ means "is blocked by"):\n\n`;
+          const list = data.cycles
+            .map((cycle, index) => `${index + 1}. ${formatCycle([...cycle, cycle[0]], params)}`)
+            .join("\n");
+          return header + summary + list + notice;
         }
       );
 
@@ -312,95 +1776,339 @@ Error Handling:
     }
   );
 
-  // Schema for add/remove dependency
-  const DependencyModifyInputSchema = z.object({
+  // Schema for list_ready_issues
+  const ListReadyIssuesInputSchema = z.object({
     owner: z.string().describe("Repository owner (username or organization)"),
     repo: z.string().describe("Repository name"),
-    issue_number: z.number().int().positive().describe("Issue number"),
-    blocking_issue_id: z.number().int().positive()
-      .describe("The ID (not number) of the issue that blocks this issue"),
+    parent_issue_number: z.number().int().positive().optional()
+      .describe("Check every sub-issue of this parent issue"),
+    issue_numbers: z.array(z.number().int().positive()).max(MAX_ISSUE_SET_SIZE).optional()
+      .describe(`Issue numbers to check (up to ${MAX_ISSUE_SET_SIZE})`),
+    response_format: ResponseFormat.default("markdown")
+      .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
   });
 
-  server.registerTool(
-    "github_add_blocking_dependency",
+  registerTool(
+    "github_list_ready_issues",
     {
-      title: "Add Blocking Dependency",
-      description: `Add a blocking dependency to an issue.
+      title: "List Ready Issues",
+      description: `List open issues that can be worked on now because all their blockers are closed.
 
-Marks that the specified issue is blocked by another issue. The blocking issue
-must be resolved before the blocked issue can proceed.
+Checks the blockers of each open sub-issue of a parent (and/or each listed
+issue). Issues with no open blockers are "ready"; the rest are reported with
+the open issues they are still waiting on. Closed issues are skipped.
 
 Args:
   - owner (string): Repository owner (user or organization)
   - repo (string): Repository name
-  - issue_number (number): The issue number to mark as blocked
-  - blocking_issue_id (number): The ID (not number) of the blocking issue
+  - parent_issue_number (number, optional): Check every sub-issue of this issue
+  - issue_numbers (number[], optional): Issues to check (up to ${MAX_ISSUE_SET_SIZE})
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+  At least one of parent_issue_number or issue_numbers is required.
 
 Returns:
-  Success message confirming the dependency was added.
+  For JSON format:
+  {
+    "ready": [{ "id": number, "number": number, "title": string, "state": "open", "html_url": string }],
+    "blocked": [{ "issue": { ...issue }, "waiting_on": [{ ...open blocking issue }] }],
+    "denied": [{ ...issue }] (open issues in repositories the repository policy does not allow reading),
+    "ready_count": number,
+    "blocked_count": number,
+    "closed_count": number,
+    "truncated": boolean (true if a sub-issue or blocker list hit GITHUB_MAX_LIST_ITEMS)
+  }
+
+  For Markdown format: A "Ready to work" list followed by a "Blocked" list
+  naming the open blockers of each issue.
 
 Examples:
-  - "Issue #5 is blocked by issue ID 12345" → github_add_blocking_dependency(owner="org", repo="project", issue_number=5, blocking_issue_id=12345)
+  - "What under epic #50 can someone pick up now?" → github_list_ready_issues(owner="org", repo="project", parent_issue_number=50)
+  - "Are #5 and #6 unblocked yet?" → github_list_ready_issues(..., issue_numbers=[5, 6])
 
 Error Handling:
-  - Returns error if issue doesn't exist (404)
-  - Returns error if dependency already exists (422)
-  - Returns "Permission denied" if token lacks write access (403)`,
-      inputSchema: DependencyModifyInputSchema,
-      annotations: WRITE_ANNOTATIONS,
+  - Returns error if neither parent_issue_number nor issue_numbers is specified
+  - Returns "Issue not found" for invalid issue numbers (404)
+  - Returns "Rate limit exceeded" if GitHub API limits hit`,
+      inputSchema: ListReadyIssuesInputSchema,
+      annotations: READ_ONLY_ANNOTATIONS,
     },
-    async (params) => {
-      const result = await githubClient.addBlockingDependency(
+    async (params, progress) => {
+      if (!params.issue_numbers?.length && params.parent_issue_number === undefined) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "Error: Must specify parent_issue_number or issue_numbers to check.",
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const candidates = await collectIssues(
+        githubClient,
         params.owner,
         params.repo,
-        params.issue_number,
-        params.blocking_issue_id
+        params.issue_numbers,
+        params.parent_issue_number
+      );
+      const report = await classifyReadiness(githubClient, candidates.items, (classified, total) =>
+        progress(classified, total, `Checked blockers of ${classified} of ${total} issue(s)`)
+      );
+
+      const output = {
+        ready: report.ready,
+        blocked: report.blocked,
+        denied: report.denied,
+        ready_count: report.ready.length,
+        blocked_count: report.blocked.length,
+        closed_count: report.closed_count,
+        truncated: candidates.truncated || report.truncated,
+      };
+
+      const { text, structuredContent } = formatResponse(
+        output,
+        params.response_format,
+        (data) => {
+          const scope = params.parent_issue_number !== undefined
+            ? ` under #${params.parent_issue_number}`
+            : "";
+          const header = `# Ready Issues${scope}\n\n`;
+          const summary = `${data.ready_count} ready, ${data.blocked_count} blocked, ${data.closed_count} already closed.`;
+          const ready = data.ready_count > 0
+            ? `\n\n## Ready to work\n\n${formatIssueListAsMarkdown(data.ready)}`
+            : "";
+          const blocked = data.blocked_count > 0
+            ? `\n\n## Blocked\n\n` + data.blocked
+              .map(({ issue, waiting_on }) =>
+                `- ${formatIssueRef(issue, params)}: ${issue.title} — waiting on ` +
+                waiting_on.map((blocker) => `${formatIssueRef(blocker, params)} (${blocker.title})`).join(", ")
+              )
+              .join("\n")
+            : "";
+          const denied = data.denied.length > 0
+            ? `\n\n## Not checked (outside the repository policy)\n\n${formatIssueListAsMarkdown(data.denied)}`
+            : "";
+          const notice = data.truncated
+            ? `\n\n*Some lists hit the configured limit (GITHUB_MAX_LIST_ITEMS); results may be incomplete.*`
+            : "";
+          return header + summary + ready + blocked + denied + notice;
+        }
       );
 
       return {
-        content: [{ type: "text" as const, text: result.message }],
+        content: [{ type: "text" as const, text }],
+        structuredContent,
       };
     }
   );
 
-  server.registerTool(
-    "github_remove_blocking_dependency",
+  // Schema for plan_epic
+  const PlanEpicInputSchema = z.object({
+    owner: z.string().describe("Repository owner (username or organization)"),
+    repo: z.string().describe("Repository name"),
+    issue_number: z.number().int().positive().describe("Epic (parent) issue number"),
+    apply_order: z.boolean().default(false)
+      .describe("Reorder the epic's sub-issues to match the dependency order"),
+    response_format: ResponseFormat.default("markdown")
+      .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+  });
+
+  registerTool(
+    "github_plan_epic",
     {
-      title: "Remove Blocking Dependency",
-      description: `Remove a blocking dependency from an issue.
+      title: "Plan Epic",
+      description: `Order an epic's sub-issues by their blocked-by dependencies.
 
-Removes the 'blocked by' relationship between two issues. The previously
-blocked issue will no longer wait for the blocking issue.
+Sorts the sub-issues so every issue comes after its blockers, groups the open
+ones into waves that can be worked on in parallel, and finds the critical path:
+the longest chain of open issues that each block the next. Only dependencies
+between the epic's own sub-issues affect the order; open blockers outside the
+epic are listed separately. Optionally reorders the sub-issue list to match.
 
 Args:
   - owner (string): Repository owner (user or organization)
   - repo (string): Repository name
-  - issue_number (number): The issue number to unblock
-  - blocking_issue_id (number): The ID of the blocking issue to remove
+  - issue_number (number): The epic (parent) issue number
+  - apply_order (boolean): Reprioritize the sub-issues into dependency order (default: false).
+    In dry-run mode (MCP_DRY_RUN) the moves are counted but not made.
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
 
 Returns:
-  Success message confirming the dependency was removed.
+  For JSON format:
+  {
+    "order": [{ "id": number, "number": number, "title": string, "state": "open"|"closed", "html_url": string }],
+    "waves": [[{ ...issue }]] (wave 1 first; closed issues are not included),
+    "critical_path": [{ ...issue }] (first issue blocks the second, and so on),
+    "unordered": [{ ...issue }] (issues in, or waiting on, a dependency cycle),
+    "external_blockers": [{ "issue": { ...issue }, "waiting_on": [{ ...open issue outside the epic }] }],
+    "denied": [{ ...issue }] (sub-issues in repositories the repository policy does not allow reading;
+      their blockers were not checked),
+    "applied": boolean,
+    "dry_run": boolean (true if the server is in dry-run mode, so nothing was reordered),
+    "moves": number (reprioritizations made, or needed in dry-run mode, when apply_order is true),
+    "truncated": boolean (true if a sub-issue or blocker list hit GITHUB_MAX_LIST_ITEMS)
+  }
+
+  For Markdown format: The waves, the critical path, and the full dependency order.
 
 Examples:
-  - "Remove blocker issue ID 12345 from #5" → github_remove_blocking_dependency(owner="org", repo="project", issue_number=5, blocking_issue_id=12345)
+  - "In what order should we tackle epic #50?" → github_plan_epic(owner="org", repo="project", issue_number=50)
+  - "Sort #50's sub-issues by dependency" → github_plan_epic(..., issue_number=50, apply_order=true)
 
 Error Handling:
-  - Returns error if issue doesn't exist (404)
-  - Returns error if dependency doesn't exist (404)
-  - Returns "Permission denied" if token lacks write access (403)`,
-      inputSchema: DependencyModifyInputSchema,
-      annotations: DELETE_ANNOTATIONS,
+  - Does not reorder when sub-issues form a dependency cycle; the cycle is reported in "unordered"
+  - Does not reorder when the blockers of some sub-issues are outside the repository policy
+  - Returns "Issue not found" for invalid issue numbers (404)
+  - Returns "Permission denied" if apply_order is used without write access (403)`,
+      inputSchema: PlanEpicInputSchema,
+      annotations: WRITE_ANNOTATIONS,
     },
-    async (params) => {
-      const result = await githubClient.removeBlockingDependency(
-        params.owner,
-        params.repo,
-        params.issue_number,
-        params.blocking_issue_id
+    async (params, progress) => {
+      const plan = await buildEpicPlan(githubClient, {
+        owner: params.owner,
+        repo: params.repo,
+        issueNumber: params.issue_number,
+      });
+
+      let moves = 0;
+      const canApply = params.apply_order && plan.unordered.length === 0 && plan.denied.length === 0 &&
+        !plan.truncated;
+      if (canApply) {
+        const steps = planSubIssueMoves(
+          plan.sub_issues.map((issue) => issue.id),
+          plan.order.map((issue) => issue.id)
+        );
+        if (toolSettings.dryRun) {
+          // Report the policy denials the moves would run into
+          for (const step of steps) {
+            await githubClient.checkRelationshipWrite(
+              params.owner,
+              params.repo,
+              step.subIssueId,
+              undefined,
+              plan.sub_issues
+            );
+          }
+        }
+        for (const [index, step] of (toolSettings.dryRun ? [] : steps).entries()) {
+          await githubClient.reprioritizeSubIssue({
+            owner: params.owner,
+            repo: params.repo,
+            parentIssueNumber: params.issue_number,
+            ...step,
+          });
+          progress(index + 1, steps.length, `Applied ${index + 1} of ${steps.length} move(s)`);
+        }
+        moves = steps.length;
+      }
+
+      const output = {
+        order: plan.order,
+        waves: plan.waves,
+        critical_path: plan.critical_path,
+        unordered: plan.unordered,
+        external_blockers: plan.external_blockers,
+        denied: plan.denied,
+        applied: canApply && !toolSettings.dryRun,
+        dry_run: Boolean(toolSettings.dryRun),
+        moves,
+        truncated: plan.truncated,
+      };
+
+      const { text, structuredContent } = formatResponse(
+        output,
+        params.response_format,
+        (data) => {
+          const ref = (issue: IssueReference) => formatIssueRef(issue, params);
+          const lines = [
+            `# Plan for #${params.issue_number}`,
+            "",
+            `${data.order.length + data.unordered.length} sub-issue(s), ${data.waves.length} wave(s), ` +
+              `critical path of ${data.critical_path.length} open issue(s).`,
+          ];
+
+          data.waves.forEach((wave, index) => {
+            lines.push("", `## Wave ${index + 1}`, "", ...wave.map((issue) => `- ${ref(issue)}: ${issue.title}`));
+          });
+
+          if (data.critical_path.length > 0) {
+            lines.push(
+              "",
+              "## Critical path",
+              "",
+              `${data.critical_path.map(ref).join(" → ")} (each issue blocks the next)`
+            );
+          }
+
+          if (data.order.length > 0) {
+            lines.push("", "## Dependency order", "", formatIssueListAsMarkdown(data.order, true));
+          }
+
+          if (data.unordered.length > 0) {
+            lines.push(
+              "",
+              "## Not ordered",
+              "",
+              "These issues are in, or wait on, a dependency cycle (see github_find_dependency_cycles):",
+              "",
+              formatIssueListAsMarkdown(data.unordered)
+            );
+          }
+
+          if (data.external_blockers.length > 0) {
+            lines.push(
+              "",
+              "## Blocked outside the epic",
+              "",
+              ...data.external_blockers.map(({ issue, waiting_on }) =>
+                `- ${ref(issue)}: ${issue.title} — waiting on ` +
+                waiting_on.map((blocker) => `${ref(blocker)} (${blocker.title})`).join(", ")
+              )
+            );
+          }
+
+          if (data.denied.length > 0) {
+            lines.push(
+              "",
+              "## Not checked (outside the repository policy)",
+              "",
+              "The blockers of these sub-issues could not be read, so they are ordered as if they had none:",
+              "",
+              formatIssueListAsMarkdown(data.denied)
+            );
+          }
+
+          if (data.applied) {
+            lines.push("", `Applied the dependency order to #${params.issue_number} with ${data.moves} move(s).`);
+          } else if (canApply) {
+            lines.push(
+              "",
+              `${DRY_RUN_PREFIX}applying the dependency order to #${params.issue_number} would take ${data.moves} move(s).`
+            );
+          } else if (params.apply_order) {
+            lines.push(
+              "",
+              data.truncated
+                ? `Order not applied: the sub-issue or blocker lists were incomplete.`
+                : data.denied.length > 0
+                  ? `Order not applied: the blockers of some sub-issues are outside the repository policy.`
+                  : `Order not applied: resolve the dependency cycle first.`
+            );
+          }
+
+          if (data.truncated) {
+            lines.push("", "*Some lists hit the configured limit (GITHUB_MAX_LIST_ITEMS); the plan may be incomplete.*");
+          }
+
+          return lines.join("\n");
+        }
       );
 
       return {
-        content: [{ type: "text" as const, text: result.message }],
+        content: [{ type: "text" as const, text }],
+        structuredContent,
       };
     }
   );
@@ -416,7 +2124,7 @@ Error Handling:
       .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
   });
 
-  server.registerTool(
+  registerTool(
     "github_get_parent_issue",
     {
       title: "Get Parent Issue",
@@ -504,7 +2212,7 @@ Error Handling:
       .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
   });
 
-  server.registerTool(
+  registerTool(
     "github_list_sub_issues",
     {
       title: "List Sub Issues",
@@ -530,6 +2238,7 @@ Returns:
     "offset": number,
     "has_more": boolean,
     "next_offset": number (if has_more),
+    "truncated": boolean (true if GITHUB_MAX_LIST_ITEMS was reached; total is then a lower bound),
     "parent_issue_number": number
   }
 
@@ -564,7 +2273,7 @@ Error Handling:
         parent_issue_number: params.issue_number,
       };
 
-      if (allSubIssues.length === 0) {
+      if (allSubIssues.items.length === 0) {
         const text = `Issue #${params.issue_number} in ${params.owner}/${params.repo} has no sub-issues.`;
         return {
           content: [{ type: "text" as const, text }],
@@ -580,10 +2289,124 @@ Error Handling:
           const summary = `${data.total} sub-issue(s)${data.has_more ? ` (showing ${data.count})` : ""} in priority order:\n\n`;
           const list = formatIssueListAsMarkdown(data.sub_issues, true);
           const pagination = data.has_more ? `\n\n*More results available. Use offset=${data.next_offset} to see next page.*` : "";
-          return header + summary + list + pagination;
+          return header + summary + list + pagination + formatTruncationNotice(data.truncated);
+        }
+      );
+
+      return {
+        content: [{ type: "text" as const, text }],
+        structuredContent,
+      };
+    }
+  );
+
+  // Schema for get_issue_tree
+  const GetIssueTreeInputSchema = z.object({
+    owner: z.string().describe("Repository owner (username or organization)"),
+    repo: z.string().describe("Repository name"),
+    issue_number: z.number().int().positive().describe("Root issue number"),
+    max_depth: z.number().int().min(1).max(MAX_TREE_DEPTH).default(DEFAULT_TREE_DEPTH)
+      .describe(`Maximum number of sub-issue levels to expand (1-${MAX_TREE_DEPTH})`),
+    response_format: ResponseFormat.default("markdown")
+      .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+  });
+
+  registerTool(
+    "github_get_issue_tree",
+    {
+      title: "Get Issue Tree",
+      description: `Get the full sub-issue hierarchy below an issue with progress rollup.
+
+Recursively expands sub-issues (e.g. initiative → epic → task), and computes
+open/closed counts and percent complete over all descendants at every level.
+If the result would exceed the response size limit, the deepest levels are
+collapsed into a summary while keeping their rollup figures.
+
+Args:
+  - owner (string): Repository owner (user or organization)
+  - repo (string): Repository name
+  - issue_number (number): The root issue number
+  - max_depth (number): Maximum levels to expand, 1-${MAX_TREE_DEPTH} (default: ${DEFAULT_TREE_DEPTH})
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  For JSON format:
+  {
+    "tree": {
+      "id": number, "number": number, "title": string, "state": "open"|"closed", "html_url": string,
+      "owner": string, "repo": string,
+      "progress": { "total": number, "open": number, "closed": number, "percent_complete": number },
+      "children_fetched": boolean (false if max_depth stopped expansion here),
+      "denied"?: true (the repository policy does not allow reading this issue's repository),
+      "collapsed": boolean (present if children were dropped to fit the size limit),
+      "children": [ ...nested nodes in priority order ]
+    },
+    "node_count": number,
+    "max_depth": number,
+    "display_depth": number (levels shown after collapsing),
+    "truncated": boolean (true if the ${MAX_TREE_NODES}-issue limit was reached)
+  }
+
+  For Markdown format: A nested checklist with "closed/total done (percent%)" on each parent.
+
+Examples:
+  - "How far along is initiative #1?" → github_get_issue_tree(owner="org", repo="project", issue_number=1)
+  - "Show the whole hierarchy under epic #50" → github_get_issue_tree(..., issue_number=50, max_depth=5)
+
+Error Handling:
+  - Returns "Issue not found" for invalid issue numbers (404)
+  - Returns "Repository not found" for invalid owner/repo
+  - Returns "Rate limit exceeded" if GitHub API limits hit`,
+      inputSchema: GetIssueTreeInputSchema,
+      annotations: READ_ONLY_ANNOTATIONS,
+    },
+    async (params, progress) => {
+      const tree = await buildIssueTree(
+        githubClient,
+        { owner: params.owner, repo: params.repo, issueNumber: params.issue_number },
+        {
+          maxDepth: params.max_depth,
+          maxNodes: MAX_TREE_NODES,
+          onProgress: (expanded) => progress(expanded, undefined, `Listed sub-issues of ${expanded} issue(s)`),
         }
       );
 
+      const render = (data: {
+        tree: IssueTreeNode;
+        node_count: number;
+        max_depth: number;
+        display_depth: number;
+        truncated: boolean;
+      }): string => {
+        if (params.response_format === "json") {
+          return JSON.stringify(data, null, 2);
+        }
+        const header = `# Issue Tree for #${params.issue_number}\n\n`;
+        const summary = `${data.node_count} issue(s)` +
+          (data.display_depth < issueTreeDepth(tree.root) ? `, showing ${data.display_depth} level(s) to fit the size limit` : "") +
+          `:\n\n`;
+        const list = formatIssueTreeAsMarkdown(data.tree, params).join("\n");
+        const notice = data.truncated
+          ? `\n\n*Tree truncated: stopped after ${MAX_TREE_NODES} issues or a list limit was reached.*`
+          : "";
+        return header + summary + list + notice;
+      };
+
+      // Collapse the deepest levels until the response fits
+      let output = {
+        tree: tree.root,
+        node_count: tree.node_count,
+        max_depth: params.max_depth,
+        display_depth: issueTreeDepth(tree.root),
+        truncated: tree.truncated,
+      };
+      while (output.display_depth > 0 && render(output).length > CHARACTER_LIMIT) {
+        const displayDepth = output.display_depth - 1;
+        output = { ...output, tree: collapseIssueTree(tree.root, displayDepth), display_depth: displayDepth };
+      }
+
+      const { text, structuredContent } = formatResponse(output, params.response_format, render);
+
       return {
         content: [{ type: "text" as const, text }],
         structuredContent,
@@ -596,13 +2419,14 @@ Error Handling:
     owner: z.string().describe("Repository owner (username or organization)"),
     repo: z.string().describe("Repository name"),
     issue_number: z.number().int().positive().describe("Parent issue number"),
-    sub_issue_id: z.number().int().positive()
-      .describe("The ID (not number) of the issue to add as a sub-issue"),
+    sub_issue_id: IssueRef
+      .describe(`The issue to add as a sub-issue: ${ISSUE_REF_FORMS}`),
     replace_parent: z.boolean().default(false)
       .describe("If true, reassign from existing parent. If false and issue has a parent, operation fails."),
+    dry_run: DryRun,
   });
 
-  server.registerTool(
+  registerTool(
     "github_add_sub_issue",
     {
       title: "Add Sub Issue",
@@ -615,30 +2439,55 @@ Args:
   - owner (string): Repository owner (user or organization)
   - repo (string): Repository name
   - issue_number (number): The parent issue number
-  - sub_issue_id (number): The ID (not number) of the issue to add as sub-issue
+  - sub_issue_id (number | string): The issue to add, as an issue ID, "#123",
+    "owner/repo#123", or an issue URL. Numbers and URLs are resolved to the ID for you.
   - replace_parent (boolean): If true, reassign from existing parent (default: false)
+  - dry_run (boolean): Check the change and report it without making it (default: false)
 
 Returns:
-  Success message confirming the sub-issue was added.
+  Success message confirming the sub-issue was added, or with dry_run where it
+  would be added and which parent it would leave.
 
 Examples:
+  - "Add #101 as sub-issue of #50" → github_add_sub_issue(owner="org", repo="project", issue_number=50, sub_issue_id="#101")
   - "Add issue ID 12345 as sub-issue of #50" → github_add_sub_issue(owner="org", repo="project", issue_number=50, sub_issue_id=12345)
   - "Move sub-issue to new parent" → Set replace_parent=true
 
 Error Handling:
   - Returns error if issue doesn't exist (404)
   - Returns error if issue already has parent and replace_parent=false (422)
-  - Returns "Permission denied" if token lacks write access (403)`,
+  - Returns "Permission denied" if token lacks write access (403)
+  - With dry_run, returns these errors (except permission) without writing anything`,
       inputSchema: AddSubIssueInputSchema,
       annotations: WRITE_ANNOTATIONS,
     },
     async (params) => {
+      if (isDryRun(params)) {
+        const plan = await planAddSubIssue(
+          githubClient,
+          params.owner,
+          params.repo,
+          params.issue_number,
+          params.sub_issue_id,
+          params.replace_parent
+        );
+        return { content: [{ type: "text" as const, text: plan }] };
+      }
+
+      const subIssue = await resolveIssue(
+        githubClient,
+        params.sub_issue_id,
+        params.owner,
+        params.repo
+      );
+
       const result = await githubClient.addSubIssue({
         owner: params.owner,
         repo: params.repo,
         parentIssueNumber: params.issue_number,
-        subIssueId: params.sub_issue_id,
+        subIssueId: subIssue.id,
         replaceParent: params.replace_parent,
+        subIssue: issueLocation(subIssue),
       });
 
       return {
@@ -652,11 +2501,12 @@ Error Handling:
     owner: z.string().describe("Repository owner (username or organization)"),
     repo: z.string().describe("Repository name"),
     issue_number: z.number().int().positive().describe("Parent issue number"),
-    sub_issue_id: z.number().int().positive()
-      .describe("The ID of the sub-issue to remove"),
+    sub_issue_id: IssueRef
+      .describe(`The sub-issue to remove: ${ISSUE_REF_FORMS}`),
+    dry_run: DryRun,
   });
 
-  server.registerTool(
+  registerTool(
     "github_remove_sub_issue",
     {
       title: "Remove Sub Issue",
@@ -668,27 +2518,49 @@ Args:
   - owner (string): Repository owner (user or organization)
   - repo (string): Repository name
   - issue_number (number): The parent issue number
-  - sub_issue_id (number): The ID of the sub-issue to remove
+  - sub_issue_id (number | string): The sub-issue to remove, as an issue ID, "#123",
+    "owner/repo#123", or an issue URL
+  - dry_run (boolean): Check the change and report it without making it (default: false)
 
 Returns:
-  Success message confirming the sub-issue was removed.
+  Success message confirming the sub-issue was removed, or with dry_run the
+  sub-issue that would be removed.
 
 Examples:
-  - "Remove issue ID 12345 from parent #50" → github_remove_sub_issue(owner="org", repo="project", issue_number=50, sub_issue_id=12345)
+  - "Remove #101 from parent #50" → github_remove_sub_issue(owner="org", repo="project", issue_number=50, sub_issue_id="#101")
 
 Error Handling:
   - Returns error if parent issue doesn't exist (404)
   - Returns error if sub-issue isn't a child of this parent (404)
-  - Returns "Permission denied" if token lacks write access (403)`,
+  - Returns "Permission denied" if token lacks write access (403)
+  - With dry_run, returns these errors (except permission) without writing anything`,
       inputSchema: RemoveSubIssueInputSchema,
       annotations: DELETE_ANNOTATIONS,
     },
     async (params) => {
+      if (isDryRun(params)) {
+        const plan = await planRemoveSubIssue(
+          githubClient,
+          params.owner,
+          params.repo,
+          params.issue_number,
+          params.sub_issue_id
+        );
+        return { content: [{ type: "text" as const, text: plan }] };
+      }
+
+      const subIssueId = await resolveIssueId(
+        githubClient,
+        params.sub_issue_id,
+        params.owner,
+        params.repo
+      );
+
       const result = await githubClient.removeSubIssue(
         params.owner,
         params.repo,
         params.issue_number,
-        params.sub_issue_id
+        subIssueId
       );
 
       return {
@@ -697,20 +2569,189 @@ Error Handling:
     }
   );
 
+  // Schema for add/remove_sub_issues
+  const SubIssueBatchInputSchema = z.object({
+    owner: z.string().describe("Repository owner (username or organization)"),
+    repo: z.string().describe("Repository name"),
+    issue_number: z.number().int().positive().describe("Parent issue number"),
+    sub_issue_ids: z.array(IssueRef).min(1).max(MAX_BATCH_SIZE)
+      .describe(`The sub-issues (1-${MAX_BATCH_SIZE}), each ${ISSUE_REF_FORMS}`),
+    response_format: ResponseFormat.default("markdown")
+      .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+  });
+
+  const AddSubIssuesInputSchema = SubIssueBatchInputSchema.extend({
+    replace_parent: z.boolean().default(false)
+      .describe("If true, reassign issues from their existing parent. If false, issues that have a parent fail."),
+  });
+
+  registerTool(
+    "github_add_sub_issues",
+    {
+      title: "Add Sub Issues",
+      description: `Add several sub-issues to a parent issue in one call.
+
+Issue references are resolved several at a time, then the sub-issues are added
+in the order given, so they appear in that order under the parent. A failing
+sub-issue does not stop the rest; the result reports each one.
+
+Args:
+  - owner (string): Repository owner (user or organization)
+  - repo (string): Repository name
+  - issue_number (number): The parent issue number
+  - sub_issue_ids ((number | string)[]): Up to ${MAX_BATCH_SIZE} issues, each an issue ID,
+    "#123", "owner/repo#123", or an issue URL
+  - replace_parent (boolean): If true, reassign from existing parents (default: false)
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  For JSON format:
+  {
+    "results": [{ "sub_issue_id": number|string, "success": boolean, "message": string }],
+    "succeeded": number,
+    "failed": number
+  }
+
+  For Markdown format: One line per sub-issue marked [ok] or [failed].
+
+Examples:
+  - "Add #101, #102 and #103 to epic #50" → github_add_sub_issues(owner="org", repo="project", issue_number=50, sub_issue_ids=["#101", "#102", "#103"])
+
+Error Handling:
+  - Reports per-item errors (not found, already has a parent, permission denied)
+  - In dry-run mode (MCP_DRY_RUN), checks each item and reports the planned change instead
+  - Returns an error result only if every sub-issue failed`,
+      inputSchema: AddSubIssuesInputSchema,
+      annotations: WRITE_ANNOTATIONS,
+    },
+    async (params, progress) => {
+      if (toolSettings.dryRun) {
+        const plans = await githubClient.runBatch(
+          params.sub_issue_ids,
+          reportEachItem(params.sub_issue_ids, progress, (ref) =>
+            planAddSubIssue(githubClient, params.owner, params.repo, params.issue_number, ref, params.replace_parent)
+          )
+        );
+        return formatBatchResponse(
+          `Add Sub-Issues to #${params.issue_number}`,
+          toBatchResults(params.sub_issue_ids.map((ref) => ({ sub_issue_id: ref })), plans),
+          params.response_format,
+          (item) => String(item.sub_issue_id)
+        );
+      }
+
+      const resolved = await githubClient.runBatch(params.sub_issue_ids, (ref) =>
+        resolveIssue(githubClient, ref, params.owner, params.repo)
+      );
+
+      // Only the writes report progress, so it counts up once
+      const outcomes = await githubClient.runBatch(
+        resolved,
+        reportEachItem(resolved, progress, async (subIssue) => {
+          if (!subIssue.ok) {
+            throw new Error(subIssue.error);
+          }
+          const result = await githubClient.addSubIssue({
+            owner: params.owner,
+            repo: params.repo,
+            parentIssueNumber: params.issue_number,
+            subIssueId: subIssue.value.id,
+            replaceParent: params.replace_parent,
+            subIssue: issueLocation(subIssue.value),
+          });
+          return result.message;
+        }),
+        1
+      );
+
+      return formatBatchResponse(
+        `Add Sub-Issues to #${params.issue_number}`,
+        toBatchResults(params.sub_issue_ids.map((ref) => ({ sub_issue_id: ref })), outcomes),
+        params.response_format,
+        (item) => String(item.sub_issue_id)
+      );
+    }
+  );
+
+  registerTool(
+    "github_remove_sub_issues",
+    {
+      title: "Remove Sub Issues",
+      description: `Remove several sub-issues from their parent in one call.
+
+Removes each sub-issue like github_remove_sub_issue, several at a time. A
+failing sub-issue does not stop the rest; the result reports each one.
+
+Args:
+  - owner (string): Repository owner (user or organization)
+  - repo (string): Repository name
+  - issue_number (number): The parent issue number
+  - sub_issue_ids ((number | string)[]): Up to ${MAX_BATCH_SIZE} sub-issues, each an issue ID,
+    "#123", "owner/repo#123", or an issue URL
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  For JSON format:
+  {
+    "results": [{ "sub_issue_id": number|string, "success": boolean, "message": string }],
+    "succeeded": number,
+    "failed": number
+  }
+
+  For Markdown format: One line per sub-issue marked [ok] or [failed].
+
+Examples:
+  - "Take #101 and #102 out of epic #50" → github_remove_sub_issues(owner="org", repo="project", issue_number=50, sub_issue_ids=["#101", "#102"])
+
+Error Handling:
+  - Reports per-item errors (not found, not a child of this parent, permission denied)
+  - In dry-run mode (MCP_DRY_RUN), checks each item and reports the planned change instead
+  - Returns an error result only if every sub-issue failed`,
+      inputSchema: SubIssueBatchInputSchema,
+      annotations: DELETE_ANNOTATIONS,
+    },
+    async (params, progress) => {
+      const outcomes = await githubClient.runBatch(
+        params.sub_issue_ids,
+        reportEachItem(params.sub_issue_ids, progress, async (ref) => {
+          if (toolSettings.dryRun) {
+            return planRemoveSubIssue(githubClient, params.owner, params.repo, params.issue_number, ref);
+          }
+          const subIssueId = await resolveIssueId(githubClient, ref, params.owner, params.repo);
+          const result = await githubClient.removeSubIssue(
+            params.owner,
+            params.repo,
+            params.issue_number,
+            subIssueId
+          );
+          return result.message;
+        })
+      );
+
+      return formatBatchResponse(
+        `Remove Sub-Issues from #${params.issue_number}`,
+        toBatchResults(params.sub_issue_ids.map((ref) => ({ sub_issue_id: ref })), outcomes),
+        params.response_format,
+        (item) => String(item.sub_issue_id)
+      );
+    }
+  );
+
   // Schema for reprioritize_sub_issue
   const ReprioritizeSubIssueInputSchema = z.object({
     owner: z.string().describe("Repository owner (username or organization)"),
     repo: z.string().describe("Repository name"),
     issue_number: z.number().int().positive().describe("Parent issue number"),
-    sub_issue_id: z.number().int().positive()
-      .describe("The ID of the sub-issue to reorder"),
-    after_id: z.number().int().positive().optional()
-      .describe("Place the sub-issue after this sub-issue ID"),
-    before_id: z.number().int().positive().optional()
-      .describe("Place the sub-issue before this sub-issue ID"),
+    sub_issue_id: IssueRef
+      .describe(`The sub-issue to reorder: ${ISSUE_REF_FORMS}`),
+    after_id: IssueRef.optional()
+      .describe("Place the sub-issue after this sub-issue (same reference forms as sub_issue_id)"),
+    before_id: IssueRef.optional()
+      .describe("Place the sub-issue before this sub-issue (same reference forms as sub_issue_id)"),
+    dry_run: DryRun,
   });
 
-  server.registerTool(
+  registerTool(
     "github_reprioritize_sub_issue",
     {
       title: "Reprioritize Sub Issue",
@@ -723,22 +2764,27 @@ Args:
   - owner (string): Repository owner (user or organization)
   - repo (string): Repository name
   - issue_number (number): The parent issue number
-  - sub_issue_id (number): The ID of the sub-issue to move
-  - after_id (number, optional): Place after this sub-issue ID
-  - before_id (number, optional): Place before this sub-issue ID
+  - sub_issue_id (number | string): The sub-issue to move, as an issue ID, "#123",
+    "owner/repo#123", or an issue URL
+  - after_id (number | string, optional): Place after this sub-issue
+  - before_id (number | string, optional): Place before this sub-issue
+  - dry_run (boolean): Check the change and report it without making it (default: false)
 
 Returns:
-  Success message confirming the reorder.
+  Success message confirming the reorder, or with dry_run the position the
+  sub-issue would move from and to.
 
 Examples:
+  - "Move #102 after #101" → github_reprioritize_sub_issue(..., sub_issue_id="#102", after_id="#101")
   - "Move task after ID 12345" → github_reprioritize_sub_issue(..., after_id=12345)
-  - "Move task to top" → Use before_id with the first sub-issue ID
+  - "Move task to top" → Use before_id with the first sub-issue
 
 Error Handling:
   - Returns error if neither after_id nor before_id is specified
   - Returns error if both after_id and before_id are specified
   - Returns error if referenced sub-issue doesn't exist (404)
-  - Returns "Permission denied" if token lacks write access (403)`,
+  - Returns "Permission denied" if token lacks write access (403)
+  - With dry_run, returns these errors (except permission) without writing anything`,
       inputSchema: ReprioritizeSubIssueInputSchema,
       annotations: REPRIORITIZE_ANNOTATIONS,
     },
@@ -767,13 +2813,30 @@ Error Handling:
         };
       }
 
+      if (isDryRun(params)) {
+        const plan = await planReprioritizeSubIssue(
+          githubClient,
+          params.owner,
+          params.repo,
+          params.issue_number,
+          params.sub_issue_id,
+          params.after_id !== undefined
+            ? { ref: params.after_id, placement: "after" }
+            : { ref: params.before_id!, placement: "before" }
+        );
+        return { content: [{ type: "text" as const, text: plan }] };
+      }
+
+      const resolve = (ref: IssueRefInput) =>
+        resolveIssueId(githubClient, ref, params.owner, params.repo);
+
       const result = await githubClient.reprioritizeSubIssue({
         owner: params.owner,
         repo: params.repo,
         parentIssueNumber: params.issue_number,
-        subIssueId: params.sub_issue_id,
-        afterId: params.after_id,
-        beforeId: params.before_id,
+        subIssueId: await resolve(params.sub_issue_id),
+        afterId: params.after_id !== undefined ? await resolve(params.after_id) : undefined,
+        beforeId: params.before_id !== undefined ? await resolve(params.before_id) : undefined,
       });
 
       return {
@@ -782,5 +2845,571 @@ Error Handling:
     }
   );
 
+  // ==================== Journal Tools ====================
+
+  // Schema for list_recent_changes
+  const ListRecentChangesInputSchema = z.object({
+    owner: z.string().optional().describe("Only list changes in repositories of this owner"),
+    repo: z.string().optional().describe("Only list changes in repositories with this name"),
+    limit: z.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE)
+      .describe("Maximum number of changes to return"),
+    response_format: ResponseFormat.default("markdown")
+      .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+  });
+
+  registerTool(
+    "github_list_recent_changes",
+    {
+      title: "List Recent Changes",
+      description: `List the relationship changes recently made through this server, newest first.
+
+Every dependency and sub-issue change made with the current credentials is
+journaled with the state it replaced, so it can be reverted with
+github_undo_change. The journal is kept in memory, or in GITHUB_JOURNAL_FILE
+when configured, where it is shared with other servers using that file.
+
+Args:
+  - owner (string, optional): Only list changes in repositories of this owner
+  - repo (string, optional): Only list changes in repositories with this name
+  - limit (number): Maximum changes to return, 1-${MAX_PAGE_SIZE} (default: ${DEFAULT_PAGE_SIZE})
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  For JSON format:
+  {
+    "changes": [{
+      "id": number,
+      "timestamp": string,
+      "description": string,
+      "change": { "kind": string, "owner": string, "repo": string, ... },
+      "undo_of": number (present if the change was made by undoing that change),
+      "undone_by": number (present once every write of its undo has been made)
+    }],
+    "count": number
+  }
+
+  For Markdown format: One line per change with its ID.
+
+Examples:
+  - "What did you just change?" → github_list_recent_changes()
+  - "Show recent changes in org/project" → github_list_recent_changes(owner="org", repo="project")
+
+Error Handling:
+  - Returns an empty list when nothing has been changed yet`,
+      inputSchema: ListRecentChangesInputSchema,
+      annotations: READ_ONLY_ANNOTATIONS,
+    },
+    async (params) => {
+      const entries = githubClient.recentChanges();
+
+      const matches = (entry: JournalEntry) =>
+        (params.owner === undefined || entry.change.owner.toLowerCase() === params.owner.toLowerCase()) &&
+        (params.repo === undefined || entry.change.repo.toLowerCase() === params.repo.toLowerCase());
+
+      const changes = entries.filter(matches).slice(0, params.limit).map((entry) => {
+        const undoneBy = githubClient.undoneBy(entry.id);
+        return {
+          id: entry.id,
+          timestamp: entry.timestamp,
+          description: describeChange(entry.change),
+          change: entry.change,
+          ...(entry.undoOf !== undefined && { undo_of: entry.undoOf }),
+          ...(undoneBy && { undone_by: undoneBy.id }),
+        };
+      });
+
+      const output = { changes, count: changes.length };
+
+      const { text, structuredContent } = formatResponse(output, params.response_format, (data) => {
+        if (data.changes.length === 0) {
+          return "No changes have been recorded for these credentials.";
+        }
+        const lines = data.changes.map((change) => {
+          const notes = [
+            change.undo_of !== undefined ? `undoes change ${change.undo_of}` : "",
+            change.undone_by !== undefined ? `undone by change ${change.undone_by}` : "",
+          ].filter(Boolean);
+          return `- **Change ${change.id}** (${change.timestamp}): ${change.description}` +
+            (notes.length > 0 ? ` — ${notes.join(", ")}` : "");
+        });
+        return `# Recent Changes\n\n${lines.join("\n")}`;
+      });
+
+      return {
+        content: [{ type: "text" as const, text }],
+        structuredContent,
+      };
+    }
+  );
+
+  // Schema for undo_change
+  const UndoChangeInputSchema = z.object({
+    change_ids: z.array(z.number().int().positive()).min(1).max(MAX_BATCH_SIZE)
+      .describe(`IDs of the changes to undo (1-${MAX_BATCH_SIZE}), from github_list_recent_changes`),
+    dry_run: DryRun,
+    response_format: ResponseFormat.default("markdown")
+      .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+  });
+
+  registerTool(
+    "github_undo_change",
+    {
+      title: "Undo Change",
+      description: `Undo relationship changes made through this server.
+
+Applies the inverse of each journaled change: removes added dependencies and
+sub-issues, restores removed ones, and puts sub-issues back under their
+previous parent and in their previous position. Changes are undone newest
+first, so undoing a series of moves restores the original order. The undo is
+journaled too, and a change can only be undone once. If an undo fails
+part-way, undoing the change again makes only the writes it did not make.
+
+Args:
+  - change_ids (number[]): Up to ${MAX_BATCH_SIZE} change IDs from github_list_recent_changes
+  - dry_run (boolean): List the writes each undo would make without making them (default: false)
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  For JSON format:
+  {
+    "results": [{ "change_id": number, "success": boolean, "message": string }],
+    "succeeded": number,
+    "failed": number
+  }
+
+  For Markdown format: One line per change marked [ok] or [failed].
+
+Examples:
+  - "Undo that last change" → github_list_recent_changes(limit=1), then github_undo_change(change_ids=[<id>])
+  - "Put those twenty sub-issues back" → github_undo_change(change_ids=[31, 32, ..., 50])
+
+Error Handling:
+  - Reports per-change errors (unknown ID, already undone or being undone, later changes conflict,
+    permission denied)
+  - Returns an error result only if every change failed
+  - Refuses to undo a sub-issue move whose previous parent was not recorded (it was given
+    as a bare issue ID), since removing it would lose that parent
+  - Refuses to restore a removed dependency that would now create a cycle, listing the cycle`,
+      inputSchema: UndoChangeInputSchema,
+      annotations: DELETE_ANNOTATIONS,
+    },
+    async (params, progress) => {
+      const ids = [...new Set(params.change_ids)].sort((a, b) => b - a);
+
+      const outcomes = await githubClient.runBatch(
+        ids,
+        reportEachItem(ids, progress, async (id) => {
+          const { entry, writes, completedWrites } = githubClient.planUndo(id);
+          const warning = await checkUndoForCycles(githubClient, writes);
+          const note = completedWrites > 0
+            ? ` Resumed an earlier undo that stopped after ${completedWrites} write(s).`
+            : "";
+
+          if (isDryRun(params)) {
+            const plan = writes.length > 0 ? `would ${writes.map(describeWrite).join("; then ")}.` : "nothing to write.";
+            return `${DRY_RUN_PREFIX}${plan}${note}${warning}`;
+          }
+
+          const messages = await githubClient.undoChange(id);
+          return messages.length > 0
+            ? `Undid "${describeChange(entry.change)}": ${messages.join("; ")}.${note}${warning}`
+            : `Nothing to write to undo "${describeChange(entry.change)}".`;
+        }),
+        1
+      );
+
+      return formatBatchResponse(
+        "Undo Changes",
+        toBatchResults(ids.map((id) => ({ change_id: id })), outcomes),
+        params.response_format,
+        (item) => `Change ${item.change_id}`
+      );
+    }
+  );
+
+  // ==================== Rate Limit Tools ====================
+
+  // Schema for get_rate_limit
+  const GetRateLimitInputSchema = z.object({
+    response_format: ResponseFormat.default("markdown")
+      .describe("Output format: 'markdown' for human-readable or 'json' for structured data"),
+  });
+
+  registerTool(
+    "github_get_rate_limit",
+    {
+      title: "Get Rate Limit",
+      description: `Get the GitHub API quota remaining for the configured token.
+
+Use this before large operations (deep dependency graphs, issue trees, batch
+tools) or after a "Rate limit exceeded" error to see when the quota resets.
+Checking the rate limit does not use any quota.
+
+Args:
+  - response_format ('markdown' | 'json'): Output format (default: 'markdown')
+
+Returns:
+  For JSON format:
+  {
+    "resources": [{ "resource": string, "limit": number, "remaining": number, "used": number, "reset_at": string }]
+  }
+  The "core" resource covers the REST calls made by every other tool.
+
+  For Markdown format: A table of the quota per resource.
+
+Examples:
+  - "How many GitHub API calls do I have left?" → github_get_rate_limit()
+
+Error Handling:
+  - Returns "Authentication failed" if the token is invalid (401)`,
+      inputSchema: GetRateLimitInputSchema,
+      annotations: READ_ONLY_ANNOTATIONS,
+    },
+    async (params) => {
+      const resources = await githubClient.getRateLimit();
+
+      const { text, structuredContent } = formatResponse(
+        { resources },
+        params.response_format,
+        (data) => {
+          const rows = data.resources.map((quota) =>
+            `| ${quota.resource} | ${quota.remaining} | ${quota.limit} | ${quota.used} | ${quota.reset_at} |`
+          );
+          return [
+            "# GitHub API Rate Limit",
+            "",
+            "| Resource | Remaining | Limit | Used | Resets at |",
+            "|----------|-----------|-------|------|-----------|",
+            ...rows,
+          ].join("\n");
+        }
+      );
+
+      return {
+        content: [{ type: "text" as const, text }],
+        structuredContent,
+      };
+    }
+  );
+
+  // ==================== Resources ====================
+
+  // Completes the owner, repo and number variables of the issue resource
+  // templates and the matching prompt arguments, caching GitHub's answers
+  const completer = new ArgumentCompleter(githubClient);
+  const issueVariableCompletions = {
+    owner: (value: string) => completer.owners(value),
+    repo: (value: string, context?: { arguments?: Record<string, string> }) =>
+      completer.repositories(context?.arguments?.owner, value),
+    number: (value: string, context?: { arguments?: Record<string, string> }) =>
+      completer.issueNumbers(context?.arguments?.owner, context?.arguments?.repo, value),
+  };
+
+  /** Issue resource templates and how to render them, for reads and subscription polls. */
+  const issueResources: Array<{ template: ResourceTemplate; render: RenderIssueResource }> = [];
+
+  /**
+   * Register an issue resource template whose content `render` produces as
+   * markdown. GitHub failures become errors with the request ID. The issue
+   * of a resource the client reads is listed among the recent issue resources.
+   */
+  const registerIssueResource = (
+    name: string,
+    template: ResourceTemplate,
+    metadata: { title: string; description: string },
+    render: RenderIssueResource
+  ) => {
+    issueResources.push({ template, render });
+    server.registerResource(name, template, { ...metadata, mimeType: "text/markdown" }, async (uri, variables) => {
+      const issue = issueFromResourceVariables(variables);
+      let rendered: RenderedIssueResource;
+      try {
+        rendered = await render(issue);
+      } catch (error) {
+        throw new Error(formatErrorMessage(error));
+      }
+      rememberIssue(issue.owner, issue.repo, issue.issueNumber, rendered.title);
+      return { contents: [{ uri: uri.href, mimeType: "text/markdown", text: rendered.text }] };
+    });
+  };
+
+  /**
+   * Render the issue resource at `uri` for a subscription poll, which does
+   * not count as the client using the issue.
+   */
+  const renderIssueResource = async (uri: string): Promise<string> => {
+    for (const { template, render } of issueResources) {
+      const variables = template.uriTemplate.match(uri);
+      if (variables) {
+        return (await render(issueFromResourceVariables(variables))).text;
+      }
+    }
+    throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} not found`);
+  };
+
+  registerIssueResource(
+    "issue",
+    new ResourceTemplate("github-issue://{owner}/{repo}/{number}", {
+      complete: issueVariableCompletions,
+      // Issues are too many to list; offer the ones this session has used
+      list: () => ({
+        resources: [...recentIssues.values()].reverse().map(({ owner, repo, issueNumber, title }) => ({
+          uri: issueResourceUri(owner, repo, issueNumber),
+          name: `${owner}/${repo}#${issueNumber}`,
+          ...(title && { title: `${owner}/${repo}#${issueNumber}: ${title}` }),
+          mimeType: "text/markdown",
+        })),
+      }),
+    }),
+    {
+      title: "GitHub Issue",
+      description: "An issue's details: state, labels, assignees, milestone, sub-issue progress and description. " +
+        "Lists the issues recently read through tools or resources.",
+    },
+    async ({ owner, repo, issueNumber }) => {
+      const issue = await githubClient.getIssue(owner, repo, issueNumber);
+      return { text: formatIssueDetailAsMarkdown(issue), title: issue.title };
+    }
+  );
+
+  registerIssueResource(
+    "issue-sub-issues",
+    new ResourceTemplate("github-issue://{owner}/{repo}/{number}/sub-issues", {
+      list: undefined,
+      complete: issueVariableCompletions,
+    }),
+    {
+      title: "GitHub Sub-Issues",
+      description: "An issue's sub-issues in priority order.",
+    },
+    async ({ owner, repo, issueNumber }) => {
+      const subIssues = await githubClient.listSubIssues(owner, repo, issueNumber);
+      if (subIssues.items.length === 0) {
+        return { text: `Issue #${issueNumber} in ${owner}/${repo} has no sub-issues.` };
+      }
+      return {
+        text: `# Sub-Issues of ${owner}/${repo}#${issueNumber}\n\n` +
+          `${subIssues.items.length} sub-issue(s) in priority order:\n\n` +
+          formatIssueListAsMarkdown(subIssues.items, true) +
+          formatTruncationNotice(subIssues.truncated),
+      };
+    }
+  );
+
+  registerIssueResource(
+    "issue-dependencies",
+    new ResourceTemplate("github-issue://{owner}/{repo}/{number}/dependencies", {
+      list: undefined,
+      complete: issueVariableCompletions,
+    }),
+    {
+      title: "GitHub Issue Dependencies",
+      description: "The issues blocking an issue and the issues it blocks.",
+    },
+    async ({ owner, repo, issueNumber }) => {
+      const [blockedBy, blocking] = await Promise.all([
+        githubClient.getBlockedBy(owner, repo, issueNumber),
+        githubClient.getBlocking(owner, repo, issueNumber),
+      ]);
+      const section = (heading: string, issues: PaginatedResult<IssueReference>) =>
+        `## ${heading}\n\n` +
+        (issues.items.length > 0 ? formatIssueListAsMarkdown(issues.items) : "None.") +
+        formatTruncationNotice(issues.truncated);
+      return {
+        text: [
+          `# Dependencies of ${owner}/${repo}#${issueNumber}`,
+          section("Blocked by", blockedBy),
+          section("Blocking", blocking),
+        ].join("\n\n"),
+      };
+    }
+  );
+
+  // Subscribed resources are polled and the client notified when they change
+  const subscriptions = new ResourceSubscriptions({
+    read: renderIssueResource,
+    onUpdated: (uri) => {
+      server.server.sendResourceUpdated({ uri }).catch(() => {
+        // The client went away; the subscription ends when the server closes
+      });
+    },
+    pollSeconds: toolSettings.subscriptionPollSeconds,
+  });
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    try {
+      await subscriptions.subscribe(request.params.uri);
+    } catch (error) {
+      throw error instanceof McpError ? error : new Error(formatErrorMessage(error));
+    }
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+  server.server.onclose = () => subscriptions.close();
+
+  // ==================== Prompts ====================
+
+  // Prompt arguments arrive as strings
+  const IssuePromptArgs = {
+    owner: completable(
+      z.string().min(1).describe("Repository owner (username or organization)"),
+      issueVariableCompletions.owner
+    ),
+    repo: completable(z.string().min(1).describe("Repository name"), issueVariableCompletions.repo),
+    issue_number: completable(
+      z.string().regex(/^[1-9]\d*$/, "Issue number must be a positive integer").describe("Issue number"),
+      issueVariableCompletions.number
+    ),
+  };
+
+  /**
+   * Register a prompt about one issue. `build` pre-fetches what the prompt
+   * needs and returns the user message; GitHub failures become errors with
+   * the request ID.
+   */
+  const registerIssuePrompt = (
+    name: string,
+    config: { title: string; description: string },
+    build: (issue: IssueIdentifier) => Promise<string>
+  ) => {
+    server.registerPrompt(name, { ...config, argsSchema: IssuePromptArgs }, async (args) => {
+      let text: string;
+      try {
+        text = await build({ owner: args.owner, repo: args.repo, issueNumber: Number(args.issue_number) });
+      } catch (error) {
+        throw new Error(formatErrorMessage(error));
+      }
+      return { messages: [{ role: "user" as const, content: { type: "text" as const, text } }] };
+    });
+  };
+
+  /**
+   * Bullet list of suggested tool calls, leaving out tools this server does
+   * not offer (read-only mode, allow/deny lists).
+   */
+  const formatToolSteps = (steps: Array<[tool: string, text: string]>): string =>
+    steps
+      .filter(([tool]) => registeredTools.has(tool))
+      .map(([tool, text]) => `- ${text.replace("{tool}", tool)}`)
+      .join("\n");
+
+  /**
+   * Render a readiness report: open issues that can start now, and blocked
+   * ones with what they wait on.
+   */
+  const formatReadinessAsMarkdown = (report: ReadinessReport, base: { owner: string; repo: string }): string => {
+    const ready = report.ready.length > 0 ? formatIssueListAsMarkdown(report.ready) : "None.";
+    const blocked = report.blocked.length > 0
+      ? report.blocked.map(({ issue, waiting_on }) =>
+          `- ${formatIssueRef(issue, base)}: ${issue.title} — waiting on ` +
+          waiting_on.map((blocker) => `${formatIssueRef(blocker, base)} (${blocker.title})`).join(", ")
+        ).join("\n")
+      : "None.";
+    const denied = report.denied.length > 0
+      ? `\n\n### Not checked (outside the repository policy)\n\n${formatIssueListAsMarkdown(report.denied)}`
+      : "";
+    return `### Ready to start\n\n${ready}\n\n### Blocked\n\n${blocked}${denied}` +
+      formatTruncationNotice(report.truncated);
+  };
+
+  registerIssuePrompt(
+    "break_down_issue",
+    {
+      title: "Break Down an Issue",
+      description: "Plan the sub-issues that complete an issue, with their order and dependencies.",
+    },
+    async (issue) => {
+      const { owner, repo, issueNumber } = issue;
+      const [detail, subIssues] = await Promise.all([
+        githubClient.getIssue(owner, repo, issueNumber),
+        githubClient.listSubIssues(owner, repo, issueNumber),
+      ]);
+      const existing = subIssues.items.length > 0
+        ? formatIssueListAsMarkdown(subIssues.items, true) + formatTruncationNotice(subIssues.truncated)
+        : "None yet.";
+      const steps = formatToolSteps([
+        ["github_add_sub_issues", `Attach them with {tool} (owner="${owner}", repo="${repo}", issue_number=${issueNumber}).`],
+        ["github_add_blocking_dependencies", "Record which sub-issues must finish before others with {tool}."],
+        ["github_plan_epic", "Put the sub-issues in dependency order with {tool} and apply_order=true."],
+      ]);
+      return [
+        `Break down ${owner}/${repo}#${issueNumber} into sub-issues.`,
+        formatIssueDetailAsMarkdown(detail),
+        `## Current sub-issues\n\n${existing}`,
+        "Propose the sub-issues that together complete this issue, each small enough for a single pull request, " +
+          "in the order they should be done, and note which ones block others. Keep the current sub-issues that fit " +
+          "and say which ones do not.",
+        steps
+          ? "This server cannot create issues. Once I agree with the breakdown and the new issues exist:\n\n" +
+            `${steps}\n\nPass dry_run=true first to check the changes, and do not make them without my confirmation.`
+          : "",
+      ].filter((part) => part !== "").join("\n\n");
+    }
+  );
+
+  registerIssuePrompt(
+    "triage_release_blockers",
+    {
+      title: "Triage Release Blockers",
+      description: "Review what blocks the open sub-issues of a release or milestone tracking issue.",
+    },
+    async (issue) => {
+      const { owner, repo, issueNumber } = issue;
+      const [detail, subIssues] = await Promise.all([
+        githubClient.getIssue(owner, repo, issueNumber),
+        githubClient.listSubIssues(owner, repo, issueNumber),
+      ]);
+      const report = await classifyReadiness(githubClient, subIssues.items);
+      const steps = formatToolSteps([
+        ["github_get_dependency_graph", "Use {tool} to follow a blocker chain further."],
+        ["github_find_dependency_cycles", "Use {tool} if issues seem to wait on each other."],
+        ["github_remove_blocking_dependency", "Suggest {tool} for dependencies that no longer hold."],
+        ["github_reprioritize_sub_issue", "Suggest {tool} to move the most urgent issues up."],
+      ]);
+      return [
+        `Triage the blockers of the release tracked by ${owner}/${repo}#${issueNumber}: "${detail.title}".`,
+        `## Sub-issues\n\n${subIssues.items.length} sub-issue(s), ${report.closed_count} closed.` +
+          formatTruncationNotice(subIssues.truncated),
+        formatReadinessAsMarkdown(report, issue),
+        "For each blocked issue, judge whether its blockers really must land first, and whether the issue is needed " +
+          "for this release at all. Then list what to do, most urgent first: blockers to resolve, dependencies to drop, " +
+          "and issues to move out of the release.",
+        steps ? `${steps}\n\nDo not change anything without my confirmation.` : "",
+      ].filter((part) => part !== "").join("\n\n");
+    }
+  );
+
+  registerIssuePrompt(
+    "epic_status_update",
+    {
+      title: "Write an Epic Status Update",
+      description: "Draft a status update for an epic from its sub-issue progress and blockers.",
+    },
+    async (issue) => {
+      const { owner, repo, issueNumber } = issue;
+      const tree = await buildIssueTree(githubClient, issue, { maxDepth: DEFAULT_TREE_DEPTH, maxNodes: MAX_TREE_NODES });
+      // Revalidated against the cache entry the tree just filled
+      const subIssues = await githubClient.listSubIssues(owner, repo, issueNumber);
+      const report = await classifyReadiness(githubClient, subIssues.items);
+      const { progress } = tree.root;
+      const steps = formatToolSteps([
+        ["github_get_issue", "Use {tool} for the description of an issue you need to say more about."],
+      ]);
+      return [
+        `Write a status update for the epic ${owner}/${repo}#${issueNumber}: "${tree.root.title}".`,
+        `## Progress\n\n${progress.closed}/${progress.total} sub-issues done (${progress.percent_complete}%).\n\n` +
+          formatIssueTreeAsMarkdown(tree.root, issue).join("\n") +
+          (tree.truncated ? "\n\n*The hierarchy was too large to list completely.*" : ""),
+        `## Next sub-issues\n\n${formatReadinessAsMarkdown(report, issue)}`,
+        "Write a short update for stakeholders: overall progress, what was completed, what is next, and the risks, " +
+          "naming the blocked issues and what they wait on. Refer to issues by number and keep it under 200 words.",
+        steps,
+      ].filter((part) => part !== "").join("\n\n");
+    }
+  );
+
   return server;
 }
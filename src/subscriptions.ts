@@ -0,0 +1,111 @@
+/**
+ * Polling behind MCP resource subscriptions.
+ *
+ * GitHub has no push notifications for issue relationships, so subscribed
+ * resources are re-read on an interval and a client is notified when a
+ * resource's content differs from the previous read. Reads go through the
+ * GitHubClient cache, which revalidates with ETags: an unchanged resource
+ * costs 304 responses, which do not count against the rate limit.
+ */
+
+import { createHash } from "node:crypto";
+
+/** Default seconds between polls of subscribed resources. */
+export const DEFAULT_SUBSCRIPTION_POLL_SECONDS = 60;
+
+export interface ResourceSubscriptionsOptions {
+  /** Render a resource; subscribers are notified when the result changes. */
+  read: (uri: string) => Promise<string>;
+  /** Called for each subscribed resource whose content changed. */
+  onUpdated: (uri: string) => void;
+  pollSeconds?: number;
+}
+
+function digest(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+export class ResourceSubscriptions {
+  private readonly read: (uri: string) => Promise<string>;
+  private readonly onUpdated: (uri: string) => void;
+  private readonly pollMs: number;
+  /** Digest of the last content read, by subscribed URI. */
+  private readonly digests = new Map<string, string>();
+  private timer: NodeJS.Timeout | null = null;
+  /** The poll in progress, so polls never overlap. */
+  private polling: Promise<void> | null = null;
+
+  constructor(options: ResourceSubscriptionsOptions) {
+    this.read = options.read;
+    this.onUpdated = options.onUpdated;
+    this.pollMs = (options.pollSeconds ?? DEFAULT_SUBSCRIPTION_POLL_SECONDS) * 1000;
+  }
+
+  /**
+   * Start watching a resource. Rejects, without subscribing, if the resource
+   * cannot be read.
+   */
+  async subscribe(uri: string): Promise<void> {
+    const content = await this.read(uri);
+    this.digests.set(uri, digest(content));
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), this.pollMs);
+      // Subscriptions alone should not keep the process running
+      this.timer.unref();
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    this.digests.delete(uri);
+    if (this.digests.size === 0) {
+      this.close();
+    }
+  }
+
+  /** Subscribed URIs. */
+  get uris(): string[] {
+    return [...this.digests.keys()];
+  }
+
+  /**
+   * Re-read every subscribed resource and notify about the ones that changed.
+   * A resource that fails to read keeps its previous content and is retried
+   * on the next poll.
+   */
+  poll(): Promise<void> {
+    this.polling ??= this.pollAll().finally(() => {
+      this.polling = null;
+    });
+    return this.polling;
+  }
+
+  /** Stop polling and drop every subscription. */
+  close(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.digests.clear();
+  }
+
+  private async pollAll(): Promise<void> {
+    for (const uri of this.uris) {
+      let content: string;
+      try {
+        content = await this.read(uri);
+      } catch {
+        continue;
+      }
+      const previous = this.digests.get(uri);
+      const current = digest(content);
+      // Unsubscribed while reading
+      if (previous === undefined) {
+        continue;
+      }
+      if (current !== previous) {
+        this.digests.set(uri, current);
+        this.onUpdated(uri);
+      }
+    }
+  }
+}
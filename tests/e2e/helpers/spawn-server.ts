@@ -20,14 +20,16 @@ export interface SpawnedServer {
  * Spawns the MCP server as a child process.
  *
  * @param env - Environment variables to pass to the server
+ * @param args - Command-line arguments for the server
  * @returns A promise that resolves when the server is ready
  */
 export async function spawnServer(
-  env?: Record<string, string>
+  env?: Record<string, string>,
+  args: string[] = []
 ): Promise<SpawnedServer> {
   const serverPath = resolve(__dirname, '../../../dist/index.js');
 
-  const proc = spawn('node', [serverPath], {
+  const proc = spawn('node', [serverPath, ...args], {
     env: { ...process.env, ...env },
     stdio: ['pipe', 'pipe', 'pipe'],
   });
@@ -40,7 +42,7 @@ export async function spawnServer(
   proc.stderr.on('data', (data: Buffer) => {
     const message = data.toString();
     // Only log if it's not the startup message
-    if (!message.includes('MCP server running')) {
+    if (!message.includes('MCP server running') && !message.includes('MCP server listening')) {
       console.error(`[server stderr]: ${message}`);
     }
   });
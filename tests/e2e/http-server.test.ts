@@ -0,0 +1,84 @@
+/**
+ * End-to-end tests for the MCP server in HTTP mode.
+ *
+ * These tests spawn the actual server process with `--http` on a free port
+ * and talk to it with the SDK's Streamable HTTP client.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { createMockGitHubServer } from './mocks/mock-github-server.js';
+import { spawnServer, killServer, type SpawnedServer } from './helpers/spawn-server.js';
+
+/**
+ * Wait for the server to log the URL it is listening on.
+ */
+function waitForUrl(server: SpawnedServer): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let output = '';
+    const timer = setTimeout(() => reject(new Error(`Server did not start: ${output}`)), 5000);
+    server.stderr.on('data', (data: Buffer) => {
+      output += data.toString();
+      const match = output.match(/listening on (http:\/\/\S+)/);
+      if (match) {
+        clearTimeout(timer);
+        resolve(match[1]);
+      }
+    });
+  });
+}
+
+describe('MCP Server E2E via HTTP', () => {
+  let mockGitHub: Awaited<ReturnType<typeof createMockGitHubServer>>;
+  let server: SpawnedServer;
+  let url: string;
+
+  beforeAll(async () => {
+    mockGitHub = await createMockGitHubServer();
+    server = await spawnServer(
+      {
+        GITHUB_TOKEN: 'test-token-for-e2e',
+        GITHUB_API_BASE_URL: mockGitHub.baseUrl,
+      },
+      ['--http', '--port', '0']
+    );
+    url = await waitForUrl(server);
+  });
+
+  afterAll(async () => {
+    if (server.process.exitCode === null) {
+      await killServer(server);
+    }
+    await mockGitHub.close();
+  });
+
+  it('should report health', async () => {
+    const response = await fetch(`${url}/healthz`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ status: 'ok' });
+  });
+
+  it('should call tools over Streamable HTTP', async () => {
+    const client = new Client({ name: 'e2e-http-client', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${url}/mcp`)));
+
+    const result = await client.callTool({
+      name: 'github_get_issue',
+      arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 42 },
+    });
+    await client.close();
+
+    expect(result.isError).toBeFalsy();
+    expect((result.content as Array<{ text: string }>)[0].text).toContain('# #42: Test Issue');
+  });
+
+  it('should shut down cleanly on SIGTERM', async () => {
+    const exited = new Promise<number | null>((resolve) => server.process.once('exit', resolve));
+
+    server.kill();
+
+    expect(await exited).toBe(0);
+  });
+});
@@ -69,6 +69,24 @@ const mockParentIssue: IssueReference = {
   html_url: 'https://github.com/testowner/testrepo/issues/50',
 };
 
+// Issue #1 has no relationships of any kind
+const mockStandaloneIssue: IssueReference = {
+  ...mockIssue,
+  id: 100,
+  number: 1,
+  title: 'Standalone Issue',
+  html_url: 'https://github.com/testowner/testrepo/issues/1',
+};
+
+// Issue #60 has more sub-issues than fit in a single GitHub page
+const manySubIssues: IssueReference[] = Array.from({ length: 130 }, (_, i) => ({
+  ...mockIssue,
+  id: 400000000 + i,
+  number: 1000 + i,
+  title: `Paged sub-issue ${i + 1}`,
+  html_url: `https://github.com/testowner/testrepo/issues/${1000 + i}`,
+}));
+
 interface MockServer {
   server: Server;
   port: number;
@@ -81,13 +99,36 @@ function parseUrl(url: string): { pathname: string; method: string } {
   return { pathname: urlObj.pathname, method: '' };
 }
 
-function sendJson(res: ServerResponse, data: unknown, status = 200): void {
-  res.writeHead(status, { 'Content-Type': 'application/json' });
+function sendJson(
+  res: ServerResponse,
+  data: unknown,
+  status = 200,
+  headers: Record<string, string> = {}
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
   res.end(JSON.stringify(data));
 }
 
+/**
+ * Send one page of a list, with a GitHub-style Link header when more pages exist.
+ */
+function sendPage(res: ServerResponse, url: URL, items: unknown[]): void {
+  const perPage = Number(url.searchParams.get('per_page') ?? 30);
+  const page = Number(url.searchParams.get('page') ?? 1);
+  const start = (page - 1) * perPage;
+  const headers: Record<string, string> = {};
+
+  if (start + perPage < items.length) {
+    const next = new URL(url.toString());
+    next.searchParams.set('page', String(page + 1));
+    headers.link = `<${next.toString()}>; rel="next"`;
+  }
+
+  sendJson(res, items.slice(start, start + perPage), 200, headers);
+}
+
 function send404(res: ServerResponse): void {
-  sendJson(res, { message: 'Not Found' }, 404);
+  sendJson(res, { message: 'Not Found' }, 404, { 'x-github-request-id': 'MOCK:404' });
 }
 
 function send201(res: ServerResponse): void {
@@ -102,10 +143,11 @@ function send204(res: ServerResponse): void {
 
 function handleRequest(req: IncomingMessage, res: ServerResponse): void {
   const method = req.method || 'GET';
-  const url = req.url || '/';
+  const url = new URL(req.url || '/', 'http://localhost');
 
   // Parse the path
   // Expected patterns:
+  // /repos/:owner/:repo/issues/:issue_number
   // /repos/:owner/:repo/issues/:issue_number/dependencies/blocked_by
   // /repos/:owner/:repo/issues/:issue_number/dependencies/blocking
   // /repos/:owner/:repo/issues/:issue_number/dependencies/blocked_by/:issue_id
@@ -114,7 +156,30 @@ function handleRequest(req: IncomingMessage, res: ServerResponse): void {
   // /repos/:owner/:repo/issues/:issue_number/sub_issue
   // /repos/:owner/:repo/issues/:issue_number/sub_issues/priority
 
-  const pathParts = url.split('/').filter(Boolean);
+  const pathParts = url.pathname.split('/').filter(Boolean);
+
+  // Rate limit status: /rate_limit
+  if (method === 'GET' && url.pathname === '/rate_limit') {
+    sendJson(res, {
+      resources: {
+        core: { limit: 5000, remaining: 4999, used: 1, reset: 1700000000 },
+      },
+    });
+    return;
+  }
+
+  // Single issue lookup: repos/owner/repo/issues/number
+  if (pathParts.length === 5 && pathParts[0] === 'repos' && pathParts[3] === 'issues') {
+    const issue = [mockIssue, mockStandaloneIssue, mockParentIssue, ...mockBlockingIssues, ...mockSubIssues].find(
+      (candidate) => String(candidate.number) === pathParts[4]
+    );
+    if (method === 'GET' && issue) {
+      sendJson(res, issue);
+    } else {
+      send404(res);
+    }
+    return;
+  }
 
   // Minimum path: repos/owner/repo/issues/number/...
   if (pathParts.length < 6 || pathParts[0] !== 'repos' || pathParts[3] !== 'issues') {
@@ -176,6 +241,8 @@ function handleRequest(req: IncomingMessage, res: ServerResponse): void {
     if (method === 'GET') {
       if (issueNumber === '1') {
         sendJson(res, []);
+      } else if (issueNumber === '60') {
+        sendPage(res, url, manySubIssues);
       } else {
         sendJson(res, mockSubIssues);
       }
@@ -38,22 +38,35 @@ describe('MCP Server E2E via stdio', () => {
   });
 
   describe('Protocol Compliance', () => {
-    it('should list all 9 tools', async () => {
+    it('should list all 22 tools', async () => {
       const result = await client.listTools();
 
-      expect(result.tools).toHaveLength(9);
+      expect(result.tools).toHaveLength(22);
 
       const toolNames = result.tools.map((t) => t.name).sort();
       expect(toolNames).toEqual([
+        'github_add_blocking_dependencies',
         'github_add_blocking_dependency',
         'github_add_sub_issue',
+        'github_add_sub_issues',
+        'github_find_dependency_cycles',
         'github_get_blocked_by',
         'github_get_blocking',
+        'github_get_dependency_graph',
+        'github_get_issue',
+        'github_get_issue_tree',
         'github_get_parent_issue',
+        'github_get_rate_limit',
+        'github_list_ready_issues',
+        'github_list_recent_changes',
         'github_list_sub_issues',
+        'github_plan_epic',
+        'github_remove_blocking_dependencies',
         'github_remove_blocking_dependency',
         'github_remove_sub_issue',
+        'github_remove_sub_issues',
         'github_reprioritize_sub_issue',
+        'github_undo_change',
       ]);
     });
 
@@ -68,6 +81,47 @@ describe('MCP Server E2E via stdio', () => {
     });
   });
 
+  describe('Issue Tools', () => {
+    describe('github_get_rate_limit', () => {
+      it('should report the remaining quota', async () => {
+        const result = await client.callTool('github_get_rate_limit', { response_format: 'json' });
+
+        expect(result.isError).toBeFalsy();
+        expect(result.structuredContent).toEqual({
+          resources: [
+            { resource: 'core', limit: 5000, remaining: 4999, used: 1, reset_at: '2023-11-14T22:13:20.000Z' },
+          ],
+        });
+      });
+    });
+
+    describe('github_get_issue', () => {
+      it('should return issue details', async () => {
+        const result = await client.callTool('github_get_issue', {
+          owner: 'testowner',
+          repo: 'testrepo',
+          issue_number: 42,
+        });
+
+        expect(result.isError).toBeFalsy();
+        expect(result.content[0].text).toContain('# #42: Test Issue');
+        expect(result.content[0].text).toContain('**ID:** 123456789');
+      });
+
+      it('should return an error for a non-existent issue', async () => {
+        const result = await client.callTool('github_get_issue', {
+          owner: 'testowner',
+          repo: 'testrepo',
+          issue_number: 9999,
+        });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('Issue or repository not found (404): testowner/testrepo#9999');
+        expect(result.content[0].text).toContain('(GitHub request ID: MOCK:404)');
+      });
+    });
+  });
+
   describe('Dependency Tools', () => {
     describe('github_get_blocked_by', () => {
       it('should return blocking issues in markdown format', async () => {
@@ -141,18 +195,95 @@ describe('MCP Server E2E via stdio', () => {
       });
     });
 
+    describe('github_get_dependency_graph', () => {
+      it('should walk blockers transitively without looping', async () => {
+        const result = await client.callTool('github_get_dependency_graph', {
+          owner: 'testowner',
+          repo: 'testrepo',
+          issue_number: 42,
+          response_format: 'json',
+        });
+
+        expect(result.isError).toBeFalsy();
+        const structured = result.structuredContent as {
+          nodes: Array<{ number: number }>;
+          truncated: boolean;
+        };
+        expect(structured.nodes.map((n) => n.number)).toEqual([42, 10, 20]);
+        expect(structured.truncated).toBe(false);
+      });
+    });
+
+    describe('github_list_ready_issues', () => {
+      it('should report sub-issues waiting on open blockers', async () => {
+        const result = await client.callTool('github_list_ready_issues', {
+          owner: 'testowner',
+          repo: 'testrepo',
+          parent_issue_number: 50,
+          response_format: 'json',
+        });
+
+        expect(result.isError).toBeFalsy();
+        const structured = result.structuredContent as {
+          ready_count: number;
+          blocked: Array<{ issue: { number: number }; waiting_on: Array<{ number: number }> }>;
+          closed_count: number;
+        };
+        expect(structured.ready_count).toBe(0);
+        expect(structured.blocked.map((b) => b.issue.number)).toEqual([101, 102]);
+        expect(structured.blocked[0].waiting_on.map((i) => i.number)).toEqual([10]);
+        expect(structured.closed_count).toBe(1);
+      });
+    });
+
+    describe('github_plan_epic', () => {
+      it('should plan sub-issues and list blockers outside the epic', async () => {
+        const result = await client.callTool('github_plan_epic', {
+          owner: 'testowner',
+          repo: 'testrepo',
+          issue_number: 50,
+          response_format: 'json',
+        });
+
+        expect(result.isError).toBeFalsy();
+        const structured = result.structuredContent as {
+          order: Array<{ number: number }>;
+          waves: Array<Array<{ number: number }>>;
+          external_blockers: Array<{ issue: { number: number } }>;
+          applied: boolean;
+        };
+        expect(structured.order.map((i) => i.number)).toEqual([101, 102, 103]);
+        expect(structured.waves.map((wave) => wave.map((i) => i.number))).toEqual([[101, 102]]);
+        expect(structured.external_blockers.map((b) => b.issue.number)).toEqual([101, 102]);
+        expect(structured.applied).toBe(false);
+      });
+    });
+
     describe('github_add_blocking_dependency', () => {
       it('should add a blocking dependency', async () => {
         const result = await client.callTool('github_add_blocking_dependency', {
           owner: 'testowner',
           repo: 'testrepo',
-          issue_number: 42,
+          issue_number: 1,
           blocking_issue_id: 100000001,
         });
 
         expect(result.isError).toBeFalsy();
         expect(result.content[0].text).toContain('blocked by');
       });
+
+      it('should refuse a dependency that would create a cycle', async () => {
+        // The mock reports #42 as blocking #10, so #42 cannot also be blocked by #10
+        const result = await client.callTool('github_add_blocking_dependency', {
+          owner: 'testowner',
+          repo: 'testrepo',
+          issue_number: 42,
+          blocking_issue_id: 100000001,
+        });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('would create a cycle: #42 → #10 → #42');
+      });
     });
 
     describe('github_remove_blocking_dependency', () => {
@@ -227,6 +358,27 @@ describe('MCP Server E2E via stdio', () => {
         expect(structured.sub_issues).toHaveLength(3);
       });
 
+      it('should follow GitHub pagination to report the full total', async () => {
+        const result = await client.callTool('github_list_sub_issues', {
+          owner: 'testowner',
+          repo: 'testrepo',
+          issue_number: 60,
+          offset: 120,
+        });
+
+        expect(result.isError).toBeFalsy();
+        const structured = result.structuredContent as {
+          total: number;
+          count: number;
+          truncated: boolean;
+          sub_issues: Array<{ number: number }>;
+        };
+        expect(structured.total).toBe(130);
+        expect(structured.count).toBe(10);
+        expect(structured.truncated).toBe(false);
+        expect(structured.sub_issues[9].number).toBe(1129);
+      });
+
       it('should return empty list for issue with no sub-issues', async () => {
         const result = await client.callTool('github_list_sub_issues', {
           owner: 'testowner',
@@ -239,6 +391,42 @@ describe('MCP Server E2E via stdio', () => {
       });
     });
 
+    describe('github_get_issue_tree', () => {
+      it('should expand sub-issues with progress rollup', async () => {
+        const result = await client.callTool('github_get_issue_tree', {
+          owner: 'testowner',
+          repo: 'testrepo',
+          issue_number: 50,
+        });
+
+        expect(result.isError).toBeFalsy();
+        expect(result.content[0].text).toContain('- [ ] #50: Parent Issue — 1/3 done (33%)');
+        expect(result.content[0].text).toContain('  - [x] #103: Sub-issue 3');
+      });
+    });
+
+    describe('github_add_sub_issues', () => {
+      it('should report success and failure per sub-issue', async () => {
+        const result = await client.callTool('github_add_sub_issues', {
+          owner: 'testowner',
+          repo: 'testrepo',
+          issue_number: 50,
+          sub_issue_ids: ['#101', '#9999'],
+          response_format: 'json',
+        });
+
+        expect(result.isError).toBeFalsy();
+        const structured = result.structuredContent as {
+          results: Array<{ sub_issue_id: string; success: boolean }>;
+          succeeded: number;
+          failed: number;
+        };
+        expect(structured.results.map((r) => r.success)).toEqual([true, false]);
+        expect(structured.succeeded).toBe(1);
+        expect(structured.failed).toBe(1);
+      });
+    });
+
     describe('github_add_sub_issue', () => {
       it('should add a sub-issue', async () => {
         const result = await client.callTool('github_add_sub_issue', {
@@ -252,6 +440,29 @@ describe('MCP Server E2E via stdio', () => {
         expect(result.content[0].text).toContain('sub-issue');
       });
 
+      it('should add a sub-issue referenced by issue number', async () => {
+        const result = await client.callTool('github_add_sub_issue', {
+          owner: 'testowner',
+          repo: 'testrepo',
+          issue_number: 50,
+          sub_issue_id: '#101',
+        });
+
+        expect(result.isError).toBeFalsy();
+        expect(result.content[0].text).toContain('Issue ID 200000001');
+      });
+
+      it('should fail when a referenced issue number does not exist', async () => {
+        const result = await client.callTool('github_add_sub_issue', {
+          owner: 'testowner',
+          repo: 'testrepo',
+          issue_number: 50,
+          sub_issue_id: '#4040',
+        });
+
+        expect(result.isError).toBe(true);
+      });
+
       it('should add a sub-issue with replace_parent flag', async () => {
         const result = await client.callTool('github_add_sub_issue', {
           owner: 'testowner',
@@ -2,7 +2,7 @@
  * Mock GitHub API response data for testing.
  */
 
-import type { IssueReference } from '../../src/github/types.js';
+import type { IssueDetail, IssueReference, PaginatedResult } from '../../src/github/types.js';
 
 export const mockIssue: IssueReference = {
   id: 123456789,
@@ -65,3 +65,46 @@ export const mockParentIssue: IssueReference = {
   title: 'Parent Issue',
   html_url: 'https://github.com/testowner/testrepo/issues/50',
 };
+
+export const mockIssueDetail: IssueDetail = {
+  ...mockParentIssue,
+  body: 'Track the authentication rewrite.',
+  labels: [{ name: 'epic', color: '5319e7', description: 'Large body of work' }],
+  assignees: [{ login: 'octocat' }],
+  milestone: {
+    number: 3,
+    title: 'v2.0',
+    state: 'open',
+    due_on: '2024-06-30T00:00:00Z',
+    html_url: 'https://github.com/testowner/testrepo/milestone/3',
+  },
+  closed_at: null,
+  state_reason: null,
+  sub_issues_summary: { total: 3, completed: 1, percent_completed: 33 },
+};
+
+/**
+ * Wrap items as a list-endpoint result from GitHubClient.
+ */
+export function paginated<T>(items: T[], truncated = false): PaginatedResult<T> {
+  return { items, truncated };
+}
+
+/**
+ * An issue of testowner/testrepo numbered and titled after `number`, with ID
+ * `number * 1000` so IDs and numbers are not mixed up unnoticed. `repo` and
+ * any other field can be overridden.
+ */
+export function issueRef(
+  number: number,
+  { repo = 'testrepo', ...overrides }: Partial<IssueReference> & { repo?: string } = {}
+): IssueReference {
+  return {
+    ...mockIssue,
+    id: number * 1000,
+    number,
+    title: `Issue ${number}`,
+    html_url: `https://github.com/testowner/${repo}/issues/${number}`,
+    ...overrides,
+  };
+}
@@ -0,0 +1,326 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { request } from 'node:http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { startHttpServer, type HttpServerHandle } from '../../src/http.js';
+import type { GitHubClient } from '../../src/github/client.js';
+import { mockIssueDetail } from '../fixtures/github-responses.js';
+
+interface ToolResult {
+  content: Array<{ type: string; text: string }>;
+  isError?: boolean;
+}
+
+const mockGetIssue = vi.fn();
+const withSignal = (_signal: AbortSignal, task: () => Promise<unknown>) => task();
+const mockCreateClient = vi.fn(
+  (token: string) => ({ token, getIssue: mockGetIssue, withSignal }) as unknown as GitHubClient
+);
+const fallbackClient = { getIssue: mockGetIssue, withSignal } as unknown as GitHubClient;
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'raw-client', version: '1.0.0' } },
+};
+
+describe('HTTP transport', () => {
+  let http: HttpServerHandle;
+  const clients: Client[] = [];
+
+  const withToken = (token: string) => ({ headers: { Authorization: `Bearer ${token}` } });
+
+  /** Post a JSON-RPC message to /mcp. */
+  const post = (body: unknown, headers: Record<string, string> = {}) =>
+    fetch(`${http.url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+      body: JSON.stringify(body),
+    });
+
+  const connect = async (transport: StreamableHTTPClientTransport | SSEClientTransport): Promise<Client> => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(transport);
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    http = await startHttpServer(
+      { transport: 'http', host: '127.0.0.1', port: 0, sessionIdleTimeoutSeconds: 60 },
+      { createClient: mockCreateClient, fallbackClient }
+    );
+  });
+
+  afterEach(async () => {
+    await Promise.allSettled(clients.splice(0).map((client) => client.close()));
+    await http.close();
+  });
+
+  it('should report health', async () => {
+    const response = await fetch(`${http.url}/healthz`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok', sessions: 0 });
+  });
+
+  it('should serve tools over Streamable HTTP', async () => {
+    mockGetIssue.mockResolvedValue(mockIssueDetail);
+    const client = await connect(new StreamableHTTPClientTransport(new URL(`${http.url}/mcp`)));
+
+    const tools = await client.listTools();
+    const result = (await client.callTool({
+      name: 'github_get_issue',
+      arguments: { owner: 'owner', repo: 'repo', issue_number: 42 },
+    })) as ToolResult;
+
+    expect(tools.tools).toHaveLength(22);
+    expect(result.isError).toBeFalsy();
+    expect(mockGetIssue).toHaveBeenCalledWith('owner', 'repo', 42);
+    expect(http.sessionCount).toBe(1);
+  });
+
+  it('should serve tools over legacy SSE', async () => {
+    const client = await connect(new SSEClientTransport(new URL(`${http.url}/sse`)));
+
+    const tools = await client.listTools();
+
+    expect(tools.tools).toHaveLength(22);
+    expect(http.sessionCount).toBe(1);
+  });
+
+  it('should keep sessions separate and end them on request', async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(`${http.url}/mcp`));
+    await connect(transport);
+    await connect(new StreamableHTTPClientTransport(new URL(`${http.url}/mcp`)));
+    expect(http.sessionCount).toBe(2);
+
+    await transport.terminateSession();
+
+    expect(http.sessionCount).toBe(1);
+  });
+
+  it('should reject unknown sessions', async () => {
+    const response = await post(
+      { jsonrpc: '2.0', id: 1, method: 'tools/list' },
+      { 'mcp-session-id': 'no-such-session' }
+    );
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error.message).toBe('Session not found');
+  });
+
+  it('should require initialization before other requests', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject malformed JSON', async () => {
+    const response = await fetch(`${http.url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{not json',
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe(-32700);
+  });
+
+  it('should return 404 for unknown paths', async () => {
+    const response = await fetch(`${http.url}/nope`);
+
+    expect(response.status).toBe(404);
+  });
+
+  describe('DNS rebinding protection', () => {
+    /** Send a request with raw headers; fetch does not let tests set Host. */
+    const send = (method: string, path: string, headers: Record<string, string>, body?: unknown) =>
+      new Promise<{ status: number; body: string }>((resolve, reject) => {
+        const req = request(`${http.url}${path}`, {
+          method,
+          headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+        }, (res) => {
+          // SSE streams stay open, so settle on the status line
+          if (res.headers['content-type'] === 'text/event-stream') {
+            res.destroy();
+            resolve({ status: res.statusCode!, body: '' });
+            return;
+          }
+          let text = '';
+          res.on('data', (chunk) => (text += chunk));
+          res.on('end', () => resolve({ status: res.statusCode!, body: text }));
+        });
+        req.on('error', reject);
+        req.end(body === undefined ? undefined : JSON.stringify(body));
+      });
+
+    const initialize = (headers: Record<string, string>) => send('POST', '/mcp', headers, initializeRequest);
+
+    it('should accept the loopback names when bound to loopback', async () => {
+      const port = new URL(http.url).port;
+
+      for (const host of [`localhost:${port}`, `127.0.0.1:${port}`, `[::1]:${port}`]) {
+        expect((await initialize({ Host: host })).status).toBe(200);
+      }
+    });
+
+    it('should reject requests for other hosts', async () => {
+      const response = await initialize({ Host: 'attacker.example:80' });
+
+      expect(response.status).toBe(403);
+      expect(JSON.parse(response.body).error.message).toBe('Invalid Host header: attacker.example:80');
+      expect(http.sessionCount).toBe(0);
+    });
+
+    it('should reject cross-origin browser requests', async () => {
+      const sameOrigin = await post(initializeRequest, { Origin: http.url });
+      const crossOrigin = await post(initializeRequest, { Origin: 'https://attacker.example' });
+
+      expect(sameOrigin.status).toBe(200);
+      expect(crossOrigin.status).toBe(403);
+      expect((await crossOrigin.json()).error.message).toBe('Invalid Origin header: https://attacker.example');
+    });
+
+    it('should reject the SSE stream for other hosts', async () => {
+      const response = await send('GET', '/sse', { Host: 'attacker.example' });
+
+      expect(response.status).toBe(403);
+      expect(http.sessionCount).toBe(0);
+    });
+
+    it('should accept configured hosts', async () => {
+      await http.close();
+      http = await startHttpServer(
+        { transport: 'http', host: '127.0.0.1', port: 0, sessionIdleTimeoutSeconds: 60, allowedHosts: ['MCP.example.com'] },
+        { createClient: mockCreateClient, fallbackClient }
+      );
+
+      const proxied = await initialize({ Host: 'mcp.example.com', Origin: 'https://mcp.example.com' });
+      const other = await initialize({ Host: 'other.example.com' });
+
+      expect(proxied.status).toBe(200);
+      expect(other.status).toBe(403);
+    });
+
+    it('should require allowed hosts when bound to every interface', async () => {
+      await expect(startHttpServer(
+        { transport: 'http', host: '0.0.0.0', port: 0, sessionIdleTimeoutSeconds: 60 },
+        { createClient: mockCreateClient, fallbackClient }
+      )).rejects.toThrow('MCP_HTTP_ALLOWED_HOSTS is required when listening on 0.0.0.0');
+
+      await http.close();
+      http = await startHttpServer(
+        { transport: 'http', host: '0.0.0.0', port: 0, sessionIdleTimeoutSeconds: 60, allowedHosts: ['mcp.example.com'] },
+        { createClient: mockCreateClient, fallbackClient }
+      );
+      const port = new URL(http.url).port;
+
+      expect((await initialize({ Host: `mcp.example.com:${port}` })).status).toBe(200);
+    });
+
+    it('should not check the health endpoint', async () => {
+      const response = await send('GET', '/healthz', { Host: '10.0.0.5:3000' });
+
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe('credentials', () => {
+    it('should use the fallback client when the client sends no token', async () => {
+      await connect(new StreamableHTTPClientTransport(new URL(`${http.url}/mcp`)));
+
+      expect(mockCreateClient).not.toHaveBeenCalled();
+      expect(http.sessionCount).toBe(1);
+    });
+
+    it('should give each session the client for its own token', async () => {
+      await connect(new StreamableHTTPClientTransport(new URL(`${http.url}/mcp`), { requestInit: withToken('alice') }));
+      await connect(new SSEClientTransport(new URL(`${http.url}/sse`), {
+        requestInit: withToken('bob'),
+        eventSourceInit: { fetch: (url, init) => fetch(url, { ...init, ...withToken('bob') }) },
+      }));
+      await connect(new StreamableHTTPClientTransport(new URL(`${http.url}/mcp`), { requestInit: withToken('alice') }));
+
+      // Sessions with the same token share a client
+      expect(mockCreateClient.mock.calls).toEqual([['alice'], ['bob']]);
+      expect(http.sessionCount).toBe(3);
+    });
+
+    it('should accept the "token" scheme', async () => {
+      const response = await post(initializeRequest, { Authorization: 'token ghp_abc' });
+
+      expect(response.status).toBe(200);
+      expect(mockCreateClient).toHaveBeenCalledWith('ghp_abc');
+    });
+
+    it('should reject malformed Authorization headers', async () => {
+      const response = await post(initializeRequest, { Authorization: 'Basic dXNlcjpwYXNz' });
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get('www-authenticate')).toBe('Bearer');
+      expect(mockCreateClient).not.toHaveBeenCalled();
+    });
+
+    it('should reject requests using another token for an existing session', async () => {
+      const transport = new StreamableHTTPClientTransport(new URL(`${http.url}/mcp`), {
+        requestInit: withToken('alice'),
+      });
+      await connect(transport);
+
+      const response = await post(
+        { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+        { Authorization: 'Bearer mallory', 'mcp-session-id': transport.sessionId!, 'mcp-protocol-version': '2025-06-18' }
+      );
+
+      expect(response.status).toBe(403);
+      expect((await response.json()).error.message).toBe('Session belongs to a different GitHub token');
+    });
+
+    it('should require a token when there is no fallback', async () => {
+      await http.close();
+      http = await startHttpServer(
+        { transport: 'http', host: '127.0.0.1', port: 0, sessionIdleTimeoutSeconds: 60 },
+        { createClient: mockCreateClient }
+      );
+
+      const response = await post(initializeRequest);
+
+      expect(response.status).toBe(401);
+      expect((await response.json()).error.message).toContain('A GitHub token is required');
+    });
+
+    it('should create a new client once every session for a token has ended', async () => {
+      const transport = new StreamableHTTPClientTransport(new URL(`${http.url}/mcp`), {
+        requestInit: withToken('alice'),
+      });
+      await connect(transport);
+      await transport.terminateSession();
+
+      await connect(new StreamableHTTPClientTransport(new URL(`${http.url}/mcp`), { requestInit: withToken('alice') }));
+
+      expect(mockCreateClient.mock.calls).toEqual([['alice'], ['alice']]);
+    });
+  });
+
+  it('should reject unknown tool names without creating a client', async () => {
+    await expect(startHttpServer(
+      { transport: 'http', host: '127.0.0.1', port: 0, sessionIdleTimeoutSeconds: 60 },
+      { createClient: mockCreateClient, toolSettings: { allowedTools: ['github_get_issues'] } }
+    )).rejects.toThrow('Unknown tool name(s) in the tool allowlist or denylist: github_get_issues');
+    expect(mockCreateClient).not.toHaveBeenCalled();
+  });
+
+  it('should close open sessions on shutdown', async () => {
+    await connect(new StreamableHTTPClientTransport(new URL(`${http.url}/mcp`)));
+    await connect(new SSEClientTransport(new URL(`${http.url}/sse`)));
+
+    await http.close();
+
+    expect(http.sessionCount).toBe(0);
+    await expect(fetch(`${http.url}/healthz`)).rejects.toThrow();
+  });
+});
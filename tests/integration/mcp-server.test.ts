@@ -1,12 +1,21 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
 import {
   mockBlockingIssues,
   mockSubIssues,
   mockParentIssue,
   mockIssue,
+  mockIssueDetail,
+  issueRef,
+  paginated,
 } from '../fixtures/github-responses.js';
+import { GitHubApiError } from '../../src/github/errors.js';
+import { PolicyDeniedError } from '../../src/github/policy.js';
 
 // Type helper for tool results
 interface ToolResult {
@@ -15,6 +24,7 @@ interface ToolResult {
 }
 
 // Create mock functions for GitHubClient methods
+const mockGetIssue = vi.fn();
 const mockGetBlockedBy = vi.fn();
 const mockGetBlocking = vi.fn();
 const mockAddBlockingDependency = vi.fn();
@@ -24,6 +34,18 @@ const mockListSubIssues = vi.fn();
 const mockAddSubIssue = vi.fn();
 const mockRemoveSubIssue = vi.fn();
 const mockReprioritizeSubIssue = vi.fn();
+const mockGetRateLimit = vi.fn();
+const mockRecentChanges = vi.fn();
+const mockPlanUndo = vi.fn();
+const mockUndoChange = vi.fn();
+const mockUndoneBy = vi.fn();
+const mockListRepositories = vi.fn();
+const mockListOwnerRepositories = vi.fn();
+const mockSearchIssues = vi.fn();
+const mockCheckRelationshipWrite = vi.fn();
+const mockCheckSubIssueMove = vi.fn();
+// The signal the last tool call ran with
+let toolCallSignal: AbortSignal | undefined;
 
 // Mock config before importing server
 vi.mock('../../src/config.js', () => ({
@@ -33,6 +55,7 @@ vi.mock('../../src/config.js', () => ({
 // Mock GitHubClient as a class
 vi.mock('../../src/github/client.js', () => ({
   GitHubClient: class MockGitHubClient {
+    getIssue = mockGetIssue;
     getBlockedBy = mockGetBlockedBy;
     getBlocking = mockGetBlocking;
     addBlockingDependency = mockAddBlockingDependency;
@@ -42,6 +65,36 @@ vi.mock('../../src/github/client.js', () => ({
     addSubIssue = mockAddSubIssue;
     removeSubIssue = mockRemoveSubIssue;
     reprioritizeSubIssue = mockReprioritizeSubIssue;
+    getRateLimit = mockGetRateLimit;
+    recentChanges = mockRecentChanges;
+    planUndo = mockPlanUndo;
+    undoChange = mockUndoChange;
+    undoneBy = mockUndoneBy;
+    listRepositories = mockListRepositories;
+    listOwnerRepositories = mockListOwnerRepositories;
+    searchIssues = mockSearchIssues;
+    checkRelationshipWrite = mockCheckRelationshipWrite;
+    checkSubIssueMove = mockCheckSubIssueMove;
+    scope = 'test-scope';
+    async collectRequestIds<T>(requestIds: string[], task: () => Promise<T>) {
+      requestIds.push('MOCK:1');
+      return task();
+    }
+    async withSignal<T>(signal: AbortSignal, task: () => Promise<T>) {
+      toolCallSignal = signal;
+      return task();
+    }
+    async runBatch<T, R>(items: T[], task: (item: T) => Promise<R>) {
+      const outcomes = [];
+      for (const item of items) {
+        try {
+          outcomes.push({ ok: true, value: await task(item) });
+        } catch (error) {
+          outcomes.push({ ok: false, error: (error as Error).message });
+        }
+      }
+      return outcomes;
+    }
     constructor() {}
   },
 }));
@@ -73,27 +126,314 @@ describe('MCP Server Integration', () => {
   });
 
   describe('listTools', () => {
-    it('should list all 9 tools', async () => {
+    it('should list all 22 tools', async () => {
       const result = await client.listTools();
 
-      expect(result.tools).toHaveLength(9);
+      expect(result.tools).toHaveLength(22);
 
       const toolNames = result.tools.map((t) => t.name);
+      expect(toolNames).toContain('github_get_issue');
       expect(toolNames).toContain('github_get_blocked_by');
       expect(toolNames).toContain('github_get_blocking');
       expect(toolNames).toContain('github_add_blocking_dependency');
       expect(toolNames).toContain('github_remove_blocking_dependency');
+      expect(toolNames).toContain('github_get_dependency_graph');
+      expect(toolNames).toContain('github_find_dependency_cycles');
+      expect(toolNames).toContain('github_list_ready_issues');
+      expect(toolNames).toContain('github_plan_epic');
+      expect(toolNames).toContain('github_add_blocking_dependencies');
+      expect(toolNames).toContain('github_remove_blocking_dependencies');
+      expect(toolNames).toContain('github_add_sub_issues');
+      expect(toolNames).toContain('github_remove_sub_issues');
+      expect(toolNames).toContain('github_get_rate_limit');
       expect(toolNames).toContain('github_get_parent_issue');
       expect(toolNames).toContain('github_list_sub_issues');
+      expect(toolNames).toContain('github_get_issue_tree');
       expect(toolNames).toContain('github_add_sub_issue');
       expect(toolNames).toContain('github_remove_sub_issue');
       expect(toolNames).toContain('github_reprioritize_sub_issue');
+      expect(toolNames).toContain('github_list_recent_changes');
+      expect(toolNames).toContain('github_undo_change');
+    });
+  });
+
+  describe('tool filtering', () => {
+    const listFilteredTools = async (toolFilter: Record<string, unknown>) => {
+      const { createServer } = await import('../../src/server.js');
+      const { GitHubClient } = await import('../../src/github/client.js');
+      const [filteredClientTransport, filteredServerTransport] = InMemoryTransport.createLinkedPair();
+      await createServer(new GitHubClient('test-token'), toolFilter).connect(filteredServerTransport);
+      const filteredClient = new Client({ name: 'test-client', version: '1.0.0' });
+      await filteredClient.connect(filteredClientTransport);
+
+      const result = await filteredClient.listTools();
+      await filteredClient.close();
+      return result.tools.map((t) => t.name).sort();
+    };
+
+    it('should register only read-only tools in read-only mode', async () => {
+      const toolNames = await listFilteredTools({ readOnly: true });
+
+      expect(toolNames).toEqual([
+        'github_find_dependency_cycles',
+        'github_get_blocked_by',
+        'github_get_blocking',
+        'github_get_dependency_graph',
+        'github_get_issue',
+        'github_get_issue_tree',
+        'github_get_parent_issue',
+        'github_get_rate_limit',
+        'github_list_ready_issues',
+        'github_list_recent_changes',
+        'github_list_sub_issues',
+      ]);
+    });
+
+    it('should register only allowlisted tools', async () => {
+      const toolNames = await listFilteredTools({ allowedTools: ['github_get_issue', 'github_add_sub_issue'] });
+
+      expect(toolNames).toEqual(['github_add_sub_issue', 'github_get_issue']);
+    });
+
+    it('should apply the denylist after the allowlist and read-only mode', async () => {
+      const toolNames = await listFilteredTools({
+        readOnly: true,
+        allowedTools: ['github_get_issue', 'github_get_blocking', 'github_add_sub_issue'],
+        deniedTools: ['github_get_blocking'],
+      });
+
+      expect(toolNames).toEqual(['github_get_issue']);
+    });
+
+    it('should reject unknown tool names', async () => {
+      await expect(listFilteredTools({ deniedTools: ['github_delete_everything'] })).rejects.toThrow(
+        'Unknown tool name(s) in the tool allowlist or denylist: github_delete_everything'
+      );
+    });
+
+    it('should register every known tool by default', async () => {
+      const { TOOL_NAMES } = await import('../../src/server.js');
+      const toolNames = await listFilteredTools({});
+
+      expect(toolNames).toEqual([...TOOL_NAMES].sort());
+    });
+  });
+
+  describe('github_get_issue tool', () => {
+    it('should render labels, assignees, milestone and sub-issue progress', async () => {
+      mockGetIssue.mockResolvedValueOnce(mockIssueDetail);
+
+      const result = await client.callTool({
+        name: 'github_get_issue',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50 },
+      });
+
+      expect(mockGetIssue).toHaveBeenCalledWith('testowner', 'testrepo', 50);
+      const text = (result.content[0] as { text: string }).text;
+      expect(text).toContain('# #50: Parent Issue');
+      expect(text).toContain('**ID:** 300000001');
+      expect(text).toContain('**Labels:** epic');
+      expect(text).toContain('**Assignees:** @octocat');
+      expect(text).toContain('**Milestone:** v2.0 (open, due 2024-06-30T00:00:00Z)');
+      expect(text).toContain('**Sub-issues:** 1/3 completed (33%)');
+      expect(text).toContain('Track the authentication rewrite.');
+    });
+
+    it('should show the close reason for closed issues', async () => {
+      mockGetIssue.mockResolvedValueOnce({
+        ...mockIssueDetail,
+        state: 'closed',
+        state_reason: 'not_planned',
+        closed_at: '2024-02-01T00:00:00Z',
+        labels: [],
+        milestone: null,
+      });
+
+      const result = await client.callTool({
+        name: 'github_get_issue',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50 },
+      });
+
+      const text = (result.content[0] as { text: string }).text;
+      expect(text).toContain('**State:** closed as not_planned on 2024-02-01T00:00:00Z');
+      expect(text).toContain('**Labels:** none');
+      expect(text).toContain('**Milestone:** none');
+    });
+
+    it('should return the issue as structured content in JSON format', async () => {
+      mockGetIssue.mockResolvedValueOnce(mockIssueDetail);
+
+      const result = await client.callTool({
+        name: 'github_get_issue',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50, response_format: 'json' },
+      });
+
+      expect(result.structuredContent).toEqual({ issue: mockIssueDetail });
+    });
+  });
+
+  describe('error handling', () => {
+    it('should return GitHub API errors as tool errors with the request ID', async () => {
+      mockGetIssue.mockRejectedValueOnce(
+        new GitHubApiError('Rate limit exceeded (429): the token has used its GitHub API quota.', 'rate_limit', 429, 'ABCD:1234')
+      );
+
+      const result = await client.callTool({
+        name: 'github_get_issue',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 42 },
+      });
+
+      expect(result.isError).toBe(true);
+      expect((result.content as ToolResult['content'])[0].text).toBe(
+        'Error: Rate limit exceeded (429): the token has used its GitHub API quota. (GitHub request ID: ABCD:1234)'
+      );
+    });
+
+    it('should return unexpected errors as tool errors', async () => {
+      mockRemoveSubIssue.mockRejectedValueOnce(new Error('socket hang up'));
+
+      const result = await client.callTool({
+        name: 'github_remove_sub_issue',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50, sub_issue_id: 1 },
+      });
+
+      expect(result.isError).toBe(true);
+      expect((result.content as ToolResult['content'])[0].text).toBe('Error: socket hang up');
+    });
+
+    it('should return repository policy denials as tool errors', async () => {
+      mockGetIssue.mockRejectedValueOnce(new PolicyDeniedError('read', 'otherowner/secrets'));
+
+      const result = await client.callTool({
+        name: 'github_get_issue',
+        arguments: { owner: 'otherowner', repo: 'secrets', issue_number: 1 },
+      });
+
+      expect(result.isError).toBe(true);
+      expect((result.content as ToolResult['content'])[0].text).toContain(
+        'Error: Policy denied: read access to otherowner/secrets is not allowed by the repository policy'
+      );
+    });
+  });
+
+  describe('progress and cancellation', () => {
+    afterEach(() => {
+      mockGetIssue.mockReset();
+      mockRemoveBlockingDependency.mockReset();
+    });
+
+    it('should report the progress of a batch per item', async () => {
+      mockRemoveBlockingDependency.mockResolvedValue({ success: true, message: 'Removed' });
+      const onprogress = vi.fn();
+
+      await client.callTool(
+        {
+          name: 'github_remove_blocking_dependencies',
+          arguments: {
+            owner: 'testowner',
+            repo: 'testrepo',
+            dependencies: [
+              { issue_number: 5, blocking_issue_id: 111 },
+              { issue_number: 6, blocking_issue_id: 222 },
+            ],
+          },
+        },
+        undefined,
+        { onprogress }
+      );
+
+      expect(onprogress.mock.calls.map(([progress]) => progress)).toEqual([
+        { progress: 1, total: 2, message: '1 of 2 item(s) done' },
+        { progress: 2, total: 2, message: '2 of 2 item(s) done' },
+      ]);
+    });
+
+    it('should abort the GitHub requests of a cancelled call', async () => {
+      mockGetIssue.mockImplementation(
+        () => new Promise((_resolve, reject) => toolCallSignal!.addEventListener('abort', () => reject(new Error('aborted'))))
+      );
+      const controller = new AbortController();
+
+      const call = client.callTool(
+        { name: 'github_get_issue', arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 42 } },
+        undefined,
+        { signal: controller.signal }
+      );
+      await vi.waitFor(() => expect(mockGetIssue).toHaveBeenCalled());
+      controller.abort();
+
+      await expect(call).rejects.toThrow();
+      await vi.waitFor(() => expect(toolCallSignal?.aborted).toBe(true));
+    });
+  });
+
+  describe('audit log', () => {
+    let dir: string;
+    let auditFile: string;
+    let auditedClient: Client;
+
+    beforeEach(async () => {
+      dir = mkdtempSync(join(tmpdir(), 'audit-'));
+      auditFile = join(dir, 'audit.log');
+      const { createServer } = await import('../../src/server.js');
+      const { GitHubClient } = await import('../../src/github/client.js');
+      const [auditedClientTransport, auditedServerTransport] = InMemoryTransport.createLinkedPair();
+      await createServer(new GitHubClient('test-token'), { auditLog: auditFile }).connect(auditedServerTransport);
+      auditedClient = new Client({ name: 'audit-client', version: '2.0.0' });
+      await auditedClient.connect(auditedClientTransport);
+    });
+
+    afterEach(async () => {
+      await auditedClient.close();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    const auditRecords = () => readFileSync(auditFile, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+
+    it('should record successful calls', async () => {
+      mockAddSubIssue.mockResolvedValueOnce({ success: true, message: 'ok' });
+
+      await auditedClient.callTool({
+        name: 'github_add_sub_issue',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50, sub_issue_id: 101 },
+      });
+
+      expect(auditRecords()).toEqual([
+        {
+          timestamp: expect.any(String),
+          tool: 'github_add_sub_issue',
+          arguments: expect.objectContaining({ owner: 'testowner', repo: 'testrepo', issue_number: 50, sub_issue_id: 101 }),
+          repository: 'testowner/testrepo',
+          dry_run: false,
+          outcome: 'success',
+          github_request_ids: ['MOCK:1'],
+          duration_ms: expect.any(Number),
+          credentials: 'test-scope',
+          client: 'audit-client/2.0.0',
+          session_id: null,
+        },
+      ]);
+    });
+
+    it('should record failed calls with the error', async () => {
+      mockGetIssue.mockRejectedValueOnce(new Error('socket hang up'));
+
+      await auditedClient.callTool({
+        name: 'github_get_issue',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 42 },
+      });
+
+      expect(auditRecords()[0]).toMatchObject({
+        tool: 'github_get_issue',
+        outcome: 'error',
+        error: 'Error: socket hang up',
+      });
     });
   });
 
   describe('github_get_blocked_by tool', () => {
     it('should return formatted list when issues exist', async () => {
-      mockGetBlockedBy.mockResolvedValueOnce(mockBlockingIssues);
+      mockGetBlockedBy.mockResolvedValueOnce(paginated(mockBlockingIssues));
 
       const result = (await client.callTool({
         name: 'github_get_blocked_by',
@@ -110,8 +450,20 @@ describe('MCP Server Integration', () => {
       expect(result.content[0].text).toContain('#20');
     });
 
+    it('should report truncation when the client hit its item limit', async () => {
+      mockGetBlockedBy.mockResolvedValueOnce(paginated(mockBlockingIssues, true));
+
+      const result = (await client.callTool({
+        name: 'github_get_blocked_by',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 5, response_format: 'json' },
+      })) as ToolResult & { structuredContent: { total: number; truncated: boolean } };
+
+      expect(result.structuredContent.total).toBe(2);
+      expect(result.structuredContent.truncated).toBe(true);
+    });
+
     it('should return empty message when no blockers', async () => {
-      mockGetBlockedBy.mockResolvedValueOnce([]);
+      mockGetBlockedBy.mockResolvedValueOnce(paginated([]));
 
       const result = (await client.callTool({
         name: 'github_get_blocked_by',
@@ -124,7 +476,7 @@ describe('MCP Server Integration', () => {
 
   describe('github_get_blocking tool', () => {
     it('should return formatted list when blocking issues exist', async () => {
-      mockGetBlocking.mockResolvedValueOnce([mockIssue]);
+      mockGetBlocking.mockResolvedValueOnce(paginated([mockIssue]));
 
       const result = await client.callTool({
         name: 'github_get_blocking',
@@ -136,7 +488,7 @@ describe('MCP Server Integration', () => {
     });
 
     it('should return empty message when not blocking any issues', async () => {
-      mockGetBlocking.mockResolvedValueOnce([]);
+      mockGetBlocking.mockResolvedValueOnce(paginated([]));
 
       const result = await client.callTool({
         name: 'github_get_blocking',
@@ -148,6 +500,24 @@ describe('MCP Server Integration', () => {
   });
 
   describe('github_add_blocking_dependency tool', () => {
+    const issue5 = {
+      ...mockIssue,
+      id: 5000,
+      number: 5,
+      html_url: 'https://github.com/testowner/testrepo/issues/5',
+    };
+
+    beforeEach(() => {
+      // Cycle pre-flight: issue #5 has no dependents unless a test says otherwise
+      mockGetIssue.mockResolvedValue(issue5);
+      mockGetBlocking.mockResolvedValue(paginated([]));
+    });
+
+    afterEach(() => {
+      mockGetIssue.mockReset();
+      mockGetBlocking.mockReset();
+    });
+
     it('should add dependency and return success message', async () => {
       mockAddBlockingDependency.mockResolvedValueOnce({
         success: true,
@@ -164,180 +534,853 @@ describe('MCP Server Integration', () => {
         },
       });
 
-      expect(mockAddBlockingDependency).toHaveBeenCalledWith('testowner', 'testrepo', 5, 100);
+      expect(mockAddBlockingDependency).toHaveBeenCalledWith('testowner', 'testrepo', 5, 100, undefined);
       expect((result.content[0] as { text: string }).text).toContain('Issue #5 is now blocked');
     });
-  });
 
-  describe('github_remove_blocking_dependency tool', () => {
-    it('should remove dependency and return success message', async () => {
-      mockRemoveBlockingDependency.mockResolvedValueOnce({
+    it('should resolve an issue number reference to its ID', async () => {
+      mockGetIssue.mockResolvedValueOnce({ ...mockIssue, id: 777, number: 3 });
+      mockAddBlockingDependency.mockResolvedValueOnce({
         success: true,
-        message: 'Removed blocking dependency',
+        message: 'Issue #5 is now blocked by issue ID 777',
       });
 
-      const result = await client.callTool({
-        name: 'github_remove_blocking_dependency',
+      await client.callTool({
+        name: 'github_add_blocking_dependency',
         arguments: {
           owner: 'testowner',
           repo: 'testrepo',
           issue_number: 5,
-          blocking_issue_id: 100,
+          blocking_issue_id: '#3',
         },
       });
 
-      expect(mockRemoveBlockingDependency).toHaveBeenCalledWith('testowner', 'testrepo', 5, 100);
-      expect((result.content[0] as { text: string }).text).toContain('Removed blocking dependency');
-    });
-  });
-
-  describe('github_get_parent_issue tool', () => {
-    it('should return parent issue when it exists', async () => {
-      mockGetParentIssue.mockResolvedValueOnce(mockParentIssue);
-
-      const result = await client.callTool({
-        name: 'github_get_parent_issue',
-        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 101 },
-      });
-
-      expect(mockGetParentIssue).toHaveBeenCalledWith('testowner', 'testrepo', 101);
-      expect((result.content[0] as { text: string }).text).toContain('is a sub-issue of');
-      expect((result.content[0] as { text: string }).text).toContain('#50');
+      expect(mockGetIssue).toHaveBeenCalledWith('testowner', 'testrepo', 3);
+      expect(mockAddBlockingDependency).toHaveBeenCalledWith(
+        'testowner',
+        'testrepo',
+        5,
+        777,
+        expect.objectContaining({ owner: 'testowner', repo: 'testrepo' })
+      );
     });
 
-    it('should return no parent message when none exists', async () => {
-      mockGetParentIssue.mockResolvedValueOnce(null);
+    it('should refuse a dependency that would create a cycle', async () => {
+      // #7 is blocked by #6, which is blocked by #5; making #5 wait on #7 closes the loop
+      const issue6 = { ...mockIssue, id: 6000, number: 6, html_url: 'https://github.com/testowner/testrepo/issues/6' };
+      const issue7 = { ...mockIssue, id: 7000, number: 7, html_url: 'https://github.com/testowner/testrepo/issues/7' };
+      mockGetBlocking.mockImplementation(async (_owner: string, _repo: string, number: number) =>
+        paginated(number === 5 ? [issue6] : number === 6 ? [issue7] : [])
+      );
 
       const result = await client.callTool({
-        name: 'github_get_parent_issue',
-        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 101 },
+        name: 'github_add_blocking_dependency',
+        arguments: {
+          owner: 'testowner',
+          repo: 'testrepo',
+          issue_number: 5,
+          blocking_issue_id: 7000,
+        },
       });
 
-      expect((result.content[0] as { text: string }).text).toContain('has no parent issue');
+      expect(result.isError).toBe(true);
+      expect((result.content[0] as { text: string }).text).toContain(
+        'would create a cycle: #5 → #7 → #6 → #5'
+      );
+      expect(mockAddBlockingDependency).not.toHaveBeenCalled();
     });
-  });
-
-  describe('github_list_sub_issues tool', () => {
-    it('should return formatted list of sub-issues', async () => {
-      mockListSubIssues.mockResolvedValueOnce(mockSubIssues);
 
+    it('should refuse an issue blocking itself', async () => {
       const result = await client.callTool({
-        name: 'github_list_sub_issues',
-        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50 },
+        name: 'github_add_blocking_dependency',
+        arguments: {
+          owner: 'testowner',
+          repo: 'testrepo',
+          issue_number: 5,
+          blocking_issue_id: '#5',
+        },
       });
 
-      expect(mockListSubIssues).toHaveBeenCalledWith('testowner', 'testrepo', 50);
-      expect((result.content[0] as { text: string }).text).toContain('3 sub-issue(s)');
-      expect((result.content[0] as { text: string }).text).toContain('#101');
-      expect((result.content[0] as { text: string }).text).toContain('#102');
-      expect((result.content[0] as { text: string }).text).toContain('#103');
+      expect(result.isError).toBe(true);
+      expect((result.content[0] as { text: string }).text).toContain('would create a cycle: #5 → #5');
+      expect(mockAddBlockingDependency).not.toHaveBeenCalled();
     });
 
-    it('should return empty message when no sub-issues', async () => {
-      mockListSubIssues.mockResolvedValueOnce([]);
-
+    it('should return an error for an unrecognised issue reference', async () => {
       const result = await client.callTool({
-        name: 'github_list_sub_issues',
-        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50 },
+        name: 'github_add_blocking_dependency',
+        arguments: {
+          owner: 'testowner',
+          repo: 'testrepo',
+          issue_number: 5,
+          blocking_issue_id: 'the login bug',
+        },
       });
 
-      expect((result.content[0] as { text: string }).text).toContain('has no sub-issues');
+      expect(result.isError).toBe(true);
+      expect((result.content[0] as { text: string }).text).toContain('Invalid issue reference');
+      expect(mockAddBlockingDependency).not.toHaveBeenCalled();
     });
   });
 
-  describe('github_add_sub_issue tool', () => {
-    it('should add sub-issue and return success', async () => {
-      mockAddSubIssue.mockResolvedValueOnce({
+  describe('github_remove_blocking_dependency tool', () => {
+    it('should remove dependency and return success message', async () => {
+      mockRemoveBlockingDependency.mockResolvedValueOnce({
         success: true,
-        message: 'Issue ID 200000001 is now a sub-issue of #50',
+        message: 'Removed blocking dependency',
       });
 
       const result = await client.callTool({
-        name: 'github_add_sub_issue',
+        name: 'github_remove_blocking_dependency',
         arguments: {
           owner: 'testowner',
           repo: 'testrepo',
-          issue_number: 50,
-          sub_issue_id: 200000001,
+          issue_number: 5,
+          blocking_issue_id: 100,
         },
       });
 
-      expect(mockAddSubIssue).toHaveBeenCalledWith({
-        owner: 'testowner',
-        repo: 'testrepo',
-        parentIssueNumber: 50,
-        subIssueId: 200000001,
-        replaceParent: false,
-      });
-      expect((result.content[0] as { text: string }).text).toContain('is now a sub-issue');
+      expect(mockRemoveBlockingDependency).toHaveBeenCalledWith('testowner', 'testrepo', 5, 100);
+      expect((result.content[0] as { text: string }).text).toContain('Removed blocking dependency');
     });
+  });
 
-    it('should pass replace_parent flag when true', async () => {
-      mockAddSubIssue.mockResolvedValueOnce({
-        success: true,
-        message: 'Issue ID 200000001 is now a sub-issue of #50',
-      });
+  describe('github_add_blocking_dependencies tool', () => {
+    beforeEach(() => {
+      mockGetIssue.mockResolvedValue({ ...mockIssueDetail, id: 5000, number: 5 });
+      mockGetBlocking.mockResolvedValue(paginated([]));
+    });
 
-      await client.callTool({
-        name: 'github_add_sub_issue',
+    afterEach(() => {
+      mockGetIssue.mockReset();
+      mockGetBlocking.mockReset();
+    });
+
+    it('should report each dependency and continue after a failure', async () => {
+      mockAddBlockingDependency
+        .mockResolvedValueOnce({ success: true, message: 'Issue #5 is now blocked by issue ID 111' })
+        .mockRejectedValueOnce(new Error('Validation Failed'));
+
+      const result = await client.callTool({
+        name: 'github_add_blocking_dependencies',
         arguments: {
           owner: 'testowner',
           repo: 'testrepo',
-          issue_number: 50,
-          sub_issue_id: 200000001,
-          replace_parent: true,
+          dependencies: [
+            { issue_number: 5, blocking_issue_id: 111 },
+            { issue_number: 6, blocking_issue_id: 222 },
+          ],
         },
       });
 
-      expect(mockAddSubIssue).toHaveBeenCalledWith(
-        expect.objectContaining({
-          replaceParent: true,
-        })
-      );
+      expect(result.isError).toBeFalsy();
+      const text = (result.content as ToolResult['content'])[0].text;
+      expect(text).toContain('1 succeeded, 1 failed.');
+      expect(text).toContain('- [ok] #5 blocked by 111: Issue #5 is now blocked by issue ID 111');
+      expect(text).toContain('- [failed] #6 blocked by 222: Validation Failed');
+      expect(mockAddBlockingDependency).toHaveBeenCalledWith('testowner', 'testrepo', 6, 222, undefined);
     });
-  });
 
-  describe('github_remove_sub_issue tool', () => {
-    it('should remove sub-issue and return success', async () => {
-      mockRemoveSubIssue.mockResolvedValueOnce({
-        success: true,
-        message: 'Issue ID 200000001 is no longer a sub-issue of #50',
-      });
+    it('should refuse items that would create a cycle', async () => {
+      mockGetBlocking.mockResolvedValueOnce(paginated([{ ...mockIssue, id: 7000, number: 7 }]));
 
       const result = await client.callTool({
-        name: 'github_remove_sub_issue',
+        name: 'github_add_blocking_dependencies',
         arguments: {
           owner: 'testowner',
           repo: 'testrepo',
-          issue_number: 50,
-          sub_issue_id: 200000001,
+          dependencies: [{ issue_number: 5, blocking_issue_id: 7000 }],
+          response_format: 'json',
         },
       });
 
-      expect(mockRemoveSubIssue).toHaveBeenCalledWith('testowner', 'testrepo', 50, 200000001);
-      expect((result.content[0] as { text: string }).text).toContain('is no longer a sub-issue');
+      expect(result.isError).toBe(true);
+      const structured = result.structuredContent as { results: Array<{ success: boolean; message: string }> };
+      expect(structured.results[0].success).toBe(false);
+      expect(structured.results[0].message).toContain('would create a cycle');
+      expect(mockAddBlockingDependency).not.toHaveBeenCalled();
     });
   });
 
-  describe('github_reprioritize_sub_issue tool', () => {
-    it('should reprioritize with after_id', async () => {
-      mockReprioritizeSubIssue.mockResolvedValueOnce({
-        success: true,
-        message: 'Sub-issue ID 200000002 moved after issue ID 200000001',
-      });
+  describe('github_remove_blocking_dependencies tool', () => {
+    it('should remove each dependency', async () => {
+      mockRemoveBlockingDependency.mockResolvedValue({ success: true, message: 'Removed' });
 
       const result = await client.callTool({
-        name: 'github_reprioritize_sub_issue',
+        name: 'github_remove_blocking_dependencies',
         arguments: {
           owner: 'testowner',
           repo: 'testrepo',
-          issue_number: 50,
-          sub_issue_id: 200000002,
-          after_id: 200000001,
+          dependencies: [
+            { issue_number: 5, blocking_issue_id: 111 },
+            { issue_number: 6, blocking_issue_id: '222' },
+          ],
+          response_format: 'json',
         },
       });
 
-      expect(mockReprioritizeSubIssue).toHaveBeenCalledWith({
+      expect(result.structuredContent).toMatchObject({ succeeded: 2, failed: 0 });
+      expect(mockRemoveBlockingDependency).toHaveBeenCalledWith('testowner', 'testrepo', 5, 111);
+      expect(mockRemoveBlockingDependency).toHaveBeenCalledWith('testowner', 'testrepo', 6, 222);
+      mockRemoveBlockingDependency.mockReset();
+    });
+  });
+
+  describe('github_get_dependency_graph tool', () => {
+    const blocker = (number: number, state: 'open' | 'closed' = 'open') => ({
+      ...mockIssue,
+      id: number * 1000,
+      number,
+      title: `Issue ${number}`,
+      state,
+      html_url: `https://github.com/testowner/testrepo/issues/${number}`,
+    });
+
+    beforeEach(() => {
+      // 42 ← 10 ← 5, 42 ← 20 ← 5
+      mockGetIssue.mockResolvedValue(mockIssue);
+      mockGetBlockedBy.mockImplementation(async (_owner: string, _repo: string, number: number) =>
+        paginated(
+          ({ 42: [blocker(10), blocker(20, 'closed')], 10: [blocker(5)], 20: [blocker(5)] } as Record<
+            number,
+            ReturnType<typeof blocker>[]
+          >)[number] ?? []
+        )
+      );
+    });
+
+    afterEach(() => {
+      mockGetIssue.mockReset();
+      mockGetBlockedBy.mockReset();
+    });
+
+    it('should render an indented tree of transitive blockers', async () => {
+      const result = await client.callTool({
+        name: 'github_get_dependency_graph',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 42 },
+      });
+
+      const text = (result.content[0] as { text: string }).text;
+      expect(text).toContain('4 issue(s), 4 dependency edge(s)');
+      expect(text).toContain(
+        [
+          '- #42: Test Issue (open)',
+          '  - #10: Issue 10 (open)',
+          '    - #5: Issue 5 (open)',
+          '  - #20: Issue 20 (closed)',
+          '    - #5: Issue 5 (open) *(see above)*',
+        ].join('\n')
+      );
+      expect(mockGetBlocking).not.toHaveBeenCalled();
+    });
+
+    it('should return nodes and edges in JSON format', async () => {
+      const result = await client.callTool({
+        name: 'github_get_dependency_graph',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 42, max_depth: 1, response_format: 'json' },
+      });
+
+      const structured = result.structuredContent as {
+        root: { number: number };
+        nodes: Array<{ number: number; depth: number }>;
+        edges: Array<{ blocked_id: number; blocking_id: number }>;
+      };
+      expect(structured.root.number).toBe(42);
+      expect(structured.nodes.map((n) => n.number)).toEqual([42, 10, 20]);
+      expect(structured.edges).toContainEqual({ blocked_id: 123456789, blocking_id: 10000 });
+    });
+  });
+
+  describe('github_find_dependency_cycles tool', () => {
+    const node = (number: number) => ({
+      ...mockIssue,
+      id: number * 1000,
+      number,
+      title: `Issue ${number}`,
+      html_url: `https://github.com/testowner/testrepo/issues/${number}`,
+    });
+
+    beforeEach(() => {
+      // 1 → 2 → 3 → 1 and 3 → 4 → 3, where → means "is blocked by"
+      const blockedBy: Record<number, number[]> = { 1: [2], 2: [3], 3: [1, 4], 4: [3] };
+      mockGetIssue.mockImplementation(async (_owner: string, _repo: string, number: number) => node(number));
+      mockGetBlockedBy.mockImplementation(async (_owner: string, _repo: string, number: number) =>
+        paginated((blockedBy[number] ?? []).map(node))
+      );
+    });
+
+    afterEach(() => {
+      mockGetIssue.mockReset();
+      mockGetBlockedBy.mockReset();
+      mockListSubIssues.mockReset();
+    });
+
+    it('should report every cycle reachable from the given issues', async () => {
+      const result = await client.callTool({
+        name: 'github_find_dependency_cycles',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_numbers: [1] },
+      });
+
+      const text = (result.content[0] as { text: string }).text;
+      expect(text).toContain('Found 2 cycle(s) among 4 issue(s)');
+      expect(text).toContain('1. #1 → #2 → #3 → #1');
+      expect(text).toContain('2. #3 → #4 → #3');
+    });
+
+    it('should scan the sub-issues of a parent issue', async () => {
+      mockListSubIssues.mockResolvedValueOnce(paginated([node(4)]));
+
+      const result = await client.callTool({
+        name: 'github_find_dependency_cycles',
+        arguments: { owner: 'testowner', repo: 'testrepo', parent_issue_number: 50, response_format: 'json' },
+      });
+
+      expect(mockListSubIssues).toHaveBeenCalledWith('testowner', 'testrepo', 50);
+      const structured = result.structuredContent as { cycle_count: number; cycles: Array<Array<{ number: number }>> };
+      expect(structured.cycle_count).toBe(2);
+      expect(structured.cycles.map((cycle) => cycle.map((n) => n.number))).toEqual([
+        [4, 3],
+        [3, 1, 2],
+      ]);
+    });
+
+    it('should report when no cycles exist', async () => {
+      mockGetBlockedBy.mockResolvedValue(paginated([]));
+
+      const result = await client.callTool({
+        name: 'github_find_dependency_cycles',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_numbers: [1, 2] },
+      });
+
+      expect((result.content[0] as { text: string }).text).toContain('No cycles found among 2 issue(s)');
+    });
+
+    it('should return error when no issues are given', async () => {
+      const result = await client.callTool({
+        name: 'github_find_dependency_cycles',
+        arguments: { owner: 'testowner', repo: 'testrepo' },
+      });
+
+      expect(result.isError).toBe(true);
+      expect((result.content[0] as { text: string }).text).toContain('Must specify issue_numbers or parent_issue_number');
+    });
+  });
+
+  describe('github_list_ready_issues tool', () => {
+    const node = (number: number, state: 'open' | 'closed' = 'open', repo = 'testrepo') => ({
+      ...mockIssue,
+      id: number * 1000,
+      number,
+      title: `Issue ${number}`,
+      state,
+      html_url: `https://github.com/testowner/${repo}/issues/${number}`,
+    });
+
+    afterEach(() => {
+      mockGetBlockedBy.mockReset();
+      mockGetIssue.mockReset();
+    });
+
+    it('should list ready issues and what blocked issues are waiting on', async () => {
+      mockListSubIssues.mockResolvedValueOnce(paginated([node(101), node(102), node(103, 'closed')]));
+      mockGetBlockedBy.mockImplementation(async (_owner: string, _repo: string, number: number) =>
+        paginated(number === 102 ? [node(5, 'open', 'otherrepo'), node(6, 'closed')] : [node(7, 'closed')])
+      );
+
+      const result = await client.callTool({
+        name: 'github_list_ready_issues',
+        arguments: { owner: 'testowner', repo: 'testrepo', parent_issue_number: 50 },
+      });
+
+      expect(mockListSubIssues).toHaveBeenCalledWith('testowner', 'testrepo', 50);
+      const text = (result.content[0] as { text: string }).text;
+      expect(text).toContain('# Ready Issues under #50');
+      expect(text).toContain('1 ready, 1 blocked, 1 already closed.');
+      expect(text).toContain('## Ready to work\n\n- #101: Issue 101 (open)');
+      expect(text).toContain('- #102: Issue 102 — waiting on testowner/otherrepo#5 (Issue 5)');
+    });
+
+    it('should check explicitly listed issues', async () => {
+      mockGetIssue.mockImplementation(async (_owner: string, _repo: string, number: number) => node(number));
+      mockGetBlockedBy.mockResolvedValue(paginated([]));
+
+      const result = await client.callTool({
+        name: 'github_list_ready_issues',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_numbers: [5, 6], response_format: 'json' },
+      });
+
+      const structured = result.structuredContent as { ready: Array<{ number: number }>; blocked_count: number };
+      expect(structured.ready.map((i) => i.number)).toEqual([5, 6]);
+      expect(structured.blocked_count).toBe(0);
+    });
+
+    it('should return error when no issues are given', async () => {
+      const result = await client.callTool({
+        name: 'github_list_ready_issues',
+        arguments: { owner: 'testowner', repo: 'testrepo' },
+      });
+
+      expect(result.isError).toBe(true);
+      expect((result.content[0] as { text: string }).text).toContain('Must specify parent_issue_number or issue_numbers');
+    });
+  });
+
+  describe('github_plan_epic tool', () => {
+    const node = (number: number, state: 'open' | 'closed' = 'open') => ({
+      ...mockIssue,
+      id: number * 1000,
+      number,
+      title: `Issue ${number}`,
+      state,
+      html_url: `https://github.com/testowner/testrepo/issues/${number}`,
+    });
+
+    // #101 is blocked by #102, which is blocked by #103
+    const blockedBy: Record<number, ReturnType<typeof node>[]> = {
+      101: [node(102)],
+      102: [node(103)],
+    };
+
+    beforeEach(() => {
+      mockListSubIssues.mockResolvedValue(paginated([node(101), node(102), node(103), node(104)]));
+      mockGetBlockedBy.mockImplementation(async (_owner: string, _repo: string, number: number) =>
+        paginated(blockedBy[number] ?? [])
+      );
+    });
+
+    afterEach(() => {
+      mockListSubIssues.mockReset();
+      mockGetBlockedBy.mockReset();
+    });
+
+    it('should report waves, critical path and dependency order', async () => {
+      const result = await client.callTool({
+        name: 'github_plan_epic',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50 },
+      });
+
+      const text = (result.content as ToolResult['content'])[0].text;
+      expect(text).toContain('# Plan for #50');
+      expect(text).toContain('4 sub-issue(s), 3 wave(s), critical path of 3 open issue(s).');
+      expect(text).toContain('## Wave 1\n\n- #103: Issue 103\n- #104: Issue 104');
+      expect(text).toContain('#103 → #102 → #101 (each issue blocks the next)');
+      expect(mockReprioritizeSubIssue).not.toHaveBeenCalled();
+    });
+
+    it('should reorder sub-issues when apply_order is true', async () => {
+      mockReprioritizeSubIssue.mockResolvedValue({ success: true, message: 'moved' });
+
+      const result = await client.callTool({
+        name: 'github_plan_epic',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50, apply_order: true, response_format: 'json' },
+      });
+
+      const structured = result.structuredContent as { applied: boolean; moves: number; order: Array<{ number: number }> };
+      expect(structured.order.map((i) => i.number)).toEqual([103, 102, 101, 104]);
+      expect(structured.applied).toBe(true);
+      expect(structured.moves).toBe(2);
+      expect(mockReprioritizeSubIssue).toHaveBeenNthCalledWith(1, {
+        owner: 'testowner',
+        repo: 'testrepo',
+        parentIssueNumber: 50,
+        subIssueId: 103000,
+        beforeId: 101000,
+      });
+      expect(mockReprioritizeSubIssue).toHaveBeenNthCalledWith(2, {
+        owner: 'testowner',
+        repo: 'testrepo',
+        parentIssueNumber: 50,
+        subIssueId: 102000,
+        afterId: 103000,
+      });
+      mockReprioritizeSubIssue.mockReset();
+    });
+
+    it('should not reorder when sub-issues form a cycle', async () => {
+      mockGetBlockedBy.mockImplementation(async (_owner: string, _repo: string, number: number) =>
+        paginated(number === 103 ? [node(101)] : blockedBy[number] ?? [])
+      );
+
+      const result = await client.callTool({
+        name: 'github_plan_epic',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50, apply_order: true },
+      });
+
+      const text = (result.content as ToolResult['content'])[0].text;
+      expect(text).toContain('## Not ordered');
+      expect(text).toContain('Order not applied: resolve the dependency cycle first.');
+      expect(mockReprioritizeSubIssue).not.toHaveBeenCalled();
+    });
+
+    it('should plan around sub-issues outside the repository policy without reordering', async () => {
+      mockGetBlockedBy.mockImplementation(async (_owner: string, _repo: string, number: number) => {
+        if (number === 104) {
+          throw new PolicyDeniedError('read', 'testowner/testrepo');
+        }
+        return paginated(blockedBy[number] ?? []);
+      });
+
+      const result = await client.callTool({
+        name: 'github_plan_epic',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50, apply_order: true },
+      });
+
+      const text = (result.content as ToolResult['content'])[0].text;
+      expect(result.isError).toBeFalsy();
+      expect(text).toContain('## Not checked (outside the repository policy)');
+      expect(text).toContain('#104: Issue 104');
+      expect(text).toContain('Order not applied: the blockers of some sub-issues are outside the repository policy.');
+      expect(mockReprioritizeSubIssue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('github_get_parent_issue tool', () => {
+    it('should return parent issue when it exists', async () => {
+      mockGetParentIssue.mockResolvedValueOnce(mockParentIssue);
+
+      const result = await client.callTool({
+        name: 'github_get_parent_issue',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 101 },
+      });
+
+      expect(mockGetParentIssue).toHaveBeenCalledWith('testowner', 'testrepo', 101);
+      expect((result.content[0] as { text: string }).text).toContain('is a sub-issue of');
+      expect((result.content[0] as { text: string }).text).toContain('#50');
+    });
+
+    it('should return no parent message when none exists', async () => {
+      mockGetParentIssue.mockResolvedValueOnce(null);
+
+      const result = await client.callTool({
+        name: 'github_get_parent_issue',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 101 },
+      });
+
+      expect((result.content[0] as { text: string }).text).toContain('has no parent issue');
+    });
+  });
+
+  describe('github_list_sub_issues tool', () => {
+    it('should return formatted list of sub-issues', async () => {
+      mockListSubIssues.mockResolvedValueOnce(paginated(mockSubIssues));
+
+      const result = await client.callTool({
+        name: 'github_list_sub_issues',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50 },
+      });
+
+      expect(mockListSubIssues).toHaveBeenCalledWith('testowner', 'testrepo', 50);
+      expect((result.content[0] as { text: string }).text).toContain('3 sub-issue(s)');
+      expect((result.content[0] as { text: string }).text).toContain('#101');
+      expect((result.content[0] as { text: string }).text).toContain('#102');
+      expect((result.content[0] as { text: string }).text).toContain('#103');
+    });
+
+    it('should report the full total when paging through a long list', async () => {
+      const manySubIssues = Array.from({ length: 45 }, (_, i) => ({
+        ...mockSubIssues[0],
+        id: 200000100 + i,
+        number: 1000 + i,
+      }));
+      mockListSubIssues.mockResolvedValueOnce(paginated(manySubIssues));
+
+      const result = await client.callTool({
+        name: 'github_list_sub_issues',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50, offset: 40 },
+      });
+
+      const text = (result.content[0] as { text: string }).text;
+      expect(text).toContain('45 sub-issue(s) in priority order');
+      expect(text).toContain('#1044');
+      expect(text).not.toContain('configured limit');
+    });
+
+    it('should return empty message when no sub-issues', async () => {
+      mockListSubIssues.mockResolvedValueOnce(paginated([]));
+
+      const result = await client.callTool({
+        name: 'github_list_sub_issues',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50 },
+      });
+
+      expect((result.content[0] as { text: string }).text).toContain('has no sub-issues');
+    });
+  });
+
+  describe('github_get_issue_tree tool', () => {
+    const node = (number: number, state: 'open' | 'closed' = 'open', title = `Issue ${number}`) => ({
+      ...mockIssue,
+      id: number * 1000,
+      number,
+      title,
+      state,
+      html_url: `https://github.com/testowner/testrepo/issues/${number}`,
+    });
+
+    afterEach(() => {
+      mockGetIssue.mockReset();
+      mockListSubIssues.mockReset();
+    });
+
+    it('should render a nested checklist with progress at every level', async () => {
+      const children: Record<number, ReturnType<typeof node>[]> = {
+        1: [node(2, 'open', 'Epic A'), node(3, 'closed', 'Epic B')],
+        2: [node(4, 'closed', 'Task 1'), node(5, 'open', 'Task 2')],
+      };
+      mockGetIssue.mockResolvedValueOnce(node(1, 'open', 'Initiative'));
+      mockListSubIssues.mockImplementation(async (_owner: string, _repo: string, number: number) =>
+        paginated(children[number] ?? [])
+      );
+
+      const result = await client.callTool({
+        name: 'github_get_issue_tree',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 1 },
+      });
+
+      expect((result.content[0] as { text: string }).text).toContain(
+        [
+          '- [ ] #1: Initiative — 2/4 done (50%)',
+          '  - [ ] #2: Epic A — 1/2 done (50%)',
+          '    - [x] #4: Task 1',
+          '    - [ ] #5: Task 2',
+          '  - [x] #3: Epic B',
+        ].join('\n')
+      );
+    });
+
+    it('should report each issue whose sub-issues were listed', async () => {
+      mockGetIssue.mockResolvedValueOnce(node(1));
+      mockListSubIssues.mockImplementation(async (_owner: string, _repo: string, number: number) =>
+        paginated(number === 1 ? [node(2), node(3)] : [])
+      );
+      const onprogress = vi.fn();
+
+      await client.callTool(
+        { name: 'github_get_issue_tree', arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 1 } },
+        undefined,
+        { onprogress }
+      );
+
+      expect(onprogress.mock.calls.map(([progress]) => progress)).toEqual([
+        { progress: 1, message: 'Listed sub-issues of 1 issue(s)' },
+        { progress: 2, message: 'Listed sub-issues of 2 issue(s)' },
+        { progress: 3, message: 'Listed sub-issues of 3 issue(s)' },
+      ]);
+    });
+
+    it('should collapse deep branches to fit the size limit', async () => {
+      const longTitle = 'x'.repeat(200);
+      const epics = Array.from({ length: 20 }, (_, i) => node(100 + i, 'open', `Epic ${i}`));
+      mockGetIssue.mockResolvedValueOnce(node(1, 'open', 'Initiative'));
+      mockListSubIssues.mockImplementation(async (_owner: string, _repo: string, number: number) => {
+        if (number === 1) return paginated(epics);
+        if (number < 200) {
+          return paginated(Array.from({ length: 10 }, (_, i) => node(number * 100 + i, 'closed', longTitle)));
+        }
+        return paginated([]);
+      });
+
+      const result = await client.callTool({
+        name: 'github_get_issue_tree',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 1, response_format: 'json' },
+      });
+
+      const structured = result.structuredContent as {
+        node_count: number;
+        display_depth: number;
+        tree: { progress: { total: number }; children: Array<{ collapsed?: boolean; children: unknown[] }> };
+      };
+      expect(structured.node_count).toBe(221);
+      expect(structured.display_depth).toBe(1);
+      expect(structured.tree.progress.total).toBe(220);
+      expect(structured.tree.children[0]).toMatchObject({ collapsed: true, children: [] });
+      expect((result.content[0] as { text: string }).text).not.toContain('[Response truncated');
+    });
+  });
+
+  describe('github_add_sub_issue tool', () => {
+    it('should add sub-issue and return success', async () => {
+      mockAddSubIssue.mockResolvedValueOnce({
+        success: true,
+        message: 'Issue ID 200000001 is now a sub-issue of #50',
+      });
+
+      const result = await client.callTool({
+        name: 'github_add_sub_issue',
+        arguments: {
+          owner: 'testowner',
+          repo: 'testrepo',
+          issue_number: 50,
+          sub_issue_id: 200000001,
+        },
+      });
+
+      expect(mockAddSubIssue).toHaveBeenCalledWith({
+        owner: 'testowner',
+        repo: 'testrepo',
+        parentIssueNumber: 50,
+        subIssueId: 200000001,
+        replaceParent: false,
+      });
+      expect((result.content[0] as { text: string }).text).toContain('is now a sub-issue');
+    });
+
+    it('should resolve cross-repository and URL references', async () => {
+      mockGetIssue.mockResolvedValueOnce({ ...mockIssue, id: 888 });
+      mockAddSubIssue.mockResolvedValueOnce({
+        success: true,
+        message: 'Issue ID 888 is now a sub-issue of #50',
+      });
+
+      await client.callTool({
+        name: 'github_add_sub_issue',
+        arguments: {
+          owner: 'testowner',
+          repo: 'testrepo',
+          issue_number: 50,
+          sub_issue_id: 'https://github.com/otherowner/otherrepo/issues/9',
+        },
+      });
+
+      expect(mockGetIssue).toHaveBeenCalledWith('otherowner', 'otherrepo', 9);
+      expect(mockAddSubIssue).toHaveBeenCalledWith(expect.objectContaining({ subIssueId: 888 }));
+    });
+
+    it('should pass replace_parent flag when true', async () => {
+      mockAddSubIssue.mockResolvedValueOnce({
+        success: true,
+        message: 'Issue ID 200000001 is now a sub-issue of #50',
+      });
+
+      await client.callTool({
+        name: 'github_add_sub_issue',
+        arguments: {
+          owner: 'testowner',
+          repo: 'testrepo',
+          issue_number: 50,
+          sub_issue_id: 200000001,
+          replace_parent: true,
+        },
+      });
+
+      expect(mockAddSubIssue).toHaveBeenCalledWith(
+        expect.objectContaining({
+          replaceParent: true,
+        })
+      );
+    });
+  });
+
+  describe('github_remove_sub_issue tool', () => {
+    it('should remove sub-issue and return success', async () => {
+      mockRemoveSubIssue.mockResolvedValueOnce({
+        success: true,
+        message: 'Issue ID 200000001 is no longer a sub-issue of #50',
+      });
+
+      const result = await client.callTool({
+        name: 'github_remove_sub_issue',
+        arguments: {
+          owner: 'testowner',
+          repo: 'testrepo',
+          issue_number: 50,
+          sub_issue_id: 200000001,
+        },
+      });
+
+      expect(mockRemoveSubIssue).toHaveBeenCalledWith('testowner', 'testrepo', 50, 200000001);
+      expect((result.content[0] as { text: string }).text).toContain('is no longer a sub-issue');
+    });
+  });
+
+  describe('github_add_sub_issues tool', () => {
+    afterEach(() => {
+      mockGetIssue.mockReset();
+      mockAddSubIssue.mockReset();
+    });
+
+    it('should resolve references and add sub-issues in the given order', async () => {
+      mockGetIssue.mockResolvedValueOnce({ ...mockIssueDetail, id: 101000, number: 101 });
+      mockAddSubIssue.mockImplementation(async (params: { subIssueId: number }) => ({
+        success: true,
+        message: `Issue ID ${params.subIssueId} is now a sub-issue of #50`,
+      }));
+
+      const result = await client.callTool({
+        name: 'github_add_sub_issues',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50, sub_issue_ids: ['#101', 102000] },
+      });
+
+      const text = (result.content as ToolResult['content'])[0].text;
+      expect(text).toContain('# Add Sub-Issues to #50');
+      expect(text).toContain('2 succeeded, 0 failed.');
+      expect(mockAddSubIssue.mock.calls.map(([params]) => params.subIssueId)).toEqual([101000, 102000]);
+      expect(mockAddSubIssue).toHaveBeenCalledWith(expect.objectContaining({ replaceParent: false }));
+    });
+
+    it('should report references that cannot be resolved without adding them', async () => {
+      mockAddSubIssue.mockResolvedValue({ success: true, message: 'added' });
+
+      const result = await client.callTool({
+        name: 'github_add_sub_issues',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50, sub_issue_ids: ['not-a-ref', 102000], response_format: 'json' },
+      });
+
+      const structured = result.structuredContent as { results: Array<{ sub_issue_id: string; success: boolean; message: string }> };
+      expect(structured.results[0]).toMatchObject({ sub_issue_id: 'not-a-ref', success: false });
+      expect(structured.results[0].message).toContain('Invalid issue reference');
+      expect(structured.results[1]).toMatchObject({ sub_issue_id: 102000, success: true });
+      expect(mockAddSubIssue).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return an error result when every item fails', async () => {
+      mockAddSubIssue.mockRejectedValue(new Error('Not Found'));
+
+      const result = await client.callTool({
+        name: 'github_add_sub_issues',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50, sub_issue_ids: [1, 2] },
+      });
+
+      expect(result.isError).toBe(true);
+      expect((result.content as ToolResult['content'])[0].text).toContain('0 succeeded, 2 failed.');
+    });
+  });
+
+  describe('github_remove_sub_issues tool', () => {
+    it('should remove each sub-issue', async () => {
+      mockRemoveSubIssue.mockResolvedValue({ success: true, message: 'removed' });
+
+      const result = await client.callTool({
+        name: 'github_remove_sub_issues',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50, sub_issue_ids: [101000, 102000] },
+      });
+
+      expect((result.content as ToolResult['content'])[0].text).toContain('2 succeeded, 0 failed.');
+      expect(mockRemoveSubIssue).toHaveBeenCalledWith('testowner', 'testrepo', 50, 101000);
+      expect(mockRemoveSubIssue).toHaveBeenCalledWith('testowner', 'testrepo', 50, 102000);
+      mockRemoveSubIssue.mockReset();
+    });
+  });
+
+  describe('github_reprioritize_sub_issue tool', () => {
+    it('should reprioritize with after_id', async () => {
+      mockReprioritizeSubIssue.mockResolvedValueOnce({
+        success: true,
+        message: 'Sub-issue ID 200000002 moved after issue ID 200000001',
+      });
+
+      const result = await client.callTool({
+        name: 'github_reprioritize_sub_issue',
+        arguments: {
+          owner: 'testowner',
+          repo: 'testrepo',
+          issue_number: 50,
+          sub_issue_id: 200000002,
+          after_id: 200000001,
+        },
+      });
+
+      expect(mockReprioritizeSubIssue).toHaveBeenCalledWith({
         owner: 'testowner',
         repo: 'testrepo',
         parentIssueNumber: 50,
@@ -348,6 +1391,31 @@ describe('MCP Server Integration', () => {
       expect((result.content[0] as { text: string }).text).toContain('moved after');
     });
 
+    it('should resolve sub-issue and anchor references', async () => {
+      mockGetIssue
+        .mockResolvedValueOnce({ ...mockIssue, id: 200000002, number: 102 })
+        .mockResolvedValueOnce({ ...mockIssue, id: 200000001, number: 101 });
+      mockReprioritizeSubIssue.mockResolvedValueOnce({
+        success: true,
+        message: 'Sub-issue ID 200000002 moved after issue ID 200000001',
+      });
+
+      await client.callTool({
+        name: 'github_reprioritize_sub_issue',
+        arguments: {
+          owner: 'testowner',
+          repo: 'testrepo',
+          issue_number: 50,
+          sub_issue_id: '#102',
+          after_id: 'testowner/testrepo#101',
+        },
+      });
+
+      expect(mockReprioritizeSubIssue).toHaveBeenCalledWith(
+        expect.objectContaining({ subIssueId: 200000002, afterId: 200000001, beforeId: undefined })
+      );
+    });
+
     it('should reprioritize with before_id', async () => {
       mockReprioritizeSubIssue.mockResolvedValueOnce({
         success: true,
@@ -414,4 +1482,628 @@ describe('MCP Server Integration', () => {
       expect(mockReprioritizeSubIssue).not.toHaveBeenCalled();
     });
   });
+
+  describe('dry run', () => {
+    const textOf = (result: unknown) => (result as ToolResult).content[0].text;
+
+    beforeEach(() => {
+      mockGetIssue.mockImplementation(async (_owner: string, repo: string, number: number) => issueRef(number, { repo }));
+      mockGetBlocking.mockResolvedValue(paginated([]));
+      mockGetBlockedBy.mockResolvedValue(paginated([issueRef(10)]));
+      mockListSubIssues.mockResolvedValue(paginated([issueRef(101), issueRef(102), issueRef(103)]));
+      mockGetParentIssue.mockResolvedValue(null);
+    });
+
+    afterEach(() => {
+      mockGetIssue.mockReset();
+      mockGetBlocking.mockReset();
+      mockGetBlockedBy.mockReset();
+      mockListSubIssues.mockReset();
+      mockGetParentIssue.mockReset();
+    });
+
+    it('should report a new blocking dependency without adding it', async () => {
+      const result = await client.callTool({
+        name: 'github_add_blocking_dependency',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 5, blocking_issue_id: '#3', dry_run: true },
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(textOf(result)).toBe('Dry run, nothing changed: #5 would be marked as blocked by #3.');
+      expect(mockAddBlockingDependency).not.toHaveBeenCalled();
+    });
+
+    it('should report a dependency that already exists as an error', async () => {
+      const result = await client.callTool({
+        name: 'github_add_blocking_dependency',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 5, blocking_issue_id: 10000, dry_run: true },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain('#5 is already blocked by #10');
+    });
+
+    it('should still refuse a dependency that would create a cycle', async () => {
+      mockGetBlocking.mockImplementation(async (_owner: string, _repo: string, number: number) =>
+        paginated(number === 5 ? [issueRef(7)] : [])
+      );
+
+      const result = await client.callTool({
+        name: 'github_add_blocking_dependency',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 5, blocking_issue_id: '#7', dry_run: true },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain('would create a cycle: #5 → #7 → #5');
+    });
+
+    it('should check that a blocking dependency exists before removing it', async () => {
+      const existing = await client.callTool({
+        name: 'github_remove_blocking_dependency',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 5, blocking_issue_id: '#10', dry_run: true },
+      });
+      const missing = await client.callTool({
+        name: 'github_remove_blocking_dependency',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 5, blocking_issue_id: '#11', dry_run: true },
+      });
+
+      expect(textOf(existing)).toBe('Dry run, nothing changed: #10 would no longer block #5.');
+      expect(missing.isError).toBe(true);
+      expect(textOf(missing)).toContain('#5 is not blocked by #11, so there is nothing to remove.');
+      expect(mockRemoveBlockingDependency).not.toHaveBeenCalled();
+    });
+
+    it('should check the current parent of a new sub-issue', async () => {
+      mockGetParentIssue.mockResolvedValue(issueRef(40));
+      const args = { owner: 'testowner', repo: 'testrepo', issue_number: 50, sub_issue_id: 'testowner/otherrepo#9', dry_run: true };
+
+      const refused = await client.callTool({ name: 'github_add_sub_issue', arguments: args });
+      const moved = await client.callTool({ name: 'github_add_sub_issue', arguments: { ...args, replace_parent: true } });
+
+      expect(mockGetParentIssue).toHaveBeenCalledWith('testowner', 'otherrepo', 9);
+      expect(refused.isError).toBe(true);
+      expect(textOf(refused)).toContain('testowner/otherrepo#9 already has parent #40; set replace_parent=true');
+      expect(textOf(moved)).toBe(
+        'Dry run, nothing changed: testowner/otherrepo#9 would be moved from parent #40 and added as sub-issue 4 of #50.'
+      );
+      expect(mockCheckSubIssueMove).toHaveBeenCalledWith(9000, { owner: 'testowner', repo: 'testrepo', issueNumber: 40 });
+      expect(mockAddSubIssue).not.toHaveBeenCalled();
+    });
+
+    it('should report the repository policy denials the write would hit', async () => {
+      mockCheckRelationshipWrite.mockRejectedValueOnce(new PolicyDeniedError('write', 'testowner/otherrepo'));
+
+      const result = await client.callTool({
+        name: 'github_add_sub_issue',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50, sub_issue_id: 'testowner/otherrepo#9', dry_run: true },
+      });
+
+      expect(mockCheckRelationshipWrite).toHaveBeenCalledWith(
+        'testowner', 'testrepo', 9000, { owner: 'testowner', repo: 'otherrepo', issueNumber: 9 }
+      );
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain('Policy denied: write access to testowner/otherrepo');
+      expect(mockListSubIssues).not.toHaveBeenCalled();
+    });
+
+    it('should look for the repository of a removed issue among the related issues', async () => {
+      await client.callTool({
+        name: 'github_remove_blocking_dependency',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 5, blocking_issue_id: 10000, dry_run: true },
+      });
+
+      expect(mockCheckRelationshipWrite).toHaveBeenCalledWith('testowner', 'testrepo', 10000, undefined, [
+        expect.objectContaining({ id: 10000 }),
+      ]);
+    });
+
+    it('should check that an issue is a sub-issue before removing it', async () => {
+      const result = await client.callTool({
+        name: 'github_remove_sub_issue',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50, sub_issue_id: '#104', dry_run: true },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain('#104 is not a sub-issue of #50.');
+      expect(mockRemoveSubIssue).not.toHaveBeenCalled();
+    });
+
+    it('should report the position a reprioritized sub-issue would move to', async () => {
+      const moved = await client.callTool({
+        name: 'github_reprioritize_sub_issue',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50, sub_issue_id: 103000, before_id: '#101', dry_run: true },
+      });
+      const unchanged = await client.callTool({
+        name: 'github_reprioritize_sub_issue',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50, sub_issue_id: '#102', after_id: '#101', dry_run: true },
+      });
+
+      expect(textOf(moved)).toBe(
+        'Dry run, nothing changed: #103 would move from position 3 to 1 of 3 under #50 (before #101).'
+      );
+      expect(textOf(unchanged)).toBe('Dry run, nothing changed: #102 is already after #101; nothing would change.');
+      expect(mockReprioritizeSubIssue).not.toHaveBeenCalled();
+    });
+
+    describe('server-wide', () => {
+      let dryRunClient: Client;
+
+      beforeEach(async () => {
+        const { createServer } = await import('../../src/server.js');
+        const { GitHubClient } = await import('../../src/github/client.js');
+        const [dryRunClientTransport, dryRunServerTransport] = InMemoryTransport.createLinkedPair();
+        await createServer(new GitHubClient('test-token'), { dryRun: true }).connect(dryRunServerTransport);
+        dryRunClient = new Client({ name: 'test-client', version: '1.0.0' });
+        await dryRunClient.connect(dryRunClientTransport);
+      });
+
+      afterEach(async () => {
+        await dryRunClient.close();
+      });
+
+      it('should dry-run calls that do not ask for it', async () => {
+        const result = await dryRunClient.callTool({
+          name: 'github_remove_sub_issue',
+          arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50, sub_issue_id: '#101', dry_run: false },
+        });
+
+        expect(textOf(result)).toBe(
+          'Dry run, nothing changed: #101 would be removed from #50 and become a standalone issue.'
+        );
+        expect(mockRemoveSubIssue).not.toHaveBeenCalled();
+      });
+
+      it('should check each item of a batch', async () => {
+        const result = await dryRunClient.callTool({
+          name: 'github_add_sub_issues',
+          arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50, sub_issue_ids: ['#104', '#101'] },
+        });
+
+        const text = textOf(result);
+        expect(text).toContain('1 succeeded, 1 failed.');
+        expect(text).toContain('[ok] #104: Dry run, nothing changed: #104 would be added as sub-issue 4 of #50.');
+        expect(text).toContain('[failed] #101: Dry run, nothing changed: #101 is already a sub-issue of #50.');
+        expect(mockAddSubIssue).not.toHaveBeenCalled();
+      });
+
+      it('should count the moves of an epic plan without reordering', async () => {
+        mockGetBlockedBy.mockImplementation(async (_owner: string, _repo: string, number: number) =>
+          paginated(number === 101 ? [issueRef(102)] : [])
+        );
+
+        const result = await dryRunClient.callTool({
+          name: 'github_plan_epic',
+          arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 50, apply_order: true, response_format: 'json' },
+        });
+
+        expect(result.structuredContent).toMatchObject({ applied: false, dry_run: true, moves: 1 });
+        expect(mockReprioritizeSubIssue).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('change journal tools', () => {
+    const dependency = { owner: 'testowner', repo: 'testrepo', issueNumber: 5, blockingIssueId: 100 };
+    const entries = [
+      { id: 3, timestamp: '2024-01-01T00:03:00Z', scope: 's', change: { kind: 'add_blocking_dependency', ...dependency, repo: 'other' } },
+      { id: 2, timestamp: '2024-01-01T00:02:00Z', scope: 's', change: { kind: 'remove_blocking_dependency', ...dependency }, undoOf: 1 },
+      { id: 1, timestamp: '2024-01-01T00:01:00Z', scope: 's', change: { kind: 'add_blocking_dependency', ...dependency } },
+    ];
+
+    it('should list recent changes with their undo status', async () => {
+      mockRecentChanges.mockReturnValueOnce(entries);
+      mockUndoneBy.mockImplementation((id: number) => (id === 1 ? entries[1] : undefined));
+
+      const result = await client.callTool({
+        name: 'github_list_recent_changes',
+        arguments: { repo: 'testrepo' },
+      });
+
+      const text = (result.content as ToolResult['content'])[0].text;
+      expect(text).toContain(
+        '- **Change 2** (2024-01-01T00:02:00Z): Removed issue ID 100 as a blocker of testowner/testrepo#5 — undoes change 1'
+      );
+      expect(text).toContain(
+        '- **Change 1** (2024-01-01T00:01:00Z): Marked testowner/testrepo#5 as blocked by issue ID 100 — undone by change 2'
+      );
+      expect(text).not.toContain('Change 3');
+    });
+
+    it('should undo changes newest first', async () => {
+      mockPlanUndo.mockImplementation((id: number) => ({
+        entry: entries.find((e) => e.id === id),
+        writes: [],
+        completedWrites: 0,
+      }));
+      mockUndoChange.mockResolvedValueOnce(['Removed blocking dependency']).mockRejectedValueOnce(
+        new Error('Change 1 was already undone by change 2.')
+      );
+
+      const result = await client.callTool({
+        name: 'github_undo_change',
+        arguments: { change_ids: [1, 3], response_format: 'json' },
+      });
+
+      expect(mockUndoChange.mock.calls).toEqual([[3], [1]]);
+      expect(result.structuredContent).toMatchObject({
+        results: [
+          { change_id: 3, success: true, message: expect.stringContaining('Removed blocking dependency') },
+          { change_id: 1, success: false, message: 'Change 1 was already undone by change 2.' },
+        ],
+        succeeded: 1,
+        failed: 1,
+      });
+      mockPlanUndo.mockReset();
+    });
+
+    it('should list the writes of an undo in a dry run', async () => {
+      mockPlanUndo.mockReturnValueOnce({
+        entry: entries[2],
+        writes: [{ kind: 'remove_blocking_dependency', ...dependency }],
+        completedWrites: 0,
+      });
+
+      const result = await client.callTool({
+        name: 'github_undo_change',
+        arguments: { change_ids: [1], dry_run: true },
+      });
+
+      expect((result.content as ToolResult['content'])[0].text).toContain(
+        '[ok] Change 1: Dry run, nothing changed: would remove issue ID 100 as a blocker of testowner/testrepo#5.'
+      );
+      expect(mockUndoChange).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to restore a dependency that would now create a cycle', async () => {
+      // Since #7 stopped blocking #5, #5 came to block #6, which blocks #7
+      mockGetIssue.mockImplementation(async (_owner: string, _repo: string, number: number) => issueRef(number));
+      mockGetBlocking.mockImplementation(async (_owner: string, _repo: string, number: number) =>
+        paginated(number === 5 ? [issueRef(6)] : number === 6 ? [issueRef(7)] : [])
+      );
+      const restore = { ...dependency, blockingIssueId: 7000 };
+      mockPlanUndo.mockReturnValue({
+        entry: { id: 2, timestamp: '2024-01-01T00:02:00Z', scope: 's', change: { kind: 'remove_blocking_dependency', ...restore } },
+        writes: [{ kind: 'add_blocking_dependency', ...restore }],
+        completedWrites: 0,
+      });
+
+      const result = await client.callTool({
+        name: 'github_undo_change',
+        arguments: { change_ids: [2] },
+      });
+      const dryRun = await client.callTool({
+        name: 'github_undo_change',
+        arguments: { change_ids: [2], dry_run: true },
+      });
+
+      expect(result.isError).toBe(true);
+      expect((result.content as ToolResult['content'])[0].text).toContain('would create a cycle: #5 → #7 → #6 → #5');
+      expect((dryRun.content as ToolResult['content'])[0].text).toContain('would create a cycle');
+      expect(mockUndoChange).not.toHaveBeenCalled();
+      mockPlanUndo.mockReset();
+      mockGetIssue.mockReset();
+      mockGetBlocking.mockReset();
+    });
+
+    it('should say when an undo resumes an earlier one', async () => {
+      mockPlanUndo.mockReturnValueOnce({
+        entry: { id: 4, timestamp: '2024-01-01T00:04:00Z', scope: 's', change: { kind: 'remove_sub_issue', owner: 'testowner', repo: 'testrepo', parentIssueNumber: 50, subIssueId: 101 } },
+        writes: [{ kind: 'reprioritize_sub_issue', owner: 'testowner', repo: 'testrepo', parentIssueNumber: 50, subIssueId: 101, afterId: 100 }],
+        completedWrites: 1,
+      });
+      mockUndoChange.mockResolvedValueOnce(['Moved sub-issue']);
+
+      const result = await client.callTool({
+        name: 'github_undo_change',
+        arguments: { change_ids: [4] },
+      });
+
+      expect((result.content as ToolResult['content'])[0].text).toContain(
+        'Moved sub-issue. Resumed an earlier undo that stopped after 1 write(s).'
+      );
+    });
+  });
+
+  describe('resources', () => {
+    const readText = async (uri: string) => {
+      const result = await client.readResource({ uri });
+      return (result.contents[0] as { text: string }).text;
+    };
+
+    it('should list the issue resource templates', async () => {
+      const result = await client.listResourceTemplates();
+
+      expect(result.resourceTemplates.map((t) => t.uriTemplate).sort()).toEqual([
+        'github-issue://{owner}/{repo}/{number}',
+        'github-issue://{owner}/{repo}/{number}/dependencies',
+        'github-issue://{owner}/{repo}/{number}/sub-issues',
+      ]);
+    });
+
+    it('should read an issue', async () => {
+      mockGetIssue.mockResolvedValueOnce(mockIssueDetail);
+
+      const result = await client.readResource({ uri: 'github-issue://testowner/testrepo/50' });
+
+      expect(mockGetIssue).toHaveBeenCalledWith('testowner', 'testrepo', 50);
+      expect(result.contents[0]).toMatchObject({ uri: 'github-issue://testowner/testrepo/50', mimeType: 'text/markdown' });
+      expect((result.contents[0] as { text: string }).text).toContain('# #50: Parent Issue');
+    });
+
+    it('should read sub-issues in priority order', async () => {
+      mockListSubIssues.mockResolvedValueOnce(paginated(mockSubIssues));
+
+      const text = await readText('github-issue://testowner/testrepo/50/sub-issues');
+
+      expect(mockListSubIssues).toHaveBeenCalledWith('testowner', 'testrepo', 50);
+      expect(text).toContain('# Sub-Issues of testowner/testrepo#50');
+      expect(text).toContain(`1. #${mockSubIssues[0].number}: ${mockSubIssues[0].title}`);
+    });
+
+    it('should read blockers and blocked issues', async () => {
+      mockGetBlockedBy.mockResolvedValueOnce(paginated(mockBlockingIssues));
+      mockGetBlocking.mockResolvedValueOnce(paginated([]));
+
+      const text = await readText('github-issue://testowner/testrepo/42/dependencies');
+
+      expect(text).toContain('## Blocked by');
+      expect(text).toContain(`#${mockBlockingIssues[0].number}: ${mockBlockingIssues[0].title}`);
+      expect(text).toContain('## Blocking\n\nNone.');
+    });
+
+    it('should list recently read issues, newest first', async () => {
+      mockGetIssue.mockResolvedValueOnce(mockIssueDetail);
+      mockGetBlockedBy.mockResolvedValueOnce(paginated([]));
+
+      await client.readResource({ uri: 'github-issue://testowner/testrepo/50' });
+      await client.callTool({
+        name: 'github_get_blocked_by',
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: 42 },
+      });
+      const result = await client.listResources();
+
+      expect(result.resources).toEqual([
+        expect.objectContaining({ uri: 'github-issue://testowner/testrepo/42', name: 'testowner/testrepo#42' }),
+        expect.objectContaining({
+          uri: 'github-issue://testowner/testrepo/50',
+          title: 'testowner/testrepo#50: Parent Issue',
+        }),
+      ]);
+    });
+
+    it('should report GitHub errors with the request ID', async () => {
+      mockGetIssue.mockRejectedValueOnce(new GitHubApiError('Issue or repository not found (404)', 'not_found', 404, 'ABCD:1234'));
+
+      await expect(client.readResource({ uri: 'github-issue://testowner/testrepo/999' })).rejects.toThrow(
+        'Issue or repository not found (404) (GitHub request ID: ABCD:1234)'
+      );
+    });
+
+    it('should reject invalid issue numbers', async () => {
+      await expect(client.readResource({ uri: 'github-issue://testowner/testrepo/abc' })).rejects.toThrow(
+        'Invalid issue number "abc"'
+      );
+      expect(mockGetIssue).not.toHaveBeenCalled();
+    });
+
+    describe('subscriptions', () => {
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('should notify subscribers when sub-issues change', async () => {
+        vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+        const updated = vi.fn();
+        client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+          updated(notification.params.uri);
+        });
+        const uri = 'github-issue://testowner/testrepo/50/sub-issues';
+        mockListSubIssues.mockResolvedValueOnce(paginated(mockSubIssues));
+
+        await client.subscribeResource({ uri });
+        mockListSubIssues.mockResolvedValueOnce(
+          paginated([{ ...mockSubIssues[0], state: 'closed' }, ...mockSubIssues.slice(1)])
+        );
+        vi.advanceTimersByTime(60_000);
+
+        await vi.waitFor(() => expect(updated).toHaveBeenCalledWith(uri));
+        expect(mockListSubIssues).toHaveBeenCalledTimes(2);
+      });
+
+      it('should not list issues that were only polled', async () => {
+        vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+        const uri = 'github-issue://testowner/testrepo/50';
+        mockGetIssue.mockResolvedValue(mockIssueDetail);
+
+        await client.subscribeResource({ uri });
+        vi.advanceTimersByTime(60_000);
+        await vi.waitFor(() => expect(mockGetIssue).toHaveBeenCalledTimes(2));
+        const result = await client.listResources();
+
+        expect(result.resources).toEqual([]);
+      });
+
+      it('should refuse subscriptions to unknown resources', async () => {
+        await expect(client.subscribeResource({ uri: 'github-issue://testowner/testrepo' })).rejects.toThrow(
+          'Resource github-issue://testowner/testrepo not found'
+        );
+      });
+
+      it('should stop polling after unsubscribing', async () => {
+        vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+        const uri = 'github-issue://testowner/testrepo/42/dependencies';
+        mockGetBlockedBy.mockResolvedValueOnce(paginated(mockBlockingIssues));
+        mockGetBlocking.mockResolvedValueOnce(paginated([]));
+
+        await client.subscribeResource({ uri });
+        await client.unsubscribeResource({ uri });
+        vi.advanceTimersByTime(60_000);
+
+        expect(mockGetBlockedBy).toHaveBeenCalledTimes(1);
+      });
+    });
+  });
+
+  describe('prompts', () => {
+    const node = (number: number, state: 'open' | 'closed' = 'open', title = `Issue ${number}`) => ({
+      ...mockIssue,
+      id: number * 1000,
+      number,
+      title,
+      state,
+      html_url: `https://github.com/testowner/testrepo/issues/${number}`,
+    });
+    const promptText = async (name: string, issueNumber = '50', promptClient = client) => {
+      const result = await promptClient.getPrompt({
+        name,
+        arguments: { owner: 'testowner', repo: 'testrepo', issue_number: issueNumber },
+      });
+      expect(result.messages).toHaveLength(1);
+      expect(result.messages[0].role).toBe('user');
+      return (result.messages[0].content as { text: string }).text;
+    };
+
+    beforeEach(() => {
+      // #50 has sub-issues #1 (closed), #2 (blocked by #1 and #3) and #3
+      const children: Record<number, ReturnType<typeof node>[]> = {
+        50: [node(1, 'closed', 'Design'), node(2, 'open', 'Build'), node(3, 'open', 'Migrate')],
+      };
+      const blockers: Record<number, ReturnType<typeof node>[]> = { 2: [node(1, 'closed'), node(3, 'open', 'Migrate')] };
+      mockGetIssue.mockResolvedValue({ ...mockIssueDetail, title: 'Release 2.0' });
+      mockListSubIssues.mockImplementation(async (_owner: string, _repo: string, number: number) =>
+        paginated(children[number] ?? [])
+      );
+      mockGetBlockedBy.mockImplementation(async (_owner: string, _repo: string, number: number) =>
+        paginated(blockers[number] ?? [])
+      );
+    });
+
+    afterEach(() => {
+      mockGetIssue.mockReset();
+      mockListSubIssues.mockReset();
+      mockGetBlockedBy.mockReset();
+    });
+
+    it('should list the planning prompts', async () => {
+      const result = await client.listPrompts();
+
+      expect(result.prompts.map((p) => p.name).sort()).toEqual([
+        'break_down_issue',
+        'epic_status_update',
+        'triage_release_blockers',
+      ]);
+      expect(result.prompts[0].arguments?.map((a) => a.name)).toEqual(['owner', 'repo', 'issue_number']);
+    });
+
+    it('should include the issue and its current sub-issues when breaking it down', async () => {
+      const text = await promptText('break_down_issue');
+
+      expect(mockGetIssue).toHaveBeenCalledWith('testowner', 'testrepo', 50);
+      expect(text).toContain('Break down testowner/testrepo#50 into sub-issues.');
+      expect(text).toContain('# #50: Release 2.0');
+      expect(text).toContain('1. #1: Design (closed)');
+      expect(text).toContain('github_add_sub_issues (owner="testowner", repo="testrepo", issue_number=50)');
+      expect(text).toContain('github_plan_epic');
+    });
+
+    it('should list blocked and ready sub-issues for release triage', async () => {
+      const text = await promptText('triage_release_blockers');
+
+      expect(text).toContain('3 sub-issue(s), 1 closed.');
+      expect(text).toContain('### Ready to start\n\n- #3: Migrate (open)');
+      expect(text).toContain('- #2: Build — waiting on #3 (Migrate)');
+      expect(text).toContain('github_remove_blocking_dependency');
+    });
+
+    it('should include progress and blockers in the status update prompt', async () => {
+      const text = await promptText('epic_status_update');
+
+      expect(text).toContain('Write a status update for the epic testowner/testrepo#50: "Release 2.0".');
+      expect(text).toContain('1/3 sub-issues done (33%).');
+      expect(text).toContain('  - [x] #1: Design');
+      expect(text).toContain('- #2: Build — waiting on #3 (Migrate)');
+    });
+
+    it('should only suggest tools the server offers', async () => {
+      const { createServer } = await import('../../src/server.js');
+      const { GitHubClient } = await import('../../src/github/client.js');
+      const [readOnlyClientTransport, readOnlyServerTransport] = InMemoryTransport.createLinkedPair();
+      await createServer(new GitHubClient('test-token'), { readOnly: true }).connect(readOnlyServerTransport);
+      const readOnlyClient = new Client({ name: 'test-client', version: '1.0.0' });
+      await readOnlyClient.connect(readOnlyClientTransport);
+
+      const text = await promptText('break_down_issue', '50', readOnlyClient);
+      await readOnlyClient.close();
+
+      expect(text).not.toContain('github_add_sub_issues');
+      expect(text).not.toContain('cannot create issues');
+    });
+
+    it('should reject invalid issue numbers', async () => {
+      await expect(promptText('break_down_issue', 'abc')).rejects.toThrow('Issue number must be a positive integer');
+      expect(mockGetIssue).not.toHaveBeenCalled();
+    });
+
+    it('should report GitHub errors with the request ID', async () => {
+      mockGetIssue.mockRejectedValueOnce(new GitHubApiError('Issue or repository not found (404)', 'not_found', 404, 'ABCD:1234'));
+
+      await expect(promptText('break_down_issue', '999')).rejects.toThrow('(GitHub request ID: ABCD:1234)');
+    });
+  });
+
+  describe('completions', () => {
+    it('should complete resource template owners and repositories', async () => {
+      mockListRepositories.mockResolvedValueOnce([
+        { owner: 'testowner', name: 'testrepo' },
+        { owner: 'testowner', name: 'tools' },
+        { owner: 'octocat', name: 'hello-world' },
+      ]);
+      const ref = { type: 'ref/resource' as const, uri: 'github-issue://{owner}/{repo}/{number}/sub-issues' };
+
+      const owners = await client.complete({ ref, argument: { name: 'owner', value: 'test' } });
+      const repos = await client.complete({
+        ref,
+        argument: { name: 'repo', value: 'te' },
+        context: { arguments: { owner: 'testowner' } },
+      });
+
+      expect(owners.completion.values).toEqual(['testowner']);
+      expect(repos.completion.values).toEqual(['testrepo']);
+      expect(mockListRepositories).toHaveBeenCalledTimes(1);
+    });
+
+    it('should complete prompt issue numbers from issue search', async () => {
+      mockSearchIssues.mockResolvedValueOnce([
+        { ...mockIssue, number: 42 },
+        { ...mockIssue, number: 7 },
+        { ...mockIssue, number: 420 },
+      ]);
+
+      const result = await client.complete({
+        ref: { type: 'ref/prompt', name: 'break_down_issue' },
+        argument: { name: 'issue_number', value: '4' },
+        context: { arguments: { owner: 'testowner', repo: 'testrepo' } },
+      });
+
+      expect(result.completion.values).toEqual(['42', '420']);
+      expect(mockSearchIssues).toHaveBeenCalledWith('testowner', 'testrepo', '');
+    });
+  });
+
+  describe('github_get_rate_limit tool', () => {
+    it('should render the quota per resource', async () => {
+      mockGetRateLimit.mockResolvedValueOnce([
+        { resource: 'core', limit: 5000, remaining: 4321, used: 679, reset_at: '2024-01-01T00:00:00.000Z' },
+      ]);
+
+      const result = await client.callTool({
+        name: 'github_get_rate_limit',
+        arguments: {},
+      });
+
+      const text = (result.content as ToolResult['content'])[0].text;
+      expect(text).toContain('# GitHub API Rate Limit');
+      expect(text).toContain('| core | 4321 | 5000 | 679 | 2024-01-01T00:00:00.000Z |');
+    });
+  });
 });
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AuditLog, redactSecrets, type AuditRecord } from '../../src/audit.js';
+
+const record = (tool: string): AuditRecord => ({
+  timestamp: '2024-01-01T00:00:00.000Z',
+  tool,
+  arguments: {},
+  repository: null,
+  dry_run: false,
+  outcome: 'success',
+  github_request_ids: [],
+  duration_ms: 1,
+  credentials: 'abc',
+  client: null,
+  session_id: null,
+});
+
+const tools = (file: string) =>
+  readFileSync(file, 'utf8').trim().split('\n').map((line) => JSON.parse(line).tool);
+
+describe('redactSecrets', () => {
+  it('should redact values of secret-named keys and token-shaped strings', () => {
+    expect(
+      redactSecrets({
+        owner: 'testowner',
+        token: 'anything',
+        nested: [{ githubToken: 'x' }, `use ghp_${'a'.repeat(36)} here`],
+        issue_id: 5,
+      })
+    ).toEqual({
+      owner: 'testowner',
+      token: '[REDACTED]',
+      nested: [{ githubToken: '[REDACTED]' }, 'use [REDACTED] here'],
+      issue_id: 5,
+    });
+  });
+});
+
+describe('AuditLog', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'audit-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should append one JSON line per record', () => {
+    const file = join(dir, 'logs', 'audit.log');
+    const log = new AuditLog({ destination: file });
+
+    log.write(record('github_get_issue'));
+    log.write(record('github_add_sub_issue'));
+
+    expect(tools(file)).toEqual(['github_get_issue', 'github_add_sub_issue']);
+  });
+
+  it('should rotate the file by size and keep maxFiles rotated files', () => {
+    const file = join(dir, 'audit.log');
+    const lineBytes = JSON.stringify(record('t1')).length + 1;
+    const log = new AuditLog({ destination: file, maxBytes: lineBytes * 2, maxFiles: 2 });
+
+    for (let i = 1; i <= 7; i++) {
+      log.write(record(`t${i}`));
+    }
+
+    expect(tools(file)).toEqual(['t7']);
+    expect(tools(`${file}.1`)).toEqual(['t5', 't6']);
+    expect(tools(`${file}.2`)).toEqual(['t3', 't4']);
+    expect(existsSync(`${file}.3`)).toBe(false);
+  });
+
+  it('should continue the size of an existing file', () => {
+    const file = join(dir, 'audit.log');
+    const lineBytes = JSON.stringify(record('t1')).length + 1;
+    new AuditLog({ destination: file, maxBytes: lineBytes }).write(record('t1'));
+
+    new AuditLog({ destination: file, maxBytes: lineBytes }).write(record('t2'));
+
+    expect(tools(file)).toEqual(['t2']);
+    expect(tools(`${file}.1`)).toEqual(['t1']);
+  });
+
+  it('should write to stderr', () => {
+    const write = vi.spyOn(process.stderr, 'write').mockReturnValue(true);
+
+    new AuditLog({ destination: 'stderr' }).write(record('github_get_issue'));
+
+    expect(JSON.parse(String(write.mock.calls[0][0]))).toMatchObject({ tool: 'github_get_issue' });
+    write.mockRestore();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ArgumentCompleter } from '../../src/completions.js';
+import type { GitHubClient } from '../../src/github/client.js';
+import { issueRef } from '../fixtures/github-responses.js';
+
+describe('ArgumentCompleter', () => {
+  const client = {
+    listRepositories: vi.fn(),
+    listOwnerRepositories: vi.fn(),
+    searchIssues: vi.fn(),
+  };
+  let completer: ArgumentCompleter;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    client.listRepositories.mockResolvedValue([
+      { owner: 'acme', name: 'roadmap' },
+      { owner: 'acme', name: 'api' },
+      { owner: 'octocat', name: 'hello-world' },
+    ]);
+    client.listOwnerRepositories.mockResolvedValue([{ owner: 'nodejs', name: 'node' }]);
+    client.searchIssues.mockResolvedValue([issueRef(12), issueRef(5), issueRef(120)]);
+    completer = new ArgumentCompleter(client as unknown as GitHubClient);
+  });
+
+  it('should complete owners of accessible repositories', async () => {
+    expect(await completer.owners('AC')).toEqual(['acme']);
+    expect(await completer.owners('')).toEqual(['acme', 'octocat']);
+  });
+
+  it('should complete repositories of an owner, ignoring case', async () => {
+    expect(await completer.repositories('ACME', 'R')).toEqual(['roadmap']);
+    expect(await completer.repositories(undefined, 'h')).toEqual(['hello-world']);
+  });
+
+  it("should fall back to an owner's public repositories", async () => {
+    expect(await completer.repositories('nodejs', '')).toEqual(['node']);
+    expect(client.listOwnerRepositories).toHaveBeenCalledWith('nodejs');
+  });
+
+  it('should complete issue numbers by prefix from one search', async () => {
+    expect(await completer.issueNumbers('acme', 'roadmap', '1')).toEqual(['12', '120']);
+    expect(await completer.issueNumbers('acme', 'roadmap', '12')).toEqual(['12', '120']);
+
+    expect(client.searchIssues).toHaveBeenCalledTimes(1);
+    expect(client.searchIssues).toHaveBeenCalledWith('acme', 'roadmap', '');
+  });
+
+  it('should search issue titles for text', async () => {
+    expect(await completer.issueNumbers('acme', 'roadmap', 'login')).toEqual(['12', '5', '120']);
+    expect(client.searchIssues).toHaveBeenCalledWith('acme', 'roadmap', 'login');
+  });
+
+  it('should need an owner and repository for issue numbers', async () => {
+    expect(await completer.issueNumbers('acme', undefined, '1')).toEqual([]);
+    expect(client.searchIssues).not.toHaveBeenCalled();
+  });
+
+  it('should cache results for the session', async () => {
+    await completer.owners('a');
+    await completer.repositories('acme', '');
+
+    expect(client.listRepositories).toHaveBeenCalledTimes(1);
+  });
+
+  it('should complete to nothing on failure and retry later', async () => {
+    client.listRepositories.mockRejectedValueOnce(new Error('Bad credentials'));
+
+    expect(await completer.owners('a')).toEqual([]);
+    expect(await completer.owners('a')).toEqual(['acme']);
+  });
+});
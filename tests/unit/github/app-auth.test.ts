@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { generateKeyPairSync, verify } from 'node:crypto';
+import { GitHubAppAuth, createAppJwt } from '../../../src/github/app-auth.js';
+import { GitHubClient } from '../../../src/github/client.js';
+
+const mockRequest = vi.fn();
+const mockHookBefore = vi.fn();
+
+vi.mock('@octokit/rest', () => ({
+  Octokit: class MockOctokit {
+    request = mockRequest;
+    hook = { before: mockHookBefore };
+    constructor() {}
+  },
+}));
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function tokenResponse(token: string, expiresInMs = HOUR_MS) {
+  return { data: { token, expires_at: new Date(Date.now() + expiresInMs).toISOString() } };
+}
+
+function notFound() {
+  return Object.assign(new Error('Not Found'), { status: 404, response: { headers: {}, data: { message: 'Not Found' } } });
+}
+
+describe('createAppJwt', () => {
+  it('should sign an RS256 JWT issued by the app', () => {
+    const now = Date.UTC(2024, 0, 1);
+
+    const [header, payload, signature] = createAppJwt('12345', privateKey, now).split('.');
+
+    expect(JSON.parse(Buffer.from(header, 'base64url').toString())).toEqual({ alg: 'RS256', typ: 'JWT' });
+    expect(JSON.parse(Buffer.from(payload, 'base64url').toString())).toEqual({
+      iat: now / 1000 - 60,
+      exp: now / 1000 + 540,
+      iss: '12345',
+    });
+    expect(verify('RSA-SHA256', Buffer.from(`${header}.${payload}`), publicKey, Buffer.from(signature, 'base64url'))).toBe(
+      true
+    );
+  });
+});
+
+describe('GitHubAppAuth', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should reject an invalid private key', () => {
+    expect(() => new GitHubAppAuth({ appId: '1', privateKey: 'not a key' })).toThrow(
+      'GitHub App private key is not a valid PEM key'
+    );
+  });
+
+  describe('with an installation ID', () => {
+    let auth: GitHubAppAuth;
+
+    beforeEach(() => {
+      auth = new GitHubAppAuth({ appId: '1', privateKey, installationId: 99 });
+    });
+
+    it('should exchange the app JWT for an installation token', async () => {
+      mockRequest.mockResolvedValueOnce(tokenResponse('ghs_first'));
+
+      expect(await auth.tokenFor('testowner')).toBe('ghs_first');
+      expect(mockRequest).toHaveBeenCalledWith('POST /app/installations/{installation_id}/access_tokens', {
+        installation_id: 99,
+        headers: { authorization: expect.stringMatching(/^Bearer [\w-]+\.[\w-]+\.[\w-]+$/) },
+      });
+    });
+
+    it('should reuse the token until shortly before it expires', async () => {
+      vi.useFakeTimers();
+      mockRequest.mockResolvedValueOnce(tokenResponse('ghs_first')).mockResolvedValueOnce(tokenResponse('ghs_second'));
+
+      await auth.tokenFor('testowner');
+      vi.advanceTimersByTime(50 * 60 * 1000);
+      const reused = await auth.tokenFor('otherowner');
+      vi.advanceTimersByTime(6 * 60 * 1000);
+      const refreshed = await auth.tokenFor('testowner');
+
+      expect(reused).toBe('ghs_first');
+      expect(refreshed).toBe('ghs_second');
+      expect(mockRequest).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share one refresh between concurrent requests', async () => {
+      mockRequest.mockResolvedValueOnce(tokenResponse('ghs_first'));
+
+      const tokens = await Promise.all([auth.tokenFor('a'), auth.tokenFor('b'), auth.tokenFor()]);
+
+      expect(tokens).toEqual(['ghs_first', 'ghs_first', 'ghs_first']);
+      expect(mockRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry after a failed refresh', async () => {
+      mockRequest.mockRejectedValueOnce(notFound()).mockResolvedValueOnce(tokenResponse('ghs_first'));
+
+      await expect(auth.tokenFor('testowner')).rejects.toThrow('Could not get a token for GitHub App installation 99');
+      expect(await auth.tokenFor('testowner')).toBe('ghs_first');
+    });
+  });
+
+  describe('installation discovery', () => {
+    let auth: GitHubAppAuth;
+
+    beforeEach(() => {
+      auth = new GitHubAppAuth({ appId: '1', privateKey });
+    });
+
+    it('should find the installation for a user account once', async () => {
+      mockRequest
+        .mockResolvedValueOnce({ data: { id: 7 } })
+        .mockResolvedValueOnce(tokenResponse('ghs_user'));
+
+      await auth.tokenFor('TestUser');
+      await auth.tokenFor('testuser');
+
+      expect(mockRequest).toHaveBeenCalledWith('GET /users/{username}/installation', expect.objectContaining({
+        username: 'TestUser',
+      }));
+      expect(mockRequest).toHaveBeenCalledWith(
+        'POST /app/installations/{installation_id}/access_tokens',
+        expect.objectContaining({ installation_id: 7 })
+      );
+      expect(mockRequest).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fall back to the organization endpoint', async () => {
+      mockRequest
+        .mockRejectedValueOnce(notFound())
+        .mockResolvedValueOnce({ data: { id: 8 } })
+        .mockResolvedValueOnce(tokenResponse('ghs_org'));
+
+      expect(await auth.tokenFor('testorg')).toBe('ghs_org');
+      expect(mockRequest).toHaveBeenCalledWith('GET /orgs/{org}/installation', expect.objectContaining({
+        org: 'testorg',
+      }));
+    });
+
+    it('should explain when the app is not installed for an owner', async () => {
+      mockRequest.mockRejectedValue(notFound());
+
+      await expect(auth.tokenFor('stranger')).rejects.toThrow('GitHub App 1 is not installed for "stranger"');
+    });
+
+    it('should use the first installation for requests without an owner', async () => {
+      mockRequest
+        .mockResolvedValueOnce({ data: [{ id: 5 }] })
+        .mockResolvedValueOnce(tokenResponse('ghs_default'));
+
+      expect(await auth.tokenFor()).toBe('ghs_default');
+      expect(mockRequest).toHaveBeenCalledWith('GET /app/installations', expect.objectContaining({ per_page: 1 }));
+    });
+  });
+});
+
+describe('GitHubClient with GitHub App auth', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should authorize each request with the installation token for its owner', async () => {
+    const auth = new GitHubAppAuth({ appId: '1', privateKey, installationId: 99 });
+    const tokenFor = vi.spyOn(auth, 'tokenFor').mockResolvedValue('ghs_installation');
+    new GitHubClient(auth, undefined, { maxRetries: 0 });
+    const hook = mockHookBefore.mock.calls[0][1];
+
+    const options = { method: 'GET', url: '/repos/{owner}/{repo}', owner: 'testowner', headers: {} };
+    await hook(options);
+
+    expect(mockHookBefore).toHaveBeenCalledWith('request', expect.any(Function));
+    expect(tokenFor).toHaveBeenCalledWith('testowner');
+    expect(options.headers).toEqual({ authorization: 'token ghs_installation' });
+  });
+
+  it('should not install the hook for token auth', () => {
+    new GitHubClient('fake-token');
+
+    expect(mockHookBefore).not.toHaveBeenCalled();
+  });
+});
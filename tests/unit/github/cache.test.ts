@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ResponseCache } from '../../../src/github/cache.js';
+
+const issue = (number: number, id = number * 1000) => ({
+  id,
+  number,
+  html_url: `https://github.com/testowner/testrepo/issues/${number}`,
+});
+
+const entry = (data: unknown, etag: string | null = '"abc"') => ({
+  etag,
+  link: null,
+  data,
+  storedAt: Date.now(),
+});
+
+describe('ResponseCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should build keys that ignore headers and parameter order', () => {
+    const cache = new ResponseCache();
+
+    expect(cache.key('GET /a', { owner: 'o', repo: 'r', headers: { x: '1' } })).toBe(
+      cache.key('GET /a', { repo: 'r', owner: 'o' })
+    );
+    expect(cache.key('GET /a', { page: 1 })).not.toBe(cache.key('GET /a', { page: 2 }));
+  });
+
+  it('should only skip revalidation within the TTL', () => {
+    vi.useFakeTimers();
+    const cache = new ResponseCache({ ttlSeconds: 10 });
+    cache.set('k', entry([]));
+
+    expect(cache.isFresh(cache.get('k')!)).toBe(true);
+    vi.advanceTimersByTime(10_000);
+    expect(cache.isFresh(cache.get('k')!)).toBe(false);
+
+    cache.touch('k');
+    expect(cache.isFresh(cache.get('k')!)).toBe(true);
+  });
+
+  it('should not keep responses without an ETag when there is no TTL', () => {
+    const cache = new ResponseCache();
+
+    cache.set('k', entry([], null));
+
+    expect(cache.get('k')).toBeUndefined();
+  });
+
+  it('should evict the least recently used entry', () => {
+    const cache = new ResponseCache({ maxEntries: 2 });
+    cache.set('a', entry(1));
+    cache.set('b', entry(2));
+    cache.get('a');
+    cache.set('c', entry(3));
+
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.size).toBe(2);
+  });
+
+  it('should invalidate entries by issue number and by issue ID seen in data', () => {
+    const cache = new ResponseCache();
+    cache.set('blocked_by #5', entry([issue(7)]), 'testowner/testrepo#5');
+    cache.set('blocking #7', entry([issue(5)]), 'testowner/testrepo#7');
+    cache.set('parent #101', entry(issue(50)), 'testowner/testrepo#101');
+
+    cache.invalidateIssue('TestOwner', 'testrepo', 5);
+    expect(cache.get('blocked_by #5')).toBeUndefined();
+    expect(cache.get('blocking #7')).toBeDefined();
+
+    cache.invalidateIssueId(7000);
+    expect(cache.get('blocking #7')).toBeUndefined();
+
+    // The parent endpoint describes #50 as well as #101
+    cache.invalidateIssue('testowner', 'testrepo', 50);
+    expect(cache.get('parent #101')).toBeUndefined();
+  });
+
+  it('should persist entries to disk and load them for the same scope only', () => {
+    const directory = mkdtempSync(join(tmpdir(), 'gh-cache-'));
+    try {
+      const first = new ResponseCache({ directory, scope: 'token-a' });
+      first.set(first.key('GET /x'), entry([issue(1)]), 'testowner/testrepo#1');
+      expect(readdirSync(directory)).toHaveLength(1);
+
+      const reloaded = new ResponseCache({ directory, scope: 'token-a' });
+      expect(reloaded.get(reloaded.key('GET /x'))?.data).toEqual([issue(1)]);
+
+      const other = new ResponseCache({ directory, scope: 'token-b' });
+      expect(other.size).toBe(0);
+
+      reloaded.invalidateIssue('testowner', 'testrepo', 1);
+      expect(readdirSync(directory)).toHaveLength(0);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,5 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { GitHubClient } from '../../../src/github/client.js';
+import { GitHubApiError, RequestCancelledError } from '../../../src/github/errors.js';
+import { ChangeJournal } from '../../../src/github/journal.js';
+import { PolicyDeniedError, RepositoryPolicy } from '../../../src/github/policy.js';
 import {
   mockIssue,
   mockBlockingIssues,
@@ -23,7 +26,654 @@ describe('GitHubClient', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
-    client = new GitHubClient('fake-token');
+    // Retries are covered by the scheduler tests
+    client = new GitHubClient('fake-token', undefined, { maxRetries: 0 });
+  });
+
+  describe('repository policy', () => {
+    beforeEach(() => {
+      client = new GitHubClient('fake-token', undefined, {
+        maxRetries: 0,
+        repositoryPolicy: new RepositoryPolicy({ read: ['testowner/*'], write: ['testowner/sandbox'] }),
+      });
+    });
+
+    it('should refuse reads outside the policy without calling GitHub', async () => {
+      await expect(client.getIssue('otherowner', 'testrepo', 42)).rejects.toBeInstanceOf(PolicyDeniedError);
+      expect(mockRequest).not.toHaveBeenCalled();
+    });
+
+    it('should refuse writes outside the write patterns', async () => {
+      const result = client.addSubIssue({ owner: 'testowner', repo: 'testrepo', parentIssueNumber: 50, subIssueId: 101 });
+
+      await expect(result).rejects.toThrow('Policy denied: write access to testowner/testrepo');
+      expect(mockRequest).not.toHaveBeenCalled();
+    });
+
+    it('should allow requests the policy permits', async () => {
+      mockRequest.mockResolvedValueOnce({ data: mockIssue, headers: {} });
+
+      await client.getIssue('testowner', 'testrepo', 42);
+
+      expect(mockRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse relationships with an issue in a write-denied repository', async () => {
+      const result = client.addBlockingDependency('testowner', 'sandbox', 5, 100, {
+        owner: 'testowner',
+        repo: 'testrepo',
+        issueNumber: 3,
+      });
+
+      await expect(result).rejects.toThrow('Policy denied: write access to testowner/testrepo');
+      expect(mockRequest).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an issue ID whose repository is unknown', async () => {
+      const result = client.addSubIssue({ owner: 'testowner', repo: 'sandbox', parentIssueNumber: 50, subIssueId: 101 });
+
+      await expect(result).rejects.toThrow('Policy denied: the repository of issue ID 101 is unknown');
+      expect(mockRequest).not.toHaveBeenCalled();
+    });
+
+    it('should find the repository of a removed issue among the related issues', async () => {
+      mockRequest.mockResolvedValueOnce({
+        data: [{ ...mockIssue, id: 100, html_url: 'https://github.com/testowner/testrepo/issues/3' }],
+        headers: {},
+      });
+
+      const result = client.removeBlockingDependency('testowner', 'sandbox', 5, 100);
+
+      await expect(result).rejects.toThrow('Policy denied: write access to testowner/testrepo');
+      expect(mockRequest).toHaveBeenCalledTimes(1);
+      expect(mockRequest.mock.calls[0][0]).toBe('GET /repos/{owner}/{repo}/issues/{issue_number}/dependencies/blocked_by');
+    });
+
+    it('should refuse to move a sub-issue away from a parent in a write-denied repository', async () => {
+      mockRequest.mockResolvedValueOnce({
+        data: { ...mockParentIssue, html_url: 'https://github.com/testowner/testrepo/issues/1' },
+        headers: {},
+      });
+
+      const result = client.addSubIssue({
+        owner: 'testowner',
+        repo: 'sandbox',
+        parentIssueNumber: 50,
+        subIssueId: 101,
+        replaceParent: true,
+        subIssue: { owner: 'testowner', repo: 'sandbox', issueNumber: 7 },
+      });
+
+      await expect(result).rejects.toThrow('Policy denied: write access to testowner/testrepo');
+      expect(mockRequest).not.toHaveBeenCalledWith('POST /repos/{owner}/{repo}/issues/{issue_number}/sub_issues', expect.anything());
+    });
+
+    it('should check writes for dry runs without calling GitHub', async () => {
+      const sandboxIssue = { ...mockIssue, id: 100, html_url: 'https://github.com/testowner/sandbox/issues/3' };
+
+      await expect(client.checkRelationshipWrite('testowner', 'sandbox', 100, undefined, [sandboxIssue])).resolves.toBeUndefined();
+      await expect(client.checkRelationshipWrite('testowner', 'sandbox', 100, undefined)).rejects.toThrow(
+        'Policy denied: the repository of issue ID 100 is unknown'
+      );
+      expect(() => client.checkSubIssueMove(100, { owner: 'testowner', repo: 'testrepo', issueNumber: 1 })).toThrow(
+        'Policy denied: write access to testowner/testrepo'
+      );
+      expect(() => client.checkSubIssueMove(100, null)).not.toThrow();
+      expect(mockRequest).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('change journal', () => {
+    let journal: ChangeJournal;
+
+    beforeEach(() => {
+      journal = new ChangeJournal();
+      client = new GitHubClient('fake-token', undefined, { maxRetries: 0, cacheMaxEntries: 0, journal });
+      // #50 has sub-issues 200000001, 200000002 and 200000003, in that order
+      mockRequest.mockImplementation(async (route: string) => {
+        if (route.endsWith('/parent')) {
+          return { data: mockParentIssue, headers: {} };
+        }
+        if (route.startsWith('GET') && route.endsWith('/sub_issues')) {
+          return { data: mockSubIssues, headers: {} };
+        }
+        return { data: {}, headers: {} };
+      });
+    });
+
+    it('should record the position a sub-issue was removed from', async () => {
+      await client.removeSubIssue('testowner', 'testrepo', 50, 200000002);
+
+      expect(client.recentChanges()).toEqual([
+        expect.objectContaining({
+          id: 1,
+          change: {
+            kind: 'remove_sub_issue',
+            owner: 'testowner',
+            repo: 'testrepo',
+            parentIssueNumber: 50,
+            subIssueId: 200000002,
+            position: { afterId: 200000001 },
+          },
+        }),
+      ]);
+    });
+
+    it('should record the parent and position a sub-issue was moved from', async () => {
+      await client.addSubIssue({
+        owner: 'testowner',
+        repo: 'testrepo',
+        parentIssueNumber: 60,
+        subIssueId: 200000001,
+        replaceParent: true,
+        subIssue: { owner: 'testowner', repo: 'testrepo', issueNumber: 101 },
+      });
+
+      expect(client.recentChanges()[0].change).toMatchObject({
+        kind: 'add_sub_issue',
+        previousParent: { owner: 'testowner', repo: 'testrepo', issueNumber: 50, position: { beforeId: 200000002 } },
+      });
+    });
+
+    it('should not record failed writes', async () => {
+      mockRequest.mockRejectedValueOnce(Object.assign(new Error('Validation Failed'), { status: 422 }));
+
+      await expect(client.addBlockingDependency('testowner', 'testrepo', 5, 100)).rejects.toThrow();
+      expect(client.recentChanges()).toEqual([]);
+    });
+
+    it('should undo a move by restoring the previous parent and position', async () => {
+      await client.addSubIssue({
+        owner: 'testowner',
+        repo: 'testrepo',
+        parentIssueNumber: 60,
+        subIssueId: 200000001,
+        replaceParent: true,
+        subIssue: { owner: 'testowner', repo: 'testrepo', issueNumber: 101 },
+      });
+      mockRequest.mockClear();
+
+      const messages = await client.undoChange(1);
+
+      const writes = mockRequest.mock.calls.filter(([route]) => !route.startsWith('GET'));
+      expect(writes).toEqual([
+        [
+          'POST /repos/{owner}/{repo}/issues/{issue_number}/sub_issues',
+          expect.objectContaining({ issue_number: 50, sub_issue_id: 200000001, replace_parent: true }),
+        ],
+        [
+          'PATCH /repos/{owner}/{repo}/issues/{issue_number}/sub_issues/priority',
+          expect.objectContaining({ issue_number: 50, sub_issue_id: 200000001, before_id: 200000002 }),
+        ],
+      ]);
+      expect(messages).toHaveLength(2);
+      expect(client.recentChanges().map((entry) => entry.undoOf)).toEqual([1, 1, undefined]);
+    });
+
+    it('should refuse to undo a change twice', async () => {
+      await client.addBlockingDependency('testowner', 'testrepo', 5, 100);
+      await client.undoChange(1);
+
+      await expect(client.undoChange(1)).rejects.toThrow('Change 1 was already undone by change 2.');
+    });
+
+    it('should resume an undo that failed part-way', async () => {
+      await client.removeSubIssue('testowner', 'testrepo', 50, 200000002);
+      const respond = mockRequest.getMockImplementation()!;
+      mockRequest.mockImplementation(async (route: string) => {
+        if (route.startsWith('PATCH')) {
+          throw Object.assign(new Error('Server Error'), { status: 500 });
+        }
+        return respond(route);
+      });
+
+      await expect(client.undoChange(1)).rejects.toThrow();
+
+      expect(client.undoneBy(1)).toBeUndefined();
+      expect(client.planUndo(1)).toMatchObject({
+        completedWrites: 1,
+        writes: [{ kind: 'reprioritize_sub_issue', afterId: 200000001 }],
+      });
+
+      mockRequest.mockClear();
+      mockRequest.mockImplementation(respond);
+      await client.undoChange(1);
+
+      const writes = mockRequest.mock.calls.filter(([route]) => !route.startsWith('GET'));
+      expect(writes).toEqual([
+        [
+          'PATCH /repos/{owner}/{repo}/issues/{issue_number}/sub_issues/priority',
+          expect.objectContaining({ sub_issue_id: 200000002, after_id: 200000001 }),
+        ],
+      ]);
+      expect(client.undoneBy(1)?.id).toBe(2);
+    });
+
+    it('should refuse to run two undos of one change at once', async () => {
+      await client.addBlockingDependency('testowner', 'testrepo', 5, 100);
+
+      const [first, second] = await Promise.allSettled([client.undoChange(1), client.undoChange(1)]);
+
+      expect(first.status).toBe('fulfilled');
+      expect(second).toMatchObject({ status: 'rejected', reason: new Error('Change 1 is already being undone.') });
+      expect(mockRequest.mock.calls.filter(([route]) => route.startsWith('DELETE'))).toHaveLength(1);
+    });
+
+    it('should keep the changes of other credentials apart', async () => {
+      await client.addBlockingDependency('testowner', 'testrepo', 5, 100);
+      const other = new GitHubClient('other-token', undefined, { maxRetries: 0, journal });
+
+      expect(other.recentChanges()).toEqual([]);
+      expect(() => other.planUndo(1)).toThrow('Change 1 is not in the journal');
+    });
+  });
+
+  describe('error mapping', () => {
+    it('should convert request failures into GitHubApiError', async () => {
+      const error = Object.assign(new Error('Not Found'), {
+        status: 404,
+        response: { headers: { 'x-github-request-id': 'ABCD:1234' }, data: { message: 'Not Found' } },
+      });
+      mockRequest.mockRejectedValueOnce(error);
+
+      const result = client.getIssue('testowner', 'testrepo', 42);
+
+      await expect(result).rejects.toBeInstanceOf(GitHubApiError);
+      await expect(result).rejects.toMatchObject({
+        kind: 'not_found',
+        requestId: 'ABCD:1234',
+        message: expect.stringContaining('testowner/testrepo#42'),
+      });
+    });
+
+    it('should report mapped messages in batch outcomes', async () => {
+      const error = Object.assign(new Error('Validation Failed'), {
+        status: 422,
+        response: { headers: { 'x-github-request-id': 'ABCD:1234' }, data: { message: 'Validation Failed' } },
+      });
+      mockRequest.mockRejectedValueOnce(error);
+
+      const [outcome] = await client.runBatch([101], (id) =>
+        client.addSubIssue({ owner: 'testowner', repo: 'testrepo', parentIssueNumber: 50, subIssueId: id })
+      );
+
+      expect(outcome).toEqual({
+        ok: false,
+        error: expect.stringMatching(/^Validation failed \(422\).*\(GitHub request ID: ABCD:1234\)$/),
+      });
+    });
+  });
+
+  describe('collectRequestIds', () => {
+    it('should collect the request IDs of successful and failed requests', async () => {
+      mockRequest
+        .mockResolvedValueOnce({ data: mockIssue, headers: { 'x-github-request-id': 'ABCD:1' } })
+        .mockRejectedValueOnce(
+          Object.assign(new Error('Not Found'), {
+            status: 404,
+            response: { headers: { 'x-github-request-id': 'ABCD:2' }, data: { message: 'Not Found' } },
+          })
+        );
+      const requestIds: string[] = [];
+
+      await client.collectRequestIds(requestIds, async () => {
+        await client.getIssue('testowner', 'testrepo', 42);
+        await client.getIssue('testowner', 'testrepo', 43).catch(() => undefined);
+      });
+      mockRequest.mockResolvedValueOnce({ data: mockIssue, headers: { 'x-github-request-id': 'ABCD:3' } });
+      await client.getIssue('testowner', 'testrepo', 44);
+
+      expect(requestIds).toEqual(['ABCD:1', 'ABCD:2']);
+    });
+  });
+
+  describe('withSignal', () => {
+    it('should pass the signal to Octokit and make no requests once it is aborted', async () => {
+      const controller = new AbortController();
+      mockRequest.mockImplementationOnce(async () => {
+        controller.abort();
+        return { data: mockIssue, headers: {} };
+      });
+
+      await client.withSignal(controller.signal, async () => {
+        await client.getIssue('testowner', 'testrepo', 42);
+        await expect(client.getIssue('testowner', 'testrepo', 43)).rejects.toBeInstanceOf(RequestCancelledError);
+      });
+
+      expect(mockRequest).toHaveBeenCalledTimes(1);
+      expect(mockRequest.mock.calls[0][1].request.signal).toBe(controller.signal);
+    });
+
+    it('should not retry a request aborted in flight', async () => {
+      client = new GitHubClient('fake-token', undefined, { maxRetries: 3 });
+      const controller = new AbortController();
+      mockRequest.mockImplementationOnce(async () => {
+        controller.abort();
+        // How Octokit reports an aborted fetch
+        throw Object.assign(new Error('This operation was aborted'), { name: 'AbortError', status: 500 });
+      });
+
+      const result = client.withSignal(controller.signal, () => client.getIssue('testowner', 'testrepo', 42));
+
+      await expect(result).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(mockRequest).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('search', () => {
+    it('should list accessible repositories within the policy', async () => {
+      client = new GitHubClient('fake-token', undefined, {
+        maxRetries: 0,
+        repositoryPolicy: new RepositoryPolicy({ read: ['testowner/*'] }),
+      });
+      mockRequest.mockResolvedValueOnce({
+        data: [
+          { name: 'testrepo', owner: { login: 'testowner' } },
+          { name: 'secrets', owner: { login: 'otherowner' } },
+        ],
+        headers: {},
+      });
+
+      const repositories = await client.listRepositories();
+
+      expect(mockRequest).toHaveBeenCalledWith('GET /user/repos', { sort: 'updated', per_page: 100 });
+      expect(repositories).toEqual([{ owner: 'testowner', name: 'testrepo' }]);
+    });
+
+    it('should search the issues of one repository by title', async () => {
+      mockRequest.mockResolvedValueOnce({
+        data: { items: [{ ...mockIssue, repository_url: 'https://api.github.com/repos/testowner/testrepo' }] },
+        headers: {},
+      });
+
+      const issues = await client.searchIssues('testowner', 'testrepo', 'login');
+
+      expect(mockRequest).toHaveBeenCalledWith('GET /search/issues', {
+        q: 'repo:testowner/testrepo is:issue "login" in:title',
+        sort: 'updated',
+        per_page: 100,
+      });
+      expect(issues.map((issue) => issue.number)).toEqual([mockIssue.number]);
+    });
+
+    it('should keep search qualifiers in the text from leaving the repository', async () => {
+      mockRequest.mockResolvedValueOnce({
+        data: {
+          items: [
+            { ...mockIssue, number: 1, repository_url: 'https://api.github.com/repos/TestOwner/TestRepo' },
+            { ...mockIssue, number: 2, repository_url: 'https://api.github.com/repos/otherowner/secrets' },
+          ],
+        },
+        headers: {},
+      });
+
+      const issues = await client.searchIssues('testowner', 'testrepo', 'x" repo:otherowner/secrets');
+
+      expect(mockRequest).toHaveBeenCalledWith('GET /search/issues', expect.objectContaining({
+        q: 'repo:testowner/testrepo is:issue "x repo:otherowner/secrets" in:title',
+      }));
+      expect(issues.map((issue) => issue.number)).toEqual([1]);
+    });
+
+    it('should refuse to search repositories outside the policy', async () => {
+      client = new GitHubClient('fake-token', undefined, {
+        maxRetries: 0,
+        repositoryPolicy: new RepositoryPolicy({ read: ['testowner/*'] }),
+      });
+
+      await expect(client.searchIssues('otherowner', 'secrets')).rejects.toBeInstanceOf(PolicyDeniedError);
+      expect(mockRequest).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getRateLimit', () => {
+    it('should return the quota for each resource', async () => {
+      mockRequest.mockResolvedValueOnce({
+        data: {
+          resources: {
+            core: { limit: 5000, remaining: 4990, used: 10, reset: 1700000000 },
+            search: { limit: 30, remaining: 30, used: 0, reset: 1700000060 },
+          },
+        },
+      });
+
+      const result = await client.getRateLimit();
+
+      expect(mockRequest).toHaveBeenCalledWith('GET /rate_limit', expect.anything());
+      expect(result).toEqual([
+        { resource: 'core', limit: 5000, remaining: 4990, used: 10, reset_at: '2023-11-14T22:13:20.000Z' },
+        { resource: 'search', limit: 30, remaining: 30, used: 0, reset_at: '2023-11-14T22:14:20.000Z' },
+      ]);
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry a rate-limited request', async () => {
+      const retrying = new GitHubClient('fake-token', undefined, { maxRetries: 1 });
+      const error = Object.assign(new Error('secondary rate limit'), {
+        status: 403,
+        response: {
+          headers: { 'retry-after': '0.01' },
+          data: { message: 'You have exceeded a secondary rate limit.' },
+        },
+      });
+      mockRequest.mockRejectedValueOnce(error).mockResolvedValueOnce({ data: mockIssue });
+
+      const result = await retrying.getIssue('testowner', 'testrepo', 42);
+
+      expect(result.number).toBe(mockIssue.number);
+      expect(mockRequest).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('caching', () => {
+    const notModified = () =>
+      Object.assign(new Error('Not modified'), { status: 304, response: { headers: {}, data: '' } });
+
+    it('should revalidate with If-None-Match and reuse the body on 304', async () => {
+      mockRequest
+        .mockResolvedValueOnce({ data: mockBlockingIssues, headers: { etag: '"v1"' } })
+        .mockRejectedValueOnce(notModified());
+
+      await client.getBlockedBy('testowner', 'testrepo', 42);
+      const result = await client.getBlockedBy('testowner', 'testrepo', 42);
+
+      expect(result.items).toEqual(mockBlockingIssues);
+      expect(mockRequest).toHaveBeenLastCalledWith(
+        'GET /repos/{owner}/{repo}/issues/{issue_number}/dependencies/blocked_by',
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'if-none-match': '"v1"' }),
+        })
+      );
+    });
+
+    it('should serve fresh entries without a request when a TTL is set', async () => {
+      const cached = new GitHubClient('fake-token', undefined, { cacheTtlSeconds: 60 });
+      mockRequest.mockResolvedValueOnce({ data: mockSubIssues, headers: { etag: '"v1"' } });
+
+      await cached.listSubIssues('testowner', 'testrepo', 50);
+      const result = await cached.listSubIssues('testowner', 'testrepo', 50);
+
+      expect(result.items).toEqual(mockSubIssues);
+      expect(mockRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refetch after a write touches the issue', async () => {
+      const cached = new GitHubClient('fake-token', undefined, { cacheTtlSeconds: 60 });
+      mockRequest
+        .mockResolvedValueOnce({ data: mockSubIssues, headers: { etag: '"v1"' } })
+        .mockResolvedValueOnce({ data: {} })
+        .mockResolvedValueOnce({ data: [], headers: { etag: '"v2"' } });
+
+      await cached.listSubIssues('testowner', 'testrepo', 50);
+      await cached.removeSubIssue('testowner', 'testrepo', 50, mockSubIssues[0].id);
+      const result = await cached.listSubIssues('testowner', 'testrepo', 50);
+
+      expect(result.items).toEqual([]);
+      expect(mockRequest).toHaveBeenCalledTimes(3);
+    });
+
+    it('should refetch the previous parent\'s sub-issues after moving one away', async () => {
+      const cached = new GitHubClient('fake-token', undefined, { cacheTtlSeconds: 60 });
+      let moved = false;
+      mockRequest.mockImplementation(async (route: string) => {
+        if (route.startsWith('POST')) {
+          moved = true;
+          return { data: {} };
+        }
+        if (route.endsWith('/parent')) {
+          return { data: mockParentIssue, headers: {} };
+        }
+        return { data: moved ? mockSubIssues.slice(1) : mockSubIssues, headers: {} };
+      });
+
+      await cached.listSubIssues('testowner', 'testrepo', 50);
+      await cached.addSubIssue({
+        owner: 'testowner',
+        repo: 'testrepo',
+        parentIssueNumber: 60,
+        subIssueId: mockSubIssues[0].id,
+        replaceParent: true,
+        subIssue: { owner: 'testowner', repo: 'testrepo', issueNumber: mockSubIssues[0].number },
+      });
+      const result = await cached.listSubIssues('testowner', 'testrepo', 50);
+
+      expect(result.items).toEqual(mockSubIssues.slice(1));
+    });
+
+    it('should not cache when disabled', async () => {
+      const uncached = new GitHubClient('fake-token', undefined, { cacheMaxEntries: 0, cacheTtlSeconds: 60 });
+      mockRequest.mockResolvedValue({ data: mockSubIssues, headers: { etag: '"v1"' } });
+
+      await uncached.listSubIssues('testowner', 'testrepo', 50);
+      await uncached.listSubIssues('testowner', 'testrepo', 50);
+
+      expect(mockRequest).toHaveBeenCalledTimes(2);
+      expect(mockRequest).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({ headers: { 'X-GitHub-Api-Version': '2022-11-28' } })
+      );
+    });
+  });
+
+  describe('runBatch', () => {
+    it('should return outcomes in input order and keep going after a failure', async () => {
+      const outcomes = await client.runBatch([1, 2, 3], async (n) => {
+        if (n === 2) {
+          throw new Error('Not Found');
+        }
+        return n * 10;
+      });
+
+      expect(outcomes).toEqual([
+        { ok: true, value: 10 },
+        { ok: false, error: 'Not Found' },
+        { ok: true, value: 30 },
+      ]);
+    });
+
+    it('should limit the number of tasks in flight', async () => {
+      const limited = new GitHubClient('fake-token', undefined, { batchConcurrency: 2 });
+      let inFlight = 0;
+      let peak = 0;
+
+      await limited.runBatch([1, 2, 3, 4, 5], async () => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+      });
+
+      expect(peak).toBe(2);
+    });
+
+    it('should run one task at a time when concurrency is 1', async () => {
+      const order: string[] = [];
+
+      await client.runBatch(
+        ['a', 'b'],
+        async (item) => {
+          order.push(`start ${item}`);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          order.push(`end ${item}`);
+        },
+        1
+      );
+
+      expect(order).toEqual(['start a', 'end a', 'start b', 'end b']);
+    });
+  });
+
+  describe('getIssue', () => {
+    it('should fetch a single issue by number', async () => {
+      mockRequest.mockResolvedValueOnce({ data: mockIssue });
+
+      const result = await client.getIssue('testowner', 'testrepo', 42);
+
+      expect(mockRequest).toHaveBeenCalledWith(
+        'GET /repos/{owner}/{repo}/issues/{issue_number}',
+        expect.objectContaining({
+          owner: 'testowner',
+          repo: 'testrepo',
+          issue_number: 42,
+        })
+      );
+      expect(result).toMatchObject(mockIssue);
+    });
+
+    it('should normalize labels, assignees, milestone and summaries', async () => {
+      mockRequest.mockResolvedValueOnce({
+        data: {
+          ...mockIssue,
+          state: 'closed',
+          state_reason: 'completed',
+          closed_at: '2024-01-03T00:00:00Z',
+          body: 'Details',
+          labels: ['plain', { id: 1, name: 'bug', color: 'd73a4a', description: null }],
+          assignees: [{ login: 'octocat', id: 1 }],
+          milestone: {
+            number: 2,
+            title: 'v1.0',
+            state: 'open',
+            due_on: null,
+            html_url: 'https://github.com/testowner/testrepo/milestone/2',
+            open_issues: 4,
+          },
+          sub_issues_summary: { total: 4, completed: 1, percent_completed: 25 },
+          reactions: { total_count: 0 },
+        },
+      });
+
+      const result = await client.getIssue('testowner', 'testrepo', 42);
+
+      expect(result.labels).toEqual([
+        { name: 'plain', color: null, description: null },
+        { name: 'bug', color: 'd73a4a', description: null },
+      ]);
+      expect(result.assignees).toEqual([{ login: 'octocat' }]);
+      expect(result.milestone).toEqual({
+        number: 2,
+        title: 'v1.0',
+        state: 'open',
+        due_on: null,
+        html_url: 'https://github.com/testowner/testrepo/milestone/2',
+      });
+      expect(result.state_reason).toBe('completed');
+      expect(result.closed_at).toBe('2024-01-03T00:00:00Z');
+      expect(result.sub_issues_summary).toEqual({ total: 4, completed: 1, percent_completed: 25 });
+      expect(result).not.toHaveProperty('reactions');
+    });
+
+    it('should default missing optional fields', async () => {
+      mockRequest.mockResolvedValueOnce({ data: { ...mockIssue, labels: [], milestone: null, closed_at: null } });
+
+      const result = await client.getIssue('testowner', 'testrepo', 42);
+
+      expect(result.body).toBeNull();
+      expect(result.assignees).toEqual([]);
+      expect(result.state_reason).toBeNull();
+      expect(result.sub_issues_summary).toBeNull();
+    });
   });
 
   describe('getBlockedBy', () => {
@@ -40,8 +690,9 @@ describe('GitHubClient', () => {
           issue_number: 5,
         })
       );
-      expect(result).toEqual(mockBlockingIssues);
-      expect(result).toHaveLength(2);
+      expect(result.items).toEqual(mockBlockingIssues);
+      expect(result.items).toHaveLength(2);
+      expect(result.truncated).toBe(false);
     });
 
     it('should return empty array when no blockers', async () => {
@@ -49,7 +700,7 @@ describe('GitHubClient', () => {
 
       const result = await client.getBlockedBy('testowner', 'testrepo', 5);
 
-      expect(result).toEqual([]);
+      expect(result.items).toEqual([]);
     });
   });
 
@@ -67,7 +718,7 @@ describe('GitHubClient', () => {
           issue_number: 10,
         })
       );
-      expect(result).toEqual([mockIssue]);
+      expect(result.items).toEqual([mockIssue]);
     });
 
     it('should return empty array when not blocking any issues', async () => {
@@ -75,7 +726,7 @@ describe('GitHubClient', () => {
 
       const result = await client.getBlocking('testowner', 'testrepo', 10);
 
-      expect(result).toEqual([]);
+      expect(result.items).toEqual([]);
     });
   });
 
@@ -173,8 +824,8 @@ describe('GitHubClient', () => {
           issue_number: 50,
         })
       );
-      expect(result).toEqual(mockSubIssues);
-      expect(result).toHaveLength(3);
+      expect(result.items).toEqual(mockSubIssues);
+      expect(result.items).toHaveLength(3);
     });
 
     it('should return empty array when no sub-issues', async () => {
@@ -182,7 +833,51 @@ describe('GitHubClient', () => {
 
       const result = await client.listSubIssues('testowner', 'testrepo', 50);
 
-      expect(result).toEqual([]);
+      expect(result.items).toEqual([]);
+    });
+  });
+
+  describe('pagination', () => {
+    const nextLink = '<https://api.github.com/repositories/1/issues/50/sub_issues?page=2>; rel="next"';
+
+    it('should follow Link headers until the last page', async () => {
+      mockRequest
+        .mockResolvedValueOnce({ data: [mockSubIssues[0]], headers: { link: nextLink } })
+        .mockResolvedValueOnce({ data: [mockSubIssues[1]], headers: { link: nextLink } })
+        .mockResolvedValueOnce({ data: [mockSubIssues[2]], headers: {} });
+
+      const result = await client.listSubIssues('testowner', 'testrepo', 50);
+
+      expect(mockRequest).toHaveBeenCalledTimes(3);
+      expect(mockRequest).toHaveBeenLastCalledWith(
+        'GET /repos/{owner}/{repo}/issues/{issue_number}/sub_issues',
+        expect.objectContaining({ per_page: 100, page: 3 })
+      );
+      expect(result.items).toEqual(mockSubIssues);
+      expect(result.truncated).toBe(false);
+    });
+
+    it('should stop and flag truncation when maxListItems is reached', async () => {
+      client = new GitHubClient('fake-token', undefined, { maxListItems: 2 });
+      mockRequest
+        .mockResolvedValueOnce({ data: [mockSubIssues[0]], headers: { link: nextLink } })
+        .mockResolvedValueOnce({ data: [mockSubIssues[1]], headers: { link: nextLink } });
+
+      const result = await client.listSubIssues('testowner', 'testrepo', 50);
+
+      expect(mockRequest).toHaveBeenCalledTimes(2);
+      expect(result.items).toEqual(mockSubIssues.slice(0, 2));
+      expect(result.truncated).toBe(true);
+    });
+
+    it('should not flag truncation when the limit matches the final page', async () => {
+      client = new GitHubClient('fake-token', undefined, { maxListItems: 3 });
+      mockRequest.mockResolvedValueOnce({ data: mockSubIssues, headers: {} });
+
+      const result = await client.getBlockedBy('testowner', 'testrepo', 5);
+
+      expect(result.items).toHaveLength(3);
+      expect(result.truncated).toBe(false);
     });
   });
 
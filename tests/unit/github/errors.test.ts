@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { GitHubApiError, formatErrorMessage, toGitHubApiError } from '../../../src/github/errors.js';
+
+function requestError(
+  status: number,
+  data: unknown = { message: 'Something went wrong' },
+  headers: Record<string, string> = {}
+) {
+  return Object.assign(new Error(`HttpError ${status}`), {
+    status,
+    response: { headers: { 'x-github-request-id': 'ABCD:1234', ...headers }, data },
+  });
+}
+
+const issueContext = {
+  route: 'GET /repos/{owner}/{repo}/issues/{issue_number}',
+  params: { owner: 'testowner', repo: 'testrepo', issue_number: 42 },
+};
+
+function convert(error: unknown, context = issueContext): GitHubApiError {
+  const converted = toGitHubApiError(error, context);
+  expect(converted).toBeInstanceOf(GitHubApiError);
+  return converted as GitHubApiError;
+}
+
+describe('toGitHubApiError', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should classify authentication failures', () => {
+    const error = convert(requestError(401, { message: 'Bad credentials' }));
+
+    expect(error.kind).toBe('authentication');
+    expect(error.message).toContain('is missing, invalid or expired');
+    expect(error.message).toContain('GITHUB_TOKEN');
+  });
+
+  it('should classify permission failures', () => {
+    const error = convert(requestError(403, { message: 'Resource not accessible by integration' }));
+
+    expect(error.kind).toBe('permission');
+    expect(error.message).toContain('Permission denied (403)');
+    expect(error.message).toContain('Resource not accessible by integration');
+  });
+
+  it('should classify an exhausted primary rate limit and report the reset', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(1_700_000_000_000));
+
+    const error = convert(
+      requestError(403, { message: 'API rate limit exceeded' }, {
+        'x-ratelimit-remaining': '0',
+        'x-ratelimit-reset': String(1_700_000_000 + 120),
+      })
+    );
+
+    expect(error.kind).toBe('rate_limit');
+    expect(error.retryAfter).toBe(120);
+    expect(error.message).toContain('Rate limit exceeded (403)');
+    expect(error.message).toContain('Retry in 120 second(s)');
+  });
+
+  it('should classify secondary rate limits using Retry-After', () => {
+    const error = convert(
+      requestError(403, { message: 'You have exceeded a secondary rate limit.' }, { 'retry-after': '60' })
+    );
+
+    expect(error.kind).toBe('secondary_rate_limit');
+    expect(error.retryAfter).toBe(60);
+  });
+
+  it('should classify 429 as a rate limit', () => {
+    expect(convert(requestError(429)).kind).toBe('rate_limit');
+  });
+
+  it('should name the issue for 404s', () => {
+    const error = convert(requestError(404, { message: 'Not Found' }));
+
+    expect(error.kind).toBe('not_found');
+    expect(error.message).toContain('Issue or repository not found (404): testowner/testrepo#42');
+  });
+
+  it('should mention the relationship for 404s on removals', () => {
+    const error = convert(requestError(404, { message: 'Not Found' }), {
+      route: 'DELETE /repos/{owner}/{repo}/issues/{issue_number}/sub_issue',
+      params: { owner: 'testowner', repo: 'testrepo', issue_number: 50 },
+    });
+
+    expect(error.message).toContain('or the relationship being removed does not exist');
+  });
+
+  it('should classify 410 as gone', () => {
+    expect(convert(requestError(410)).kind).toBe('gone');
+  });
+
+  it('should include field errors for validation failures', () => {
+    const error = convert(
+      requestError(422, {
+        message: 'Validation Failed',
+        errors: [{ resource: 'Issue', code: 'custom', message: 'Issue already has a parent' }],
+      })
+    );
+
+    expect(error.kind).toBe('validation');
+    expect(error.message).toContain('Validation Failed: Issue already has a parent');
+  });
+
+  it('should classify 5xx as server errors', () => {
+    const error = convert(requestError(502, { message: 'Bad Gateway' }));
+
+    expect(error.kind).toBe('server');
+    expect(error.status).toBe(502);
+    expect(error.message).toContain('try again shortly');
+  });
+
+  it('should keep the request ID and the original error', () => {
+    const original = requestError(404);
+    const error = convert(original);
+
+    expect(error.requestId).toBe('ABCD:1234');
+    expect(error.cause).toBe(original);
+  });
+
+  it('should return errors without an HTTP status unchanged', () => {
+    const original = new Error('socket hang up');
+
+    expect(toGitHubApiError(original)).toBe(original);
+  });
+});
+
+describe('formatErrorMessage', () => {
+  it('should append the GitHub request ID', () => {
+    const error = convert(requestError(404));
+
+    expect(formatErrorMessage(error)).toMatch(/\(GitHub request ID: ABCD:1234\)$/);
+  });
+
+  it('should use the message of other errors', () => {
+    expect(formatErrorMessage(new Error('boom'))).toBe('boom');
+    expect(formatErrorMessage('plain')).toBe('plain');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { parseIssueRef, parseIssueUrl } from '../../../src/github/issue-ref.js';
+
+const defaults = { owner: 'testowner', repo: 'testrepo' };
+
+describe('parseIssueRef', () => {
+  it('should treat numbers as issue IDs', () => {
+    expect(parseIssueRef(123456789, defaults)).toEqual({ kind: 'id', id: 123456789 });
+  });
+
+  it('should treat digit strings as issue IDs', () => {
+    expect(parseIssueRef(' 123456789 ', defaults)).toEqual({ kind: 'id', id: 123456789 });
+  });
+
+  it('should resolve "#123" against the default repository', () => {
+    expect(parseIssueRef('#42', defaults)).toEqual({
+      kind: 'number',
+      owner: 'testowner',
+      repo: 'testrepo',
+      issueNumber: 42,
+    });
+  });
+
+  it('should parse "owner/repo#123" references', () => {
+    expect(parseIssueRef('other-org/other.repo#7', defaults)).toEqual({
+      kind: 'number',
+      owner: 'other-org',
+      repo: 'other.repo',
+      issueNumber: 7,
+    });
+  });
+
+  it('should parse issue URLs', () => {
+    expect(parseIssueRef('https://github.com/acme/widgets/issues/15#issuecomment-1', defaults)).toEqual({
+      kind: 'number',
+      owner: 'acme',
+      repo: 'widgets',
+      issueNumber: 15,
+    });
+  });
+
+  it('should throw for unrecognised references', () => {
+    expect(() => parseIssueRef('issue 42', defaults)).toThrow('Invalid issue reference "issue 42"');
+    expect(() => parseIssueRef('https://github.com/acme/widgets/pull/15', defaults)).toThrow(
+      'Invalid issue reference'
+    );
+  });
+});
+
+describe('parseIssueUrl', () => {
+  it('should parse GitHub Enterprise issue URLs', () => {
+    expect(parseIssueUrl('https://github.example.com/acme/widgets/issues/3')).toEqual({
+      owner: 'acme',
+      repo: 'widgets',
+      issueNumber: 3,
+    });
+  });
+
+  it('should return null for non-issue URLs', () => {
+    expect(parseIssueUrl('https://github.com/acme/widgets')).toBeNull();
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ChangeJournal, describeChange, inverseOf, type JournalChange } from '../../../src/github/journal.js';
+
+const dependency: JournalChange = {
+  kind: 'add_blocking_dependency',
+  owner: 'testowner',
+  repo: 'testrepo',
+  issueNumber: 5,
+  blockingIssueId: 100,
+};
+
+const subIssue = { owner: 'testowner', repo: 'testrepo', parentIssueNumber: 50, subIssueId: 101 };
+
+describe('ChangeJournal', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'journal-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should list the changes of one scope, newest first', () => {
+    const journal = new ChangeJournal();
+    journal.record('alice', dependency);
+    journal.record('bob', dependency);
+    journal.record('alice', { ...dependency, issueNumber: 6 });
+
+    expect(journal.list('alice').map((entry) => entry.id)).toEqual([3, 1]);
+    expect(journal.list('alice', 1).map((entry) => entry.id)).toEqual([3]);
+    expect(journal.get('bob', 1)).toBeUndefined();
+  });
+
+  it('should mark changes recorded while undoing an entry', async () => {
+    const journal = new ChangeJournal();
+    journal.record('alice', dependency);
+
+    await journal.runUndo(1, async () => {
+      journal.record('alice', { ...dependency, kind: 'remove_blocking_dependency' });
+    });
+    journal.record('alice', dependency);
+
+    expect(journal.undoneBy(1)?.id).toBe(2);
+    expect(journal.get('alice', 3)?.undoOf).toBeUndefined();
+  });
+
+  it('should only count a change as undone once every inverse write is recorded', async () => {
+    const journal = new ChangeJournal();
+    journal.record('alice', { kind: 'remove_sub_issue', ...subIssue, position: { afterId: 100 } });
+
+    await expect(journal.runUndo(1, async () => {
+      journal.record('alice', { kind: 'add_sub_issue', ...subIssue });
+      throw new Error('Reprioritizing failed');
+    })).rejects.toThrow('Reprioritizing failed');
+
+    expect(journal.undoProgress(1).map((entry) => entry.id)).toEqual([2]);
+    expect(journal.undoneBy(1)).toBeUndefined();
+
+    await journal.runUndo(1, async () => {
+      journal.record('alice', { kind: 'reprioritize_sub_issue', ...subIssue });
+    });
+
+    expect(journal.undoneBy(1)?.id).toBe(2);
+  });
+
+  it('should refuse to undo an entry that is already being undone', async () => {
+    const journal = new ChangeJournal();
+    journal.record('alice', dependency);
+    let finish!: () => void;
+
+    const first = journal.runUndo(1, () => new Promise<void>((resolve) => (finish = resolve)));
+
+    await expect(journal.runUndo(1, async () => {})).rejects.toThrow('Change 1 is already being undone.');
+    finish();
+    await first;
+    await expect(journal.runUndo(1, async () => {})).resolves.toBeUndefined();
+  });
+
+  it('should keep only the newest entries', () => {
+    const journal = new ChangeJournal({ maxEntries: 2 });
+    for (let i = 0; i < 3; i++) {
+      journal.record('alice', dependency);
+    }
+
+    expect(journal.list('alice').map((entry) => entry.id)).toEqual([3, 2]);
+  });
+
+  it('should reload entries from the file and continue numbering', () => {
+    const file = join(dir, 'nested', 'journal.jsonl');
+    new ChangeJournal({ file }).record('alice', dependency);
+
+    const reopened = new ChangeJournal({ file });
+    const entry = reopened.record('alice', dependency);
+
+    expect(reopened.list('alice').map((e) => e.id)).toEqual([2, 1]);
+    expect(entry.id).toBe(2);
+  });
+
+  it('should skip corrupt lines', () => {
+    const file = join(dir, 'journal.jsonl');
+    writeFileSync(file, `not json\n${JSON.stringify({ id: 7, timestamp: '', scope: 'alice', change: dependency })}\n`);
+
+    expect(new ChangeJournal({ file }).list('alice').map((entry) => entry.id)).toEqual([7]);
+  });
+
+  it('should compact the file once it holds twice the kept entries', () => {
+    const file = join(dir, 'journal.jsonl');
+    const journal = new ChangeJournal({ file, maxEntries: 2 });
+    for (let i = 0; i < 5; i++) {
+      journal.record('alice', dependency);
+    }
+
+    const ids = readFileSync(file, 'utf8').trim().split('\n').map((line) => JSON.parse(line).id);
+    expect(ids).toEqual([4, 5]);
+  });
+
+  it('should number entries uniquely across journals sharing a file', () => {
+    const file = join(dir, 'journal.jsonl');
+    const first = new ChangeJournal({ file });
+    const second = new ChangeJournal({ file });
+
+    first.record('alice', dependency);
+    second.record('alice', { ...dependency, issueNumber: 6 });
+    first.record('alice', { ...dependency, issueNumber: 7 });
+
+    expect(first.list('alice').map((entry) => entry.id)).toEqual([3, 2, 1]);
+    expect(first.get('alice', 2)?.change).toEqual({ ...dependency, issueNumber: 6 });
+    expect(second.get('alice', 3)?.change).toEqual({ ...dependency, issueNumber: 7 });
+  });
+
+  it('should keep the other journals\' entries when compacting a shared file', () => {
+    const file = join(dir, 'journal.jsonl');
+    const first = new ChangeJournal({ file, maxEntries: 3 });
+    const second = new ChangeJournal({ file, maxEntries: 3 });
+    for (let i = 0; i < 3; i++) {
+      first.record('alice', dependency);
+      second.record('bob', dependency);
+    }
+    first.record('alice', dependency);
+
+    const ids = readFileSync(file, 'utf8').trim().split('\n').map((line) => JSON.parse(line).id);
+    expect(ids).toEqual([5, 6, 7]);
+    expect(second.list('bob').map((entry) => entry.id)).toEqual([6]);
+    expect(existsSync(`${file}.lock`)).toBe(false);
+  });
+});
+
+describe('inverseOf', () => {
+  it('should swap adding and removing dependencies', () => {
+    expect(inverseOf(dependency)).toEqual([{ ...dependency, kind: 'remove_blocking_dependency' }]);
+  });
+
+  it('should remove a new sub-issue that had no parent', () => {
+    expect(inverseOf({ kind: 'add_sub_issue', ...subIssue, previousParent: null })).toEqual([
+      { kind: 'remove_sub_issue', ...subIssue },
+    ]);
+  });
+
+  it('should move a sub-issue back to its previous parent and position', () => {
+    const change: JournalChange = {
+      kind: 'add_sub_issue',
+      ...subIssue,
+      previousParent: { owner: 'testowner', repo: 'other', issueNumber: 40, position: { afterId: 99 } },
+    };
+    const previous = { owner: 'testowner', repo: 'other', parentIssueNumber: 40, subIssueId: 101 };
+
+    expect(inverseOf(change)).toEqual([
+      { kind: 'add_sub_issue', ...previous, replaceParent: true },
+      { kind: 'reprioritize_sub_issue', ...previous, afterId: 99 },
+    ]);
+  });
+
+  it('should restore a removed sub-issue without taking it from a new parent', () => {
+    expect(inverseOf({ kind: 'remove_sub_issue', ...subIssue, position: { beforeId: 102 } })).toEqual([
+      { kind: 'add_sub_issue', ...subIssue, replaceParent: false },
+      { kind: 'reprioritize_sub_issue', ...subIssue, beforeId: 102 },
+    ]);
+  });
+
+  it('should refuse to undo a move whose previous position is unknown', () => {
+    expect(() => inverseOf({ kind: 'reprioritize_sub_issue', ...subIssue })).toThrow('cannot be undone');
+  });
+
+  it('should refuse to undo a move whose previous parent is unknown', () => {
+    expect(() => inverseOf({ kind: 'add_sub_issue', ...subIssue })).toThrow(
+      'The previous parent of this sub-issue was not recorded'
+    );
+  });
+});
+
+describe('describeChange', () => {
+  it('should mention the parent a sub-issue was moved from', () => {
+    expect(
+      describeChange({
+        kind: 'add_sub_issue',
+        ...subIssue,
+        previousParent: { owner: 'testowner', repo: 'testrepo', issueNumber: 40 },
+      })
+    ).toBe('Added issue ID 101 as a sub-issue of testowner/testrepo#50 (moved from testowner/testrepo#40)');
+  });
+});
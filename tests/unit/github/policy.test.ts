@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { PolicyDeniedError, RepositoryPolicy, validateRepositoryPatterns } from '../../../src/github/policy.js';
+
+describe('RepositoryPolicy', () => {
+  it('should allow everything when no patterns are configured', () => {
+    const policy = new RepositoryPolicy({});
+
+    expect(policy.allows('read', 'anyone', 'anything')).toBe(true);
+    expect(policy.allows('write', 'anyone', 'anything')).toBe(true);
+  });
+
+  it('should match owner and repository globs', () => {
+    const policy = new RepositoryPolicy({ read: ['acme/*', 'partner/api-?'] });
+
+    expect(policy.allows('read', 'acme', 'web')).toBe(true);
+    expect(policy.allows('read', 'partner', 'api-1')).toBe(true);
+    expect(policy.allows('read', 'partner', 'api-10')).toBe(false);
+    expect(policy.allows('read', 'other', 'web')).toBe(false);
+  });
+
+  it('should exclude repositories matching a negated pattern', () => {
+    const policy = new RepositoryPolicy({ read: ['acme/*', '!acme/secrets-*'] });
+
+    expect(policy.allows('read', 'acme', 'web')).toBe(true);
+    expect(policy.allows('read', 'acme', 'secrets-prod')).toBe(false);
+  });
+
+  it('should allow everything else when only exclusions are given', () => {
+    const policy = new RepositoryPolicy({ read: ['!acme/secrets-*'] });
+
+    expect(policy.allows('read', 'other', 'web')).toBe(true);
+    expect(policy.allows('read', 'acme', 'secrets-prod')).toBe(false);
+  });
+
+  it('should ignore case', () => {
+    const policy = new RepositoryPolicy({ read: ['Acme/Web'] });
+
+    expect(policy.allows('read', 'ACME', 'web')).toBe(true);
+  });
+
+  it('should treat dots in patterns literally', () => {
+    const policy = new RepositoryPolicy({ read: ['acme/site.io'] });
+
+    expect(policy.allows('read', 'acme', 'site.io')).toBe(true);
+    expect(policy.allows('read', 'acme', 'siteXio')).toBe(false);
+  });
+
+  it('should check writes separately and fall back to the read patterns', () => {
+    const separate = new RepositoryPolicy({ read: ['acme/*'], write: ['acme/sandbox'] });
+    const fallback = new RepositoryPolicy({ read: ['acme/*'] });
+    const writeOnly = new RepositoryPolicy({ write: ['acme/sandbox'] });
+
+    expect(separate.allows('read', 'acme', 'web')).toBe(true);
+    expect(separate.allows('write', 'acme', 'web')).toBe(false);
+    expect(separate.allows('write', 'acme', 'sandbox')).toBe(true);
+    expect(fallback.allows('write', 'acme', 'web')).toBe(true);
+    expect(fallback.allows('write', 'other', 'web')).toBe(false);
+    expect(writeOnly.allows('read', 'other', 'web')).toBe(true);
+    expect(writeOnly.allows('write', 'other', 'web')).toBe(false);
+  });
+
+  describe('check', () => {
+    const policy = new RepositoryPolicy({ read: ['acme/*'], write: ['acme/sandbox'] });
+
+    it('should decide access from the request method', () => {
+      const params = { owner: 'acme', repo: 'web', issue_number: 1 };
+
+      expect(() => policy.check('GET /repos/{owner}/{repo}/issues/{issue_number}', params)).not.toThrow();
+      expect(() => policy.check('POST /repos/{owner}/{repo}/issues/{issue_number}/sub_issues', params)).toThrow(
+        PolicyDeniedError
+      );
+    });
+
+    it('should explain the denial', () => {
+      expect(() => policy.check('DELETE /repos/{owner}/{repo}/issues/{issue_number}/sub_issue', {
+        owner: 'other',
+        repo: 'web',
+      })).toThrow('Policy denied: write access to other/web is not allowed by the repository policy');
+    });
+
+    it('should allow requests that are not about a repository', () => {
+      expect(() => policy.check('GET /rate_limit', {})).not.toThrow();
+    });
+  });
+});
+
+describe('validateRepositoryPatterns', () => {
+  it('should accept owner/repo globs and exclusions', () => {
+    expect(() => validateRepositoryPatterns(['acme/*', '!acme/secrets-*', '*/*', 'my_org/repo.js'])).not.toThrow();
+  });
+
+  it('should reject patterns that are not owner/repo', () => {
+    expect(() => validateRepositoryPatterns(['acme'])).toThrow('Invalid repository pattern "acme"');
+    expect(() => validateRepositoryPatterns(['acme/web/extra'])).toThrow('Invalid repository pattern');
+    expect(() => validateRepositoryPatterns(['acme/(web)'])).toThrow('Invalid repository pattern');
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RequestScheduler } from '../../../src/github/scheduler.js';
+import { GitHubApiError, RequestCancelledError, type GitHubErrorKind } from '../../../src/github/errors.js';
+
+function apiError(kind: GitHubErrorKind, status: number, retryAfter: number | null = null) {
+  return new GitHubApiError(`${kind} error`, kind, status, null, retryAfter);
+}
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should retry server errors on idempotent requests with exponential backoff', async () => {
+    const scheduler = new RequestScheduler();
+    const task = vi.fn()
+      .mockRejectedValueOnce(apiError('server', 502))
+      .mockRejectedValueOnce(apiError('server', 503))
+      .mockResolvedValueOnce('ok');
+
+    const result = scheduler.run('GET', task);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2000);
+    await expect(result).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry server errors on POST requests', async () => {
+    const scheduler = new RequestScheduler();
+    const task = vi.fn().mockRejectedValue(apiError('server', 502));
+
+    await expect(scheduler.run('POST', task)).rejects.toThrow('server error');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('should honor Retry-After for rate limits, including on POST', async () => {
+    const scheduler = new RequestScheduler();
+    const task = vi.fn()
+      .mockRejectedValueOnce(apiError('secondary_rate_limit', 403, 5))
+      .mockResolvedValueOnce('ok');
+
+    const result = scheduler.run('POST', task);
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('should pause other requests while rate limited', async () => {
+    const scheduler = new RequestScheduler();
+    const first = vi.fn()
+      .mockRejectedValueOnce(apiError('rate_limit', 429, 10))
+      .mockResolvedValueOnce('first');
+    const second = vi.fn().mockResolvedValue('second');
+
+    const firstResult = scheduler.run('GET', first);
+    await vi.advanceTimersByTimeAsync(0);
+    const secondResult = scheduler.run('GET', second);
+
+    await vi.advanceTimersByTimeAsync(9000);
+    expect(second).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(Promise.all([firstResult, secondResult])).resolves.toEqual(['first', 'second']);
+  });
+
+  it('should fail fast when the rate limit resets too far in the future', async () => {
+    const scheduler = new RequestScheduler();
+    const task = vi.fn().mockRejectedValue(apiError('rate_limit', 403, 3600));
+
+    await expect(scheduler.run('GET', task)).rejects.toThrow('rate_limit error');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up after maxRetries', async () => {
+    const scheduler = new RequestScheduler({ maxRetries: 1 });
+    const task = vi.fn().mockRejectedValue(apiError('server', 500));
+
+    const result = scheduler.run('GET', task);
+    const assertion = expect(result).rejects.toThrow('server error');
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertion;
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry errors that are not GitHub API errors', async () => {
+    const scheduler = new RequestScheduler();
+    const task = vi.fn().mockRejectedValue(new Error('boom'));
+
+    await expect(scheduler.run('GET', task)).rejects.toThrow('boom');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('should limit the number of requests in flight', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 2 });
+    let inFlight = 0;
+    let peak = 0;
+    const task = async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      inFlight--;
+    };
+
+    const all = Promise.all([1, 2, 3, 4, 5].map(() => scheduler.run('GET', task)));
+    await vi.advanceTimersByTimeAsync(50);
+    await all;
+
+    expect(peak).toBe(2);
+  });
+
+  describe('cancellation', () => {
+    it('should stop waiting to retry when the signal is aborted', async () => {
+      const scheduler = new RequestScheduler();
+      const controller = new AbortController();
+      const task = vi.fn().mockRejectedValueOnce(apiError('secondary_rate_limit', 403, 30)).mockResolvedValue('ok');
+
+      const result = scheduler.run('GET', task, controller.signal);
+      const assertion = expect(result).rejects.toBeInstanceOf(RequestCancelledError);
+      await vi.advanceTimersByTimeAsync(1000);
+      controller.abort();
+
+      await assertion;
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop waiting out a rate-limit pause when the signal is aborted', async () => {
+      const scheduler = new RequestScheduler();
+      const controller = new AbortController();
+      const first = vi.fn().mockRejectedValueOnce(apiError('rate_limit', 429, 10)).mockResolvedValueOnce('first');
+      const second = vi.fn().mockResolvedValue('second');
+
+      const firstResult = scheduler.run('GET', first);
+      await vi.advanceTimersByTimeAsync(0);
+      const secondResult = scheduler.run('GET', second, controller.signal);
+      const assertion = expect(secondResult).rejects.toBeInstanceOf(RequestCancelledError);
+      controller.abort();
+
+      await assertion;
+      await vi.advanceTimersByTimeAsync(10_000);
+      await expect(firstResult).resolves.toBe('first');
+      expect(second).not.toHaveBeenCalled();
+    });
+
+    it('should leave the queue for a free slot when the signal is aborted', async () => {
+      const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+      const controller = new AbortController();
+      const slow = () => new Promise((resolve) => setTimeout(() => resolve('slow'), 100));
+      const queued = vi.fn().mockResolvedValue('queued');
+      const next = vi.fn().mockResolvedValue('next');
+
+      const slowResult = scheduler.run('GET', slow);
+      const queuedResult = scheduler.run('GET', queued, controller.signal);
+      const nextResult = scheduler.run('GET', next);
+      const assertion = expect(queuedResult).rejects.toBeInstanceOf(RequestCancelledError);
+      controller.abort();
+
+      await assertion;
+      await vi.advanceTimersByTimeAsync(100);
+      await expect(Promise.all([slowResult, nextResult])).resolves.toEqual(['slow', 'next']);
+      expect(queued).not.toHaveBeenCalled();
+    });
+
+    it('should pass a free slot on when a woken waiter is aborted during a rate-limit pause', async () => {
+      const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+      const controller = new AbortController();
+      const limited = vi.fn().mockRejectedValueOnce(apiError('rate_limit', 429, 10));
+      const first = vi.fn();
+      const second = vi.fn().mockResolvedValue('second');
+
+      // The rate-limited request frees its slot for the first waiter, which then waits out the pause
+      const limitedResult = scheduler.run('GET', limited, controller.signal);
+      const firstResult = scheduler.run('GET', first, controller.signal);
+      const secondResult = scheduler.run('GET', second);
+      const assertions = Promise.all([
+        expect(limitedResult).rejects.toBeInstanceOf(RequestCancelledError),
+        expect(firstResult).rejects.toBeInstanceOf(RequestCancelledError),
+      ]);
+      await vi.advanceTimersByTimeAsync(1000);
+      controller.abort();
+
+      await assertions;
+      await vi.advanceTimersByTimeAsync(9000);
+      expect(second).toHaveBeenCalledTimes(1);
+      await expect(secondResult).resolves.toBe('second');
+      expect(first).not.toHaveBeenCalled();
+    });
+
+    it('should not start a request whose signal is already aborted', async () => {
+      const scheduler = new RequestScheduler();
+      const task = vi.fn();
+
+      await expect(scheduler.run('GET', task, AbortSignal.abort())).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(task).not.toHaveBeenCalled();
+    });
+  });
+});
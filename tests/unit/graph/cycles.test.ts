@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  checkNewDependencyForCycle,
+  findBlockedByPath,
+  findDependencyCycles,
+} from '../../../src/graph/cycles.js';
+import type { IssueGraph } from '../../../src/graph/dependency-graph.js';
+import type { GitHubClient } from '../../../src/github/client.js';
+import { issueRef, paginated } from '../../fixtures/github-responses.js';
+
+/**
+ * Build a graph from "blocked by" pairs of issue numbers.
+ */
+function graphOf(pairs: Array<[number, number]>): IssueGraph {
+  const numbers = [...new Set(pairs.flat())];
+  return {
+    nodes: numbers.map((number) => ({ ...issueRef(number), owner: 'testowner', repo: 'testrepo', depth: 0 })),
+    edges: pairs.map(([blocked, blocking]) => ({ blocked_id: blocked * 1000, blocking_id: blocking * 1000 })),
+    truncated: false,
+  };
+}
+
+describe('findDependencyCycles', () => {
+  it('should find each elementary cycle once', () => {
+    const graph = graphOf([
+      [1, 2],
+      [2, 3],
+      [3, 1],
+      [2, 1],
+      [4, 1],
+    ]);
+
+    const result = findDependencyCycles(graph, 10);
+
+    expect(result.cycles).toEqual([
+      [1000, 2000, 3000],
+      [1000, 2000],
+    ]);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('should report self-dependencies', () => {
+    expect(findDependencyCycles(graphOf([[1, 1]]), 10).cycles).toEqual([[1000]]);
+  });
+
+  it('should return no cycles for an acyclic graph', () => {
+    expect(findDependencyCycles(graphOf([[1, 2], [2, 3], [1, 3]]), 10).cycles).toEqual([]);
+  });
+
+  it('should scan a wide acyclic graph quickly', () => {
+    // 50 layers of 4 issues, each blocked by every issue of the next layer
+    const pairs: Array<[number, number]> = [];
+    for (let layer = 0; layer < 49; layer++) {
+      for (let a = 1; a <= 4; a++) {
+        for (let b = 1; b <= 4; b++) {
+          pairs.push([layer * 4 + a, (layer + 1) * 4 + b]);
+        }
+      }
+    }
+    const started = Date.now();
+
+    const result = findDependencyCycles(graphOf(pairs), 50);
+
+    expect(result).toEqual({ cycles: [], truncated: false });
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('should find cycles inside a larger acyclic graph', () => {
+    const graph = graphOf([
+      [1, 2],
+      [2, 3],
+      [3, 4],
+      [4, 2],
+      [4, 5],
+      [1, 5],
+    ]);
+
+    expect(findDependencyCycles(graph, 10).cycles).toEqual([[2000, 3000, 4000]]);
+  });
+
+  it('should stop at the step limit', () => {
+    // Every issue blocks every other one
+    const pairs: Array<[number, number]> = [];
+    for (let a = 1; a <= 8; a++) {
+      for (let b = 1; b <= 8; b++) {
+        if (a !== b) {
+          pairs.push([a, b]);
+        }
+      }
+    }
+
+    const result = findDependencyCycles(graphOf(pairs), 100_000, 500);
+
+    expect(result.cycles.length).toBeGreaterThan(0);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('should stop at the cycle limit', () => {
+    const graph = graphOf([
+      [1, 2],
+      [2, 1],
+      [3, 4],
+      [4, 3],
+    ]);
+
+    const result = findDependencyCycles(graph, 1);
+
+    expect(result.cycles).toHaveLength(1);
+    expect(result.truncated).toBe(true);
+  });
+});
+
+describe('findBlockedByPath', () => {
+  it('should return the shortest blocked-by chain', () => {
+    const graph = graphOf([
+      [1, 2],
+      [2, 3],
+      [1, 3],
+    ]);
+
+    expect(findBlockedByPath(graph, 1000, 3000)).toEqual([1000, 3000]);
+    expect(findBlockedByPath(graph, 3000, 1000)).toBeNull();
+  });
+});
+
+describe('checkNewDependencyForCycle', () => {
+  // #2 is blocked by #1, #3 is blocked by #2
+  const dependents: Record<number, number[]> = { 1: [2], 2: [3] };
+  const client = {
+    getIssue: vi.fn(async (_owner: string, _repo: string, number: number) => issueRef(number)),
+    getBlocking: vi.fn(async (_owner: string, _repo: string, number: number) =>
+      paginated((dependents[number] ?? []).map((dependent) => issueRef(dependent)))
+    ),
+  } as unknown as GitHubClient;
+  const target = { owner: 'testowner', repo: 'testrepo', issueNumber: 1 };
+
+  it('should return the cycle the new edge would close', async () => {
+    const result = await checkNewDependencyForCycle(client, target, 3000, { maxDepth: 10, maxNodes: 100 });
+
+    expect(result.cycle?.map((node) => node.number)).toEqual([1, 3, 2, 1]);
+  });
+
+  it('should allow dependencies that do not close a loop', async () => {
+    const result = await checkNewDependencyForCycle(client, target, 9000, { maxDepth: 10, maxNodes: 100 });
+
+    expect(result).toEqual({ cycle: null, complete: true });
+  });
+
+  it('should report an incomplete check when the walk was cut short', async () => {
+    const result = await checkNewDependencyForCycle(client, target, 9000, { maxDepth: 10, maxNodes: 2 });
+
+    expect(result).toEqual({ cycle: null, complete: false });
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildDependencyGraph } from '../../../src/graph/dependency-graph.js';
+import type { GitHubClient } from '../../../src/github/client.js';
+import { PolicyDeniedError } from '../../../src/github/policy.js';
+import type { IssueReference } from '../../../src/github/types.js';
+import { issueRef, paginated } from '../../fixtures/github-responses.js';
+
+/**
+ * Fake client backed by a "blocked by" adjacency list keyed by issue number.
+ */
+function fakeClient(blockedBy: Record<number, IssueReference[]>) {
+  const all = new Map<number, IssueReference>();
+  for (const [number, blockers] of Object.entries(blockedBy)) {
+    all.set(Number(number), issueRef(Number(number)));
+    blockers.forEach((blocker) => all.set(blocker.number, blocker));
+  }
+
+  return {
+    getIssue: vi.fn(async (_owner: string, _repo: string, number: number) => all.get(number) ?? issueRef(number)),
+    getBlockedBy: vi.fn(async (_owner: string, _repo: string, number: number) =>
+      paginated(blockedBy[number] ?? [])
+    ),
+    getBlocking: vi.fn(async (_owner: string, _repo: string, number: number) =>
+      paginated(
+        Object.entries(blockedBy)
+          .filter(([, blockers]) => blockers.some((b) => b.number === number))
+          .map(([blocked]) => all.get(Number(blocked))!)
+      )
+    ),
+  };
+}
+
+const root = { owner: 'testowner', repo: 'testrepo', issueNumber: 1 };
+
+describe('buildDependencyGraph', () => {
+  it('should mark issues in repositories outside the policy and not expand them', async () => {
+    const client = fakeClient({ 1: [issueRef(2, { repo: 'secret' }), issueRef(3)], 2: [issueRef(4)] });
+    client.getBlockedBy.mockImplementation(async (owner: string, repo: string, number: number) => {
+      if (repo === 'secret') {
+        throw new PolicyDeniedError('read', `${owner}/${repo}`);
+      }
+      return paginated(number === 1 ? [issueRef(2, { repo: 'secret' }), issueRef(3)] : []);
+    });
+
+    const graph = await buildDependencyGraph(client as unknown as GitHubClient, root, {
+      direction: 'blocked_by',
+      maxDepth: 5,
+      maxNodes: 100,
+    });
+
+    expect(graph.nodes.map((node) => [node.number, node.denied ?? false])).toEqual([
+      [1, false],
+      [2, true],
+      [3, false],
+    ]);
+  });
+
+  it('should walk blockers transitively and de-duplicate shared nodes', async () => {
+    // 1 ← 2 ← 4, 1 ← 3 ← 4
+    const client = fakeClient({ 1: [issueRef(2), issueRef(3)], 2: [issueRef(4)], 3: [issueRef(4)] });
+
+    const graph = await buildDependencyGraph(client as unknown as GitHubClient, root, {
+      direction: 'blocked_by',
+      maxDepth: 5,
+      maxNodes: 100,
+    });
+
+    expect(graph.root_id).toBe(1000);
+    expect(graph.nodes.map((n) => [n.number, n.depth])).toEqual([
+      [1, 0],
+      [2, 1],
+      [3, 1],
+      [4, 2],
+    ]);
+    expect(graph.edges).toEqual([
+      { blocked_id: 1000, blocking_id: 2000 },
+      { blocked_id: 1000, blocking_id: 3000 },
+      { blocked_id: 2000, blocking_id: 4000 },
+      { blocked_id: 3000, blocking_id: 4000 },
+    ]);
+    expect(client.getBlockedBy).toHaveBeenCalledTimes(4);
+    expect(client.getBlocking).not.toHaveBeenCalled();
+    expect(graph.truncated).toBe(false);
+  });
+
+  it('should stop expanding at maxDepth', async () => {
+    const client = fakeClient({ 1: [issueRef(2)], 2: [issueRef(3)], 3: [issueRef(4)] });
+
+    const graph = await buildDependencyGraph(client as unknown as GitHubClient, root, {
+      direction: 'blocked_by',
+      maxDepth: 2,
+      maxNodes: 100,
+    });
+
+    expect(graph.nodes.map((n) => n.number)).toEqual([1, 2, 3]);
+    expect(client.getBlockedBy).not.toHaveBeenCalledWith('testowner', 'testrepo', 3);
+  });
+
+  it('should terminate on cycles', async () => {
+    const client = fakeClient({ 1: [issueRef(2)], 2: [issueRef(1)] });
+
+    const graph = await buildDependencyGraph(client as unknown as GitHubClient, root, {
+      direction: 'blocked_by',
+      maxDepth: 10,
+      maxNodes: 100,
+    });
+
+    expect(graph.nodes).toHaveLength(2);
+    expect(graph.edges).toEqual([
+      { blocked_id: 1000, blocking_id: 2000 },
+      { blocked_id: 2000, blocking_id: 1000 },
+    ]);
+  });
+
+  it('should follow blocking edges and issues in other repositories', async () => {
+    const client = fakeClient({ 5: [issueRef(1)], 6: [issueRef(5)] });
+    client.getBlocking.mockImplementation(async (_owner, _repo, number) =>
+      paginated(number === 1 ? [issueRef(5, { repo: 'otherrepo' })] : [])
+    );
+
+    const graph = await buildDependencyGraph(client as unknown as GitHubClient, root, {
+      direction: 'blocking',
+      maxDepth: 3,
+      maxNodes: 100,
+    });
+
+    expect(graph.nodes[1]).toMatchObject({ number: 5, repo: 'otherrepo', depth: 1 });
+    expect(graph.edges).toEqual([{ blocked_id: 5000, blocking_id: 1000 }]);
+    expect(client.getBlocking).toHaveBeenCalledWith('testowner', 'otherrepo', 5);
+  });
+
+  it('should flag truncation when the node limit is reached', async () => {
+    const client = fakeClient({ 1: [issueRef(2), issueRef(3), issueRef(4)] });
+
+    const graph = await buildDependencyGraph(client as unknown as GitHubClient, root, {
+      direction: 'blocked_by',
+      maxDepth: 3,
+      maxNodes: 2,
+    });
+
+    expect(graph.nodes).toHaveLength(2);
+    expect(graph.edges).toHaveLength(1);
+    expect(graph.truncated).toBe(true);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildIssueTree, collapseIssueTree, issueTreeDepth } from '../../../src/graph/issue-tree.js';
+import type { GitHubClient } from '../../../src/github/client.js';
+import { PolicyDeniedError } from '../../../src/github/policy.js';
+import type { IssueReference } from '../../../src/github/types.js';
+import { issueRef, paginated } from '../../fixtures/github-responses.js';
+
+/**
+ * Fake client backed by a parent → sub-issues map keyed by issue number.
+ */
+function fakeClient(children: Record<number, IssueReference[]>) {
+  return {
+    getIssue: vi.fn(async (_owner: string, _repo: string, number: number) => issueRef(number)),
+    listSubIssues: vi.fn(async (_owner: string, _repo: string, number: number) =>
+      paginated(children[number] ?? [])
+    ),
+  };
+}
+
+const root = { owner: 'testowner', repo: 'testrepo', issueNumber: 1 };
+
+// 1 → (2 → 4 [closed], 5), (3 [closed])
+const hierarchy = {
+  1: [issueRef(2), issueRef(3, { state: 'closed' })],
+  2: [issueRef(4, { state: 'closed' }), issueRef(5)],
+};
+
+describe('buildIssueTree', () => {
+  it('should expand every level and roll up progress', async () => {
+    const client = fakeClient(hierarchy);
+
+    const tree = await buildIssueTree(client as unknown as GitHubClient, root, { maxDepth: 5, maxNodes: 100 });
+
+    expect(tree.node_count).toBe(5);
+    expect(tree.truncated).toBe(false);
+    expect(tree.root.progress).toEqual({ total: 4, open: 2, closed: 2, percent_complete: 50 });
+    expect(tree.root.children.map((c) => c.number)).toEqual([2, 3]);
+    expect(tree.root.children[0].progress).toEqual({ total: 2, open: 1, closed: 1, percent_complete: 50 });
+    expect(tree.root.children[1].progress.total).toBe(0);
+  });
+
+  it('should keep sub-issues in repositories outside the policy as denied leaves', async () => {
+    const client = fakeClient({ 1: [issueRef(2, { repo: 'secret' }), issueRef(3)] });
+    client.listSubIssues.mockImplementation(async (owner: string, repo: string, number: number) => {
+      if (repo === 'secret') {
+        throw new PolicyDeniedError('read', `${owner}/${repo}`);
+      }
+      return paginated(number === 1 ? [issueRef(2, { repo: 'secret' }), issueRef(3)] : []);
+    });
+
+    const tree = await buildIssueTree(client as unknown as GitHubClient, root, { maxDepth: 5, maxNodes: 100 });
+
+    expect(tree.root.children.map((c) => [c.number, c.denied ?? false, c.children_fetched])).toEqual([
+      [2, true, false],
+      [3, false, true],
+    ]);
+    expect(tree.truncated).toBe(false);
+  });
+
+  it('should stop at maxDepth without flagging truncation', async () => {
+    const client = fakeClient(hierarchy);
+
+    const tree = await buildIssueTree(client as unknown as GitHubClient, root, { maxDepth: 1, maxNodes: 100 });
+
+    expect(tree.root.children[0].children).toEqual([]);
+    expect(tree.root.children[0].children_fetched).toBe(false);
+    expect(client.listSubIssues).toHaveBeenCalledTimes(1);
+    expect(tree.truncated).toBe(false);
+  });
+
+  it('should follow sub-issues in other repositories', async () => {
+    const client = fakeClient({ 1: [issueRef(7, { repo: 'otherrepo' })] });
+
+    const tree = await buildIssueTree(client as unknown as GitHubClient, root, { maxDepth: 3, maxNodes: 100 });
+
+    expect(tree.root.children[0].repo).toBe('otherrepo');
+    expect(client.listSubIssues).toHaveBeenCalledWith('testowner', 'otherrepo', 7);
+  });
+
+  it('should flag truncation at the node limit', async () => {
+    const client = fakeClient(hierarchy);
+
+    const tree = await buildIssueTree(client as unknown as GitHubClient, root, { maxDepth: 5, maxNodes: 2 });
+
+    expect(tree.node_count).toBe(2);
+    expect(tree.truncated).toBe(true);
+  });
+});
+
+describe('collapseIssueTree', () => {
+  it('should drop levels below the given depth but keep rollups', async () => {
+    const tree = await buildIssueTree(fakeClient(hierarchy) as unknown as GitHubClient, root, {
+      maxDepth: 5,
+      maxNodes: 100,
+    });
+
+    const collapsed = collapseIssueTree(tree.root, 1);
+
+    expect(issueTreeDepth(tree.root)).toBe(2);
+    expect(issueTreeDepth(collapsed)).toBe(1);
+    expect(collapsed.children[0]).toMatchObject({ number: 2, collapsed: true, children: [] });
+    expect(collapsed.children[0].progress.total).toBe(2);
+    expect(collapsed.children[1].collapsed).toBeUndefined();
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildEpicPlan, planIssues, planSubIssueMoves } from '../../../src/graph/plan.js';
+import type { GitHubClient } from '../../../src/github/client.js';
+import { PolicyDeniedError } from '../../../src/github/policy.js';
+import type { IssueReference } from '../../../src/github/types.js';
+import { issueRef, paginated } from '../../fixtures/github-responses.js';
+
+// Edges between the issues numbered `blocked` and `blocking`
+const edge = (blocked: number, blocking: number) => ({ blocked_id: blocked * 1000, blocking_id: blocking * 1000 });
+const numbers = (issues: IssueReference[]) => issues.map((i) => i.number);
+
+describe('planIssues', () => {
+  it('should order issues after their blockers, keeping input order for ties', () => {
+    const plan = planIssues([issueRef(1), issueRef(2), issueRef(3), issueRef(4)], [edge(1, 3), edge(2, 3)]);
+
+    expect(numbers(plan.order)).toEqual([3, 1, 2, 4]);
+    expect(plan.unordered).toEqual([]);
+  });
+
+  it('should group open issues into waves and find the longest open chain', () => {
+    // 4 is blocked by 3, which is blocked by 2 and 1; 5 is independent
+    const plan = planIssues(
+      [issueRef(1), issueRef(2), issueRef(3), issueRef(4), issueRef(5)],
+      [edge(3, 1), edge(3, 2), edge(4, 3), edge(2, 1)]
+    );
+
+    expect(plan.waves.map(numbers)).toEqual([[1, 5], [2], [3], [4]]);
+    expect(numbers(plan.critical_path)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should treat closed blockers as done', () => {
+    const plan = planIssues([issueRef(1, { state: 'closed' }), issueRef(2), issueRef(3)], [edge(2, 1), edge(3, 2)]);
+
+    expect(numbers(plan.order)).toEqual([1, 2, 3]);
+    expect(plan.waves.map(numbers)).toEqual([[2], [3]]);
+    expect(numbers(plan.critical_path)).toEqual([2, 3]);
+  });
+
+  it('should leave issues in or behind a cycle unordered', () => {
+    const plan = planIssues([issueRef(1), issueRef(2), issueRef(3), issueRef(4)], [edge(1, 2), edge(2, 1), edge(3, 1)]);
+
+    expect(numbers(plan.order)).toEqual([4]);
+    expect(numbers(plan.unordered)).toEqual([1, 2, 3]);
+  });
+
+  it('should ignore edges to issues outside the set', () => {
+    const plan = planIssues([issueRef(1), issueRef(2)], [edge(1, 99)]);
+
+    expect(numbers(plan.order)).toEqual([1, 2]);
+    expect(plan.waves.map(numbers)).toEqual([[1, 2]]);
+  });
+});
+
+describe('planSubIssueMoves', () => {
+  const apply = (current: number[], moves: ReturnType<typeof planSubIssueMoves>) => {
+    const list = [...current];
+    for (const move of moves) {
+      list.splice(list.indexOf(move.subIssueId), 1);
+      const anchor = move.afterId ?? move.beforeId!;
+      list.splice(list.indexOf(anchor) + (move.afterId !== undefined ? 1 : 0), 0, move.subIssueId);
+    }
+    return list;
+  };
+
+  it('should return no moves when the order already matches', () => {
+    expect(planSubIssueMoves([1, 2, 3], [1, 2, 3])).toEqual([]);
+  });
+
+  it('should produce moves that reach the target order', () => {
+    const current = [4, 1, 3, 2, 5];
+    const target = [2, 3, 1, 5, 4];
+
+    const moves = planSubIssueMoves(current, target);
+
+    expect(moves[0]).toEqual({ subIssueId: 2, beforeId: 4 });
+    expect(apply(current, moves)).toEqual(target);
+  });
+
+  it('should only move issues that are out of place', () => {
+    expect(planSubIssueMoves([1, 3, 2], [1, 2, 3])).toEqual([{ subIssueId: 2, afterId: 1 }]);
+  });
+});
+
+describe('buildEpicPlan', () => {
+  it('should plan sub-issues from their blockers and report external blockers', async () => {
+    const blockedBy: Record<number, IssueReference[]> = {
+      1: [issueRef(2), issueRef(99, { repo: 'otherrepo' })],
+      2: [issueRef(98, { state: 'closed', repo: 'otherrepo' })],
+    };
+    const client = {
+      listSubIssues: vi.fn().mockResolvedValue(paginated([issueRef(1), issueRef(2)])),
+      getBlockedBy: vi.fn(async (_owner: string, _repo: string, number: number) =>
+        paginated(blockedBy[number] ?? [])
+      ),
+    };
+
+    const plan = await buildEpicPlan(client as unknown as GitHubClient, {
+      owner: 'testowner',
+      repo: 'testrepo',
+      issueNumber: 50,
+    });
+
+    expect(client.listSubIssues).toHaveBeenCalledWith('testowner', 'testrepo', 50);
+    expect(numbers(plan.sub_issues)).toEqual([1, 2]);
+    expect(numbers(plan.order)).toEqual([2, 1]);
+    expect(plan.external_blockers).toEqual([{ issue: issueRef(1), waiting_on: [issueRef(99, { repo: 'otherrepo' })] }]);
+    expect(plan.truncated).toBe(false);
+    expect(plan.denied).toEqual([]);
+  });
+
+  it('should list sub-issues outside the policy as denied', async () => {
+    const client = {
+      listSubIssues: vi.fn().mockResolvedValue(paginated([issueRef(1), issueRef(2, { repo: 'secret' })])),
+      getBlockedBy: vi.fn(async (_owner: string, repo: string) => {
+        if (repo === 'secret') {
+          throw new PolicyDeniedError('read', 'testowner/secret');
+        }
+        return paginated([issueRef(2, { repo: 'secret' })]);
+      }),
+    };
+
+    const plan = await buildEpicPlan(client as unknown as GitHubClient, {
+      owner: 'testowner',
+      repo: 'testrepo',
+      issueNumber: 50,
+    });
+
+    expect(numbers(plan.order)).toEqual([2, 1]);
+    expect(plan.denied).toEqual([issueRef(2, { repo: 'secret' })]);
+  });
+});
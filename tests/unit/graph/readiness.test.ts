@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from 'vitest';
+import { classifyReadiness } from '../../../src/graph/readiness.js';
+import type { GitHubClient } from '../../../src/github/client.js';
+import { PolicyDeniedError } from '../../../src/github/policy.js';
+import type { IssueReference } from '../../../src/github/types.js';
+import { issueRef, paginated } from '../../fixtures/github-responses.js';
+
+describe('classifyReadiness', () => {
+  const blockedBy: Record<number, IssueReference[]> = {
+    1: [],
+    2: [issueRef(10, { state: 'closed' })],
+    3: [issueRef(11), issueRef(12, { state: 'closed' })],
+  };
+  const client = {
+    getBlockedBy: vi.fn(async (_owner: string, _repo: string, number: number) =>
+      paginated(blockedBy[number] ?? [])
+    ),
+  };
+
+  it('should split open issues into ready and blocked, skipping closed ones', async () => {
+    const report = await classifyReadiness(client as unknown as GitHubClient, [
+      issueRef(1),
+      issueRef(2),
+      issueRef(3),
+      issueRef(4, { state: 'closed' }),
+    ]);
+
+    expect(report.ready.map((i) => i.number)).toEqual([1, 2]);
+    expect(report.blocked).toEqual([{ issue: issueRef(3), waiting_on: [issueRef(11)] }]);
+    expect(report.closed_count).toBe(1);
+    expect(report.truncated).toBe(false);
+    expect(client.getBlockedBy).not.toHaveBeenCalledWith('testowner', 'testrepo', 4);
+  });
+
+  it('should list candidates outside the policy as denied', async () => {
+    client.getBlockedBy.mockRejectedValueOnce(new PolicyDeniedError('read', 'testowner/secret'));
+
+    const report = await classifyReadiness(client as unknown as GitHubClient, [issueRef(5), issueRef(1)]);
+
+    expect(report.denied).toEqual([issueRef(5)]);
+    expect(report.ready).toEqual([issueRef(1)]);
+  });
+
+  it('should flag truncated blocker lists', async () => {
+    client.getBlockedBy.mockResolvedValueOnce({ items: [], truncated: true });
+
+    const report = await classifyReadiness(client as unknown as GitHubClient, [issueRef(1)]);
+
+    expect(report.truncated).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ResourceSubscriptions } from '../../src/subscriptions.js';
+
+describe('ResourceSubscriptions', () => {
+  const contents = new Map<string, string>();
+  const read = vi.fn(async (uri: string) => {
+    const content = contents.get(uri);
+    if (content === undefined) {
+      throw new Error(`Cannot read ${uri}`);
+    }
+    return content;
+  });
+  const onUpdated = vi.fn();
+  let subscriptions: ResourceSubscriptions;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    contents.clear();
+    contents.set('a', 'one');
+    contents.set('b', 'two');
+    subscriptions = new ResourceSubscriptions({ read, onUpdated, pollSeconds: 30 });
+  });
+
+  afterEach(() => {
+    subscriptions.close();
+    vi.useRealTimers();
+  });
+
+  it('should notify about subscribed resources whose content changed', async () => {
+    await subscriptions.subscribe('a');
+    await subscriptions.subscribe('b');
+    contents.set('b', 'three');
+
+    await subscriptions.poll();
+    await subscriptions.poll();
+
+    expect(onUpdated).toHaveBeenCalledTimes(1);
+    expect(onUpdated).toHaveBeenCalledWith('b');
+  });
+
+  it('should refuse resources that cannot be read', async () => {
+    await expect(subscriptions.subscribe('missing')).rejects.toThrow('Cannot read missing');
+    expect(subscriptions.uris).toEqual([]);
+  });
+
+  it('should keep the previous content when a poll fails', async () => {
+    await subscriptions.subscribe('a');
+    contents.delete('a');
+    await subscriptions.poll();
+    contents.set('a', 'one');
+
+    await subscriptions.poll();
+
+    expect(onUpdated).not.toHaveBeenCalled();
+  });
+
+  it('should stop notifying after unsubscribing', async () => {
+    await subscriptions.subscribe('a');
+    subscriptions.unsubscribe('a');
+    contents.set('a', 'changed');
+
+    await subscriptions.poll();
+
+    expect(read).toHaveBeenCalledTimes(1);
+    expect(onUpdated).not.toHaveBeenCalled();
+  });
+
+  it('should poll on the interval while there are subscriptions', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    await subscriptions.subscribe('a');
+    contents.set('a', 'changed');
+
+    vi.advanceTimersByTime(30_000);
+    await vi.waitFor(() => expect(onUpdated).toHaveBeenCalledWith('a'));
+
+    subscriptions.unsubscribe('a');
+    vi.advanceTimersByTime(30_000);
+    expect(read).toHaveBeenCalledTimes(2);
+  });
+});